@@ -0,0 +1,18 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { ThemeProvider } from './Theme.tsx';
+import SpatialBenchmark from './components/Page/SpatialBenchmark.tsx';
+
+// Entry point of benchmark.html: times shape lookups on a very full layer
+const root = ReactDOM.createRoot(document.getElementById('root'));
+root.render(
+  <React.StrictMode>
+    <ThemeProvider>
+      <SpatialBenchmark />
+    </ThemeProvider>
+  </React.StrictMode>
+);
@@ -14,25 +14,48 @@ import PropertiesPanel from '../Package/PropertiesPanel.tsx';
 import AssetsPanel from '../Package/AssetsPanel.tsx';
 import LayersPanel from '../Package/LayersPanel.tsx';
 import Toolbar from '../Package/Toolbar.tsx';
-import { WindowId, WindowState, Layer, Tool, ToolSettings, ShapeType } from '../../types/index.tsx';
+import UndoRedo from '../Package/UndoRedo.tsx';
+import RecoveryPrompt from '../Package/RecoveryPrompt.tsx';
+import ErrorToast from '../Package/ErrorToast.tsx';
+import ZoomControl from '../Package/ZoomControl.tsx';
+import ShortcutsPanel from '../Package/ShortcutsPanel.tsx';
+import CommandPalette from '../Package/CommandPalette.tsx';
+import { useHistory } from '../../hooks/useHistory.tsx';
+import { useAutosave } from '../../hooks/useAutosave.tsx';
+import { useKeymap, useShortcuts } from '../../hooks/useShortcuts.tsx';
+import { WindowId, WindowState, Layer, LayerType, Tool, ToolSettings, CanvasSettings, SelectedObjectType, DocumentSnapshot, WhisperDocument, AutosaveSessionInfo, Guide, AlignEdge, DistributeMode, ClipboardContent, ClipboardLayers, PastePlacement, CommandId } from '../../types/index.tsx';
+import { createDocument, createSnapshot, parseDocument, downloadDocument, DOCUMENT_EXTENSION } from '../../utils/document.tsx';
+import { CommandImplementation, CommandImplementations, canRun } from '../../utils/commands.tsx';
+import { listRecoverableSessions, loadSessionDocument, deleteSession } from '../../utils/autosave.tsx';
+import { createLayerClipboard, remapLayerIds, embedClipboardContent, extractClipboardContent, writeSystemClipboard, readSystemClipboard } from '../../utils/clipboard.tsx';
+import { parseSvg, SVG_FILE_TYPES } from '../../utils/svg.tsx';
+import { readImageFile, isImageFile, addImageAssets, IMAGE_FILE_TYPES } from '../../utils/image.tsx';
+import { isTypingTarget } from '../../utils/shortcuts.tsx';
+
+// Arrow keys move the selection this many artboard pixels, Shift+arrow the larger step
+const NUDGE_DISTANCE = 1;
+const NUDGE_FAR_DISTANCE = 10;
+// Each Zoom In / Zoom Out command scales the view by this much
+const ZOOM_STEP = 1.25;
 
 /**
  * 🎨 2D Texture Design Tool
  * Acts as the main state orchestrator for the application.
  */
 const MetaPrototype = () => {
-  const { theme } = useTheme();
+  const { theme, themeName, setThemeName } = useTheme();
   const stageRef = useRef<StageHandle>(null);
   
   // -- Drag State Management --
   const [isContentDragging, setIsContentDragging] = useState(false);
 
   // -- Canvas & Tool State --
+  const [documentName, setDocumentName] = useState('My Texture');
   const [layers, setLayers] = useState<Layer[]>([]);
   const [activeLayerId, setActiveLayerId] = useState<string | null>(null);
   const [activeTool, setActiveTool] = useState<Tool>('select');
   const [isAnchorSelected, setIsAnchorSelected] = useState(false);
-  const [selectedObjectType, setSelectedObjectType] = useState<ShapeType | 'path' | null>(null);
+  const [selectedObjectType, setSelectedObjectType] = useState<SelectedObjectType>(null);
   
   const [toolSettings, setToolSettings] = useState<ToolSettings>({
     strokeColor: '#000000',
@@ -43,7 +66,25 @@ const MetaPrototype = () => {
     lineJoin: 'round',
     strokeEnabled: true,
     fillEnabled: true,
+    fillGradient: null,
+    strokeGradient: null,
+    // Vector Brush Defaults
+    brushStabilizer: 'string',
+    brushSmoothing: 30,
+    brushSimplify: 2.5,
+    brushWidthMode: 'fixed',
+    brushWidthVariation: 0.8,
+    brushTaperStart: 0.1,
+    brushTaperEnd: 0.2,
+    // Vector Paint Bucket Defaults
+    fillGapTolerance: 4,
+    // Paint Brush Defaults
+    brushHardness: 0.8,
+    brushSpacing: 0.15,
+    pressureSize: true,
+    pressureOpacity: false,
     selectionMode: 'vector',
+    alignTo: 'selection',
     penHandleMode: 'mirrored',
     penClosePath: false,
     // Shape Tool Defaults
@@ -54,18 +95,57 @@ const MetaPrototype = () => {
     starPoints: 5,
     starInnerRadius: 0.5,
     polygonSides: 6,
+    // Text Tool Defaults
+    textFamily: "'Inter', sans-serif",
+    textSize: 48,
+    textWeight: 400,
+    textLetterSpacing: 0,
+    textLineHeight: 1.2,
+    textAlign: 'left',
   });
 
+  const [canvasSettings, setCanvasSettings] = useState<CanvasSettings>({
+    artboardWidth: 1920,
+    artboardHeight: 1080,
+    tileMode: false,
+    tilePreview: false,
+    snapping: true,
+    snapToGrid: false,
+    showGrid: false,
+    gridSize: 20,
+    snapToObjects: true,
+    snapToArtboard: true,
+    smartGuides: true,
+    showRulers: true,
+    showGuides: true,
+    lockGuides: false,
+  });
+
+  // Guides belong to the document: they are saved with it and every change is an undo step
+  const [guides, setGuides] = useState<Guide[]>([]);
+
+  // Viewport zoom, reported by the engine (1 = 100%)
+  const [zoom, setZoom] = useState(1);
+
+  // Failures of things started away from a panel (keys, the palette, drops, pasting, recovery) are shown in a toast
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const showError = useCallback((err: unknown, fallback: string) => {
+      setErrorMessage(err instanceof Error && err.message ? err.message : fallback);
+  }, []);
+  const dismissError = useCallback(() => setErrorMessage(null), []);
+
   // --- Window Management ---
   const WINDOW_WIDTH = 320;
   const PROPERTIES_PANEL_HEIGHT = 500;
   const ASSETS_PANEL_HEIGHT = 300;
   const LAYERS_PANEL_HEIGHT = 400;
+  const SHORTCUTS_PANEL_HEIGHT = 500;
 
   const [windows, setWindows] = useState<Record<WindowId, WindowState>>({
     properties: { id: 'properties', title: 'Inspector', isOpen: true, zIndex: 3, x: -WINDOW_WIDTH / 2, y: -PROPERTIES_PANEL_HEIGHT / 2 },
     layers: { id: 'layers', title: 'Layers', isOpen: true, zIndex: 2, x: -WINDOW_WIDTH / 2, y: -LAYERS_PANEL_HEIGHT / 2 },
     assets: { id: 'assets', title: 'Assets', isOpen: false, zIndex: 1, x: -WINDOW_WIDTH / 2, y: -ASSETS_PANEL_HEIGHT / 2 },
+    shortcuts: { id: 'shortcuts', title: 'Shortcuts', isOpen: false, zIndex: 0, x: -WINDOW_WIDTH / 2, y: -SHORTCUTS_PANEL_HEIGHT / 2 },
   });
 
   const bringToFront = (id: WindowId) => {
@@ -124,13 +204,30 @@ const MetaPrototype = () => {
       return flat;
   };
 
+  // --- Undo / Redo ---
+  // Snapshots hold both the React layer tree and the engine's shapes, so one step covers both.
+  const history = useHistory<DocumentSnapshot>(
+      () => stageRef.current ? createSnapshot(layers, stageRef.current.serializeContent(), guides, stageRef.current.getCanvasSize()) : null,
+      (snapshot) => {
+          setLayers(snapshot.layers);
+          setGuides(snapshot.guides);
+          setCanvasSettings(prev => ({ ...prev, artboardWidth: snapshot.canvas.width, artboardHeight: snapshot.canvas.height }));
+          setActiveLayerId(prev => {
+              const flat = flattenLayerTree(snapshot.layers);
+              return flat.some(l => l.id === prev) ? prev : (flat[0]?.id ?? null);
+          });
+          stageRef.current?.loadContent(snapshot.content);
+      }
+  );
+  const { commit: commitHistory, undo, redo, reset: resetHistory } = history;
+
   // --- Layer Management Callbacks ---
-  const handleAddLayer = useCallback(() => {
+  const handleAddLayer = useCallback((type: LayerType = 'layer') => {
     const newLayerId = `layer-${Date.now()}`;
     const newLayer: Layer = {
       id: newLayerId,
-      type: 'layer',
-      name: 'New Layer',
+      type,
+      name: type === 'raster' ? 'Paint Layer' : 'New Layer',
       isVisible: true,
       opacity: 1,
       blendMode: 'source-over',
@@ -156,7 +253,8 @@ const MetaPrototype = () => {
         return [newLayer, ...prevLayers];
     });
     setActiveLayerId(newLayerId);
-  }, [activeLayerId]);
+    commitHistory(type === 'raster' ? 'Add Paint Layer' : 'Add Layer');
+  }, [activeLayerId, commitHistory]);
 
   useEffect(() => {
     if (layers.length === 0) {
@@ -168,6 +266,17 @@ const MetaPrototype = () => {
     setActiveLayerId(id);
   }, []);
   
+  const handleCanvasSettingChange = useCallback((key: keyof CanvasSettings, value: any) => {
+    setCanvasSettings(prev => ({ ...prev, [key]: value }));
+    // The artboard size is part of the document (paint layers are resized with it); the rest are view settings
+    if (key === 'artboardWidth' || key === 'artboardHeight') commitHistory('Resize Artboard', 'artboard-size');
+  }, [commitHistory]);
+
+  const handleGuidesChange = useCallback((next: Guide[], label: string) => {
+    setGuides(next);
+    commitHistory(label);
+  }, [commitHistory]);
+
   const handleToolSettingChange = useCallback((key: keyof ToolSettings, value: any) => {
     setToolSettings(prev => {
         if (key === 'penClosePath') {
@@ -181,17 +290,7 @@ const MetaPrototype = () => {
     setToolSettings(prev => ({ ...prev, ...properties }));
   }, []);
 
-  const handleStageAction = useCallback((action: string) => {
-      if (!stageRef.current) return;
-      switch (action) {
-          case 'finishPath': stageRef.current.finishPath(); setActiveTool('select'); break;
-          case 'deleteAnchor': stageRef.current.deleteSelectedAnchor(); break;
-          case 'sharpAnchor': stageRef.current.setAnchorSharp(); break;
-          case 'flatten': stageRef.current.flattenSelectedShape(); break;
-      }
-  }, []);
-
-  const handleDeleteLayer = useCallback((id: string) => {
+  const handleDeleteLayer = useCallback((id: string, label = 'Delete Layer') => {
     setLayers(prevLayers => {
       const newLayers = deleteLayerFromTree(prevLayers, id);
       // If deleted active layer, fallback
@@ -202,7 +301,8 @@ const MetaPrototype = () => {
       }
       return newLayers;
     });
-  }, [activeLayerId]);
+    commitHistory(label);
+  }, [activeLayerId, commitHistory]);
 
   const handleDuplicateLayer = useCallback((id: string) => {
     const newLayerId = `layer-${Date.now()}`;
@@ -225,15 +325,20 @@ const MetaPrototype = () => {
       setActiveLayerId(newLayerId);
       return newLayers;
     });
-  }, []);
+    commitHistory('Duplicate Layer');
+  }, [commitHistory]);
 
   const handleUpdateLayerProperty = useCallback((id: string, properties: Partial<Layer>) => {
     setLayers(prev => updateLayerInTree(prev, id, l => ({ ...l, ...properties })));
-  }, []);
+    // Folding a group open/closed is just a view change, not an edit worth undoing.
+    const keys = Object.keys(properties).filter(k => k !== 'isOpen');
+    if (keys.length > 0) commitHistory('Edit Layer', `layer-${id}-${keys.sort().join(',')}`);
+  }, [commitHistory]);
 
   const handleReorderLayers = useCallback((reorderedLayers: Layer[]) => {
       setLayers(reorderedLayers);
-  }, []);
+      commitHistory('Reorder Layers', 'reorder');
+  }, [commitHistory]);
 
   // --- Grouping Logic ---
   const handleGroupSelection = useCallback(() => {
@@ -270,7 +375,8 @@ const MetaPrototype = () => {
           setActiveLayerId(newGroupId);
           return replaceInTree(prev);
       });
-  }, [activeLayerId]);
+      commitHistory('Group');
+  }, [activeLayerId, commitHistory]);
   
   const handleUngroup = useCallback((id: string) => {
       setLayers(prev => {
@@ -289,7 +395,8 @@ const MetaPrototype = () => {
           
           return ungroupRecursive(prev);
       });
-  }, []);
+      commitHistory('Ungroup');
+  }, [commitHistory]);
 
   const handleMoveLayer = useCallback((layerId: string, targetGroupId: string | null) => {
     setLayers(prev => {
@@ -343,7 +450,8 @@ const MetaPrototype = () => {
             return addToGroupRecursive(layersWithoutItem);
         }
     });
-  }, []);
+    commitHistory('Move Layer');
+  }, [commitHistory]);
 
   const handleUpdateThumbnail = useCallback((id: string, dataUrl: string) => {
       setLayers(prev => updateLayerInTree(prev, id, l => ({ ...l, thumbnail: dataUrl })));
@@ -353,9 +461,392 @@ const MetaPrototype = () => {
       stageRef.current?.exportImage(fileName, format);
   }, []);
   
+  // --- Autosave ---
+  const { sessionId, adoptSession, clearSession } = useAutosave(history.revision, () => {
+      const stage = stageRef.current;
+      if (!stage) return null;
+      return {
+          name: documentName,
+          thumbnail: stage.generateSceneThumbnail(),
+          document: createDocument({ name: documentName, canvas: stage.getCanvasSize(), toolSettings, layers, content: stage.serializeContent(), guides }),
+      };
+  }, canvasSettings);
+
+  // --- Document Save / Open ---
+  const handleSaveDocument = useCallback((fileName: string) => {
+      const stage = stageRef.current;
+      if (!stage) return;
+      const doc = createDocument({
+          name: fileName,
+          canvas: stage.getCanvasSize(),
+          toolSettings,
+          layers,
+          content: stage.serializeContent(),
+          guides,
+      });
+      downloadDocument(doc, fileName);
+      setDocumentName(fileName);
+      clearSession();
+  }, [layers, toolSettings, guides, clearSession]);
+
+  const loadDocument = useCallback((doc: WhisperDocument) => {
+      // Layers go in first so the thumbnail updates queued by loadContent land on the new tree.
+      setLayers(doc.layers);
+      setToolSettings(prev => ({ ...prev, ...doc.toolSettings }));
+      setCanvasSettings(prev => ({ ...prev, artboardWidth: doc.canvas.width, artboardHeight: doc.canvas.height }));
+      setGuides(doc.guides ?? []);
+      setActiveLayerId(flattenLayerTree(doc.layers)[0]?.id ?? null);
+      setDocumentName(doc.name);
+      addImageAssets(doc.assets ?? {});
+      stageRef.current?.loadContent(doc.content);
+      // A freshly opened file starts with a clean history.
+      resetHistory();
+      commitHistory('Open Document');
+  }, [resetHistory, commitHistory]);
+
+  const handleOpenDocument = useCallback(async (file: File) => {
+      const doc = parseDocument(await file.text());
+      loadDocument(doc);
+      return doc.name;
+  }, [loadDocument]);
+
+  // --- Recovery ---
+  const [recoverableSessions, setRecoverableSessions] = useState<AutosaveSessionInfo[]>([]);
+
+  // On startup, look for work left behind by an earlier visit (a crash, a closed tab...). Other open tabs' work isn't listed.
+  useEffect(() => {
+      listRecoverableSessions()
+          .then(sessions => setRecoverableSessions(sessions.filter(s => s.id !== sessionId)))
+          .catch(() => {
+              // No autosave storage (a private window, for one), so nothing to recover either
+          });
+  }, [sessionId]);
+
+  const handleRestoreSession = useCallback(async (id: string) => {
+      try {
+          const doc = await loadSessionDocument(id);
+          if (doc) {
+              loadDocument(doc);
+              adoptSession(id);
+          }
+      } catch (err) {
+          showError(err, 'Could not restore this session.');
+      }
+      setRecoverableSessions([]);
+  }, [loadDocument, adoptSession, showError]);
+
+  const handleDiscardSession = useCallback((id: string) => {
+      deleteSession(id).catch(() => {
+          // Still hidden for now; it is offered again next time
+      });
+      setRecoverableSessions(prev => prev.filter(s => s.id !== id));
+  }, []);
+
   // Recursive search for active layer prop
   const activeLayer = useMemo(() => findLayer(layers, activeLayerId || ''), [layers, activeLayerId]);
+
+  // --- Align & Distribute ---
+  // With a group active, its child layers line up with each other; any other layer lines up with the artboard.
+  const alignLayerIds = useMemo(() => {
+      if (!activeLayer) return [];
+      const children = activeLayer.type === 'group' ? activeLayer.children.filter(child => child.isVisible) : [];
+      return children.length > 0 ? children.map(child => child.id) : [activeLayer.id];
+  }, [activeLayer]);
+
+  // Layer transforms live in the layer tree, so the Stage only says how far each layer has to move
+  const moveLayersBy = useCallback((offsets: Record<string, { dx: number, dy: number }>, label: string) => {
+      const moves = Object.entries(offsets).filter(([, { dx, dy }]) => Math.abs(dx) > 1e-6 || Math.abs(dy) > 1e-6);
+      if (moves.length === 0) return;
+      setLayers(prev => moves.reduce((tree, [id, { dx, dy }]) => updateLayerInTree(tree, id, l => ({ ...l, x: l.x + dx, y: l.y + dy })), prev));
+      commitHistory(label);
+  }, [commitHistory]);
+
+  const handleAlign = useCallback((scope: 'shapes' | 'layers', edge: AlignEdge) => {
+      if (!stageRef.current) return;
+      if (scope === 'shapes') stageRef.current.alignSelection(edge, toolSettings.alignTo);
+      else moveLayersBy(stageRef.current.alignLayers(alignLayerIds, edge, toolSettings.alignTo), 'Align Layers');
+  }, [toolSettings.alignTo, alignLayerIds, moveLayersBy]);
+
+  const handleDistribute = useCallback((scope: 'shapes' | 'layers', mode: DistributeMode) => {
+      if (!stageRef.current) return;
+      if (scope === 'shapes') stageRef.current.distributeSelection(mode, toolSettings.alignTo);
+      else moveLayersBy(stageRef.current.distributeLayers(alignLayerIds, mode, toolSettings.alignTo), 'Distribute Layers');
+  }, [toolSettings.alignTo, alignLayerIds, moveLayersBy]);
   
+  // --- Clipboard ---
+  // The last thing copied here. It goes on the system clipboard too, but the browser may not let us read that back.
+  const [clipboard, setClipboard] = useState<ClipboardContent | null>(null);
+
+  const copyToClipboard = useCallback((content: ClipboardContent, images: { svg: string, png: string } | null) => {
+      setClipboard(content);
+      // Nothing visible still gets an (empty) SVG, so an older clipboard doesn't get pasted instead
+      const svg = images?.svg ?? '<svg xmlns="http://www.w3.org/2000/svg" width="0" height="0"/>';
+      writeSystemClipboard(embedClipboardContent(svg, content), images?.png ?? null)
+          .catch(() => {
+              // The browser said no, pasting here still works from the copy kept above
+          });
+  }, []);
+
+  const copySelectedShapes = useCallback((isCut: boolean) => {
+      const stage = stageRef.current;
+      if (!stage) return;
+      // The picture is drawn first, while cut shapes are still there
+      const images = stage.renderClipboardImages();
+      const clip = isCut ? stage.cutSelection() : stage.copySelection();
+      if (clip) copyToClipboard(clip, images);
+  }, [copyToClipboard]);
+
+  const copyLayer = useCallback((id: string) => {
+      const stage = stageRef.current;
+      const layer = findLayer(layers, id);
+      if (!stage || !layer) return;
+      copyToClipboard(createLayerClipboard(layer, stage.serializeContent()), stage.renderClipboardImages(id));
+  }, [layers, copyToClipboard]);
+
+  const cutLayer = useCallback((id: string) => {
+      copyLayer(id);
+      handleDeleteLayer(id, 'Cut Layer');
+  }, [copyLayer, handleDeleteLayer]);
+
+  // New layers (pasted or imported) go just above the active layer, keeping their own position on the artboard
+  const addLayers = useCallback((clip: ClipboardLayers, label: string) => {
+      const { layers: pasted, content } = remapLayerIds(clip);
+      if (pasted.length === 0) return;
+      setLayers(prev => {
+          const insertAbove = (nodes: Layer[]): Layer[] => {
+              const idx = nodes.findIndex(n => n.id === activeLayerId);
+              if (idx !== -1) return [...nodes.slice(0, idx), ...pasted, ...nodes.slice(idx)];
+              return nodes.map(n => ({ ...n, children: insertAbove(n.children) }));
+          };
+          return activeLayerId && findLayer(prev, activeLayerId) ? insertAbove(prev) : [...pasted, ...prev];
+      });
+      // After the layers, so the thumbnails it draws land on the new tree
+      stageRef.current?.addLayerContent(content);
+      setActiveLayerId(pasted[0].id);
+      commitHistory(label);
+  }, [activeLayerId, commitHistory]);
+
+  // An SVG on the system clipboard (ours or another app's) wins; otherwise the last thing copied here is pasted
+  const pasteFromText = useCallback((text: string | null, placement: PastePlacement) => {
+      const svg = text ? parseSvg(text) : null;
+      const content = (svg && (extractClipboardContent(svg) ?? stageRef.current?.readSvgShapes(svg))) || clipboard;
+      if (!content) return;
+      if (content.kind === 'layers') addLayers(content, 'Paste Layer');
+      else stageRef.current?.pasteShapes(content, placement);
+  }, [clipboard, addLayers]);
+
+  // A photo copied in another app (or a browser) is placed on the active layer
+  const pasteImage = useCallback((file: Blob, placement: PastePlacement) => {
+      readImageFile(file)
+          .then(source => { stageRef.current?.placeImage(source, placement); })
+          .catch(() => showError(null, 'The copied image could not be read.'));
+  }, [showError]);
+
+  const handlePaste = useCallback(async (placement: PastePlacement) => {
+      let data: string | Blob | null = null;
+      try {
+          data = await readSystemClipboard();
+      } catch {
+          // No permission to read it: fall back to what was last copied here
+      }
+      if (data instanceof Blob) pasteImage(data, placement);
+      else pasteFromText(data, placement);
+  }, [pasteFromText, pasteImage]);
+
+  // Ctrl+V and the browser's own menu paste through a paste event. The palette and menus read the clipboard themselves.
+  useEffect(() => {
+      const handlePasteEvent = (e: ClipboardEvent) => {
+          if (isTypingTarget(e.target)) return;
+          e.preventDefault();
+          const text = e.clipboardData?.getData('image/svg+xml') || e.clipboardData?.getData('text/plain') || null;
+          const image = Array.from(e.clipboardData?.files ?? []).find(isImageFile);
+          if (!text && image) pasteImage(image, 'cursor');
+          else pasteFromText(text, 'cursor');
+      };
+      window.addEventListener('paste', handlePasteEvent);
+      return () => window.removeEventListener('paste', handlePasteEvent);
+  }, [pasteFromText, pasteImage]);
+
+  // --- Import ---
+  // Photos are placed on the active layer, SVGs become layers of their own. Picked SVGs line up with the
+  // artboard like the file was drawn; dropped ones land where they were let go, as photos always do.
+  // Throws with a message for the Assets window when the file can't be used.
+  const handleImportFile = useCallback(async (file: File, isDropped = false) => {
+      if (isImageFile(file)) {
+          const source = await readImageFile(file).catch(() => { throw new Error('This image could not be read.'); });
+          if (!stageRef.current?.placeImage(source, 'cursor')) throw new Error('Choose a layer to place the image in.');
+          return;
+      }
+      const svg = parseSvg(await file.text());
+      if (!svg) throw new Error('This file is not an SVG.');
+      const clip = stageRef.current?.importSvgLayers(svg, file.name.replace(/\.svg$/i, ''), isDropped ? 'cursor' : 'in-place');
+      if (!clip) throw new Error('Nothing in this SVG could be turned into shapes.');
+      addLayers(clip, 'Import SVG');
+  }, [addLayers]);
+
+  // Files dropped on the stage land where they were let go
+  const handleDropFiles = useCallback((files: File[]) => {
+      files.forEach(file => handleImportFile(file, true).catch(err => showError(err, `Could not import ${file.name}.`)));
+  }, [handleImportFile, showError]);
+
+  // --- Commands ---
+  // Everything the toolbar, menus, keyboard and command palette can do, wired to the app's state.
+  const { keymap, setBindings, resetBindings, resetAll: resetKeymap, conflicts: shortcutConflicts } = useKeymap();
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+
+  const hasSelection = selectedObjectType !== null;
+  const isAnchorActive = activeTool === 'pen' && isAnchorSelected;
+
+  const commands = useMemo((): CommandImplementations => {
+      const pickFile = (accept: string, onFile: (file: File) => void) => {
+          const input = document.createElement('input');
+          input.type = 'file';
+          input.accept = accept;
+          input.onchange = () => {
+              const file = input.files?.[0];
+              if (file) onFile(file);
+          };
+          input.click();
+      };
+
+      const tool = (id: Tool): CommandImplementation => ({ run: () => setActiveTool(id) });
+      const nudge = (dx: number, dy: number): CommandImplementation => ({
+          run: () => { stageRef.current?.nudgeSelection(dx, dy); },
+          isEnabled: () => hasSelection,
+      });
+      const align = (edge: AlignEdge): CommandImplementation => ({
+          run: () => stageRef.current?.alignSelection(edge, toolSettings.alignTo),
+          isEnabled: () => hasSelection,
+      });
+      const distribute = (mode: DistributeMode): CommandImplementation => ({
+          run: () => stageRef.current?.distributeSelection(mode, toolSettings.alignTo),
+          isEnabled: () => hasSelection,
+      });
+      const toggleCanvasSetting = (key: 'showRulers' | 'showGrid' | 'snapping'): CommandImplementation => ({
+          run: () => handleCanvasSettingChange(key, !canvasSettings[key]),
+      });
+
+      return {
+          'tool.select': tool('select'),
+          'tool.shape': tool('shape'),
+          'tool.brush': tool('brush'),
+          'tool.pen': tool('pen'),
+          'tool.text': tool('text'),
+          'tool.eraser': tool('eraser'),
+          'tool.fill': tool('fill'),
+          'tool.delete': tool('delete'),
+
+          'edit.undo': { run: undo, isEnabled: () => history.canUndo },
+          'edit.redo': { run: redo, isEnabled: () => history.canRedo },
+          // With the Pen, Delete removes the chosen anchor point instead of the whole shape
+          'edit.delete': {
+              run: () => { if (isAnchorActive) stageRef.current?.deleteSelectedAnchor(); else stageRef.current?.deleteSelection(); },
+              isEnabled: () => hasSelection || isAnchorActive,
+          },
+          // Selected shapes are copied; with nothing selected the whole active layer is
+          'edit.duplicate': {
+              run: () => { if (!stageRef.current?.duplicateSelection() && activeLayerId) handleDuplicateLayer(activeLayerId); },
+              isEnabled: () => hasSelection || !!activeLayerId,
+          },
+          // Like Duplicate: selected shapes, or the whole active layer when nothing is selected
+          'edit.copy': {
+              run: () => { if (hasSelection) copySelectedShapes(false); else if (activeLayerId) copyLayer(activeLayerId); },
+              isEnabled: () => hasSelection || !!activeLayerId,
+          },
+          'edit.cut': {
+              run: () => { if (hasSelection) copySelectedShapes(true); else if (activeLayerId) cutLayer(activeLayerId); },
+              isEnabled: () => hasSelection || !!activeLayerId,
+          },
+          // Ctrl+V arrives as a paste event, which can read the clipboard without asking for permission
+          'edit.paste': { run: () => { handlePaste('cursor'); }, nativeKeys: ['Ctrl+V'] },
+          'edit.pasteInPlace': { run: () => { handlePaste('in-place'); } },
+          'edit.deselect': {
+              run: () => { stageRef.current?.deselect(); },
+              isEnabled: () => hasSelection || activeTool === 'pen',
+          },
+
+          'nudge.left': nudge(-NUDGE_DISTANCE, 0),
+          'nudge.right': nudge(NUDGE_DISTANCE, 0),
+          'nudge.up': nudge(0, -NUDGE_DISTANCE),
+          'nudge.down': nudge(0, NUDGE_DISTANCE),
+          'nudge.leftFar': nudge(-NUDGE_FAR_DISTANCE, 0),
+          'nudge.rightFar': nudge(NUDGE_FAR_DISTANCE, 0),
+          'nudge.upFar': nudge(0, -NUDGE_FAR_DISTANCE),
+          'nudge.downFar': nudge(0, NUDGE_FAR_DISTANCE),
+
+          'pen.finish': {
+              run: () => { stageRef.current?.finishPath(); setActiveTool('select'); },
+              isEnabled: () => activeTool === 'pen',
+          },
+          'pen.deleteAnchor': { run: () => stageRef.current?.deleteSelectedAnchor(), isEnabled: () => isAnchorActive },
+          'pen.sharpAnchor': { run: () => stageRef.current?.setAnchorSharp(), isEnabled: () => isAnchorActive },
+          'pen.convertToPath': { run: () => stageRef.current?.flattenSelectedShape(), isEnabled: () => hasSelection },
+
+          'layer.add': { run: () => handleAddLayer() },
+          'layer.addPaint': { run: () => handleAddLayer('raster') },
+          'layer.duplicate': { run: () => { if (activeLayerId) handleDuplicateLayer(activeLayerId); }, isEnabled: () => !!activeLayerId },
+          'layer.delete': { run: () => { if (activeLayerId) handleDeleteLayer(activeLayerId); }, isEnabled: () => !!activeLayerId },
+          'layer.copy': { run: () => { if (activeLayerId) copyLayer(activeLayerId); }, isEnabled: () => !!activeLayerId },
+          'layer.cut': { run: () => { if (activeLayerId) cutLayer(activeLayerId); }, isEnabled: () => !!activeLayerId },
+          'layer.group': { run: handleGroupSelection, isEnabled: () => !!activeLayer && activeLayer.type !== 'group' },
+          'layer.ungroup': { run: () => { if (activeLayer) handleUngroup(activeLayer.id); }, isEnabled: () => activeLayer?.type === 'group' },
+
+          'align.left': align('left'),
+          'align.center': align('center'),
+          'align.right': align('right'),
+          'align.top': align('top'),
+          'align.middle': align('middle'),
+          'align.bottom': align('bottom'),
+          'distribute.horizontalCenters': distribute('horizontal-centers'),
+          'distribute.verticalCenters': distribute('vertical-centers'),
+          'distribute.horizontalSpacing': distribute('horizontal-spacing'),
+          'distribute.verticalSpacing': distribute('vertical-spacing'),
+
+          'view.zoomIn': { run: () => stageRef.current?.zoomBy(ZOOM_STEP) },
+          'view.zoomOut': { run: () => stageRef.current?.zoomBy(1 / ZOOM_STEP) },
+          'view.actualSize': { run: () => stageRef.current?.setZoom(1) },
+          'view.fitArtboard': { run: () => stageRef.current?.zoomToFit() },
+          'view.fitSelection': { run: () => stageRef.current?.zoomToSelection(), isEnabled: () => hasSelection },
+          'view.toggleRulers': toggleCanvasSetting('showRulers'),
+          'view.toggleGrid': toggleCanvasSetting('showGrid'),
+          'view.toggleSnapping': toggleCanvasSetting('snapping'),
+          'view.toggleTheme': { run: () => setThemeName(themeName === 'light' ? 'dark' : 'light') },
+
+          'window.properties': { run: () => toggleWindow('properties') },
+          'window.layers': { run: () => toggleWindow('layers') },
+          'window.assets': { run: () => toggleWindow('assets') },
+          'window.shortcuts': { run: () => toggleWindow('shortcuts') },
+
+          'file.save': { run: () => handleSaveDocument(documentName) },
+          'file.open': {
+              run: () => pickFile(`${DOCUMENT_EXTENSION},application/json`, file => {
+                  handleOpenDocument(file).catch(err => showError(err, `Could not open ${file.name}.`));
+              }),
+          },
+          'file.import': {
+              run: () => pickFile(`${SVG_FILE_TYPES},${IMAGE_FILE_TYPES}`, file => {
+                  handleImportFile(file).catch(err => showError(err, `Could not import ${file.name}.`));
+              }),
+          },
+          'file.exportPng': { run: () => handleExport(documentName, 'png') },
+          'file.exportSvg': { run: () => handleExport(documentName, 'svg') },
+
+          'help.commandPalette': { run: () => setIsPaletteOpen(true) },
+      };
+  }, [
+      hasSelection, isAnchorActive, activeTool, activeLayerId, activeLayer, toolSettings.alignTo, canvasSettings, themeName, documentName,
+      history.canUndo, history.canRedo, undo, redo, setThemeName, handleCanvasSettingChange, handleAddLayer, handleDuplicateLayer, handleDeleteLayer,
+      handleGroupSelection, handleUngroup, handleSaveDocument, handleOpenDocument, handleImportFile, handleExport, copySelectedShapes, copyLayer, cutLayer, handlePaste, showError,
+  ]);
+
+  useShortcuts(keymap, commands);
+
+  // `commands` changes with almost every edit. Panels get these two instead, which never change, so memoised rows stay put.
+  const commandsRef = useRef(commands);
+  commandsRef.current = commands;
+  const runCommand = useCallback((id: CommandId) => commandsRef.current[id].run(), []);
+  const isCommandEnabled = useCallback((id: CommandId) => canRun(commandsRef.current[id]), []);
+
   const handleContentDragStart = useCallback(() => setIsContentDragging(true), []);
   const handleContentDragEnd = useCallback(() => setIsContentDragging(false), []);
 
@@ -379,11 +870,24 @@ const MetaPrototype = () => {
         activeLayerId={activeLayerId}
         activeTool={activeTool}
         toolSettings={toolSettings}
+        canvasSettings={canvasSettings}
+        guides={guides}
+        onGuidesChange={handleGuidesChange}
         onToolChange={setActiveTool}
         onAnchorSelect={setIsAnchorSelected}
         onSelectionTypeChange={setSelectedObjectType}
         onSelectionPropertiesChange={handleSelectionPropertiesChange}
         onThumbnailReady={handleUpdateThumbnail}
+        onCommit={commitHistory}
+        onZoomChange={setZoom}
+        onDropFiles={handleDropFiles}
+      />
+
+      <ZoomControl
+        zoom={zoom}
+        onZoomChange={(value) => stageRef.current?.setZoom(value)}
+        onZoomToFit={() => stageRef.current?.zoomToFit()}
+        onZoomToSelection={() => stageRef.current?.zoomToSelection()}
       />
 
       <AnimatePresence>
@@ -393,16 +897,24 @@ const MetaPrototype = () => {
             {...windows.properties}
             onClose={() => toggleWindow('properties')}
             onFocus={() => bringToFront('properties')}
+            footer={<UndoRedo onUndo={undo} onRedo={redo} canUndo={history.canUndo} canRedo={history.canRedo} />}
           >
             <PropertiesPanel
               toolSettings={toolSettings}
               onSettingChange={handleToolSettingChange}
+              canvasSettings={canvasSettings}
+              onCanvasSettingChange={handleCanvasSettingChange}
+              guideCount={guides.length}
+              onClearGuides={() => handleGuidesChange([], 'Clear Guides')}
               activeLayer={activeLayer}
               onLayerUpdate={handleUpdateLayerProperty}
               activeTool={activeTool}
               isAnchorSelected={isAnchorSelected}
-              onPenAction={handleStageAction}
+              onCommand={runCommand}
               selectedObjectType={selectedObjectType}
+              onAlign={handleAlign}
+              onDistribute={handleDistribute}
+              layerAlignCount={alignLayerIds.length}
             />
           </FloatingWindow>
         )}
@@ -418,16 +930,13 @@ const MetaPrototype = () => {
             <LayersPanel
               layers={layers}
               activeLayerId={activeLayerId}
-              onAddLayer={handleAddLayer}
+              runCommand={runCommand}
+              isCommandEnabled={isCommandEnabled}
               onSelectLayer={handleSelectLayer}
-              onDeleteLayer={handleDeleteLayer}
-              onDuplicateLayer={handleDuplicateLayer}
               onUpdateLayerProperty={handleUpdateLayerProperty}
               onReorderLayers={handleReorderLayers}
               onContentDragStart={handleContentDragStart}
               onContentDragEnd={handleContentDragEnd}
-              onGroupSelection={handleGroupSelection}
-              onUngroup={handleUngroup}
               onMoveLayer={handleMoveLayer}
             />
           </FloatingWindow>
@@ -440,12 +949,50 @@ const MetaPrototype = () => {
             onClose={() => toggleWindow('assets')}
             onFocus={() => bringToFront('assets')}
           >
-            <AssetsPanel onExport={handleExport} />
+            <AssetsPanel onExport={handleExport} onSaveDocument={handleSaveDocument} onOpenDocument={handleOpenDocument} onImportFile={handleImportFile} />
+          </FloatingWindow>
+        )}
+
+        {windows.shortcuts.isOpen && (
+          <FloatingWindow
+            key="shortcuts"
+            {...windows.shortcuts}
+            onClose={() => toggleWindow('shortcuts')}
+            onFocus={() => bringToFront('shortcuts')}
+          >
+            <ShortcutsPanel
+              keymap={keymap}
+              conflicts={shortcutConflicts}
+              onSetBindings={setBindings}
+              onResetBindings={resetBindings}
+              onResetAll={resetKeymap}
+            />
           </FloatingWindow>
         )}
       </AnimatePresence>
 
       <Dock windows={windows} toggleWindow={toggleWindow} />
+
+      <AnimatePresence>
+        {recoverableSessions.length > 0 && (
+          <RecoveryPrompt
+            sessions={recoverableSessions}
+            onRestore={handleRestoreSession}
+            onDiscard={handleDiscardSession}
+            onDismiss={() => setRecoverableSessions([])}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {errorMessage && <ErrorToast message={errorMessage} onDismiss={dismissError} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isPaletteOpen && (
+          <CommandPalette commands={commands} keymap={keymap} onClose={() => setIsPaletteOpen(false)} />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
@@ -5,7 +5,8 @@
  */
 import React, { useState, useRef, useEffect } from 'react';
 import { useTheme } from '../../Theme.tsx';
-import { Layer, BlendMode } from '../../types/index.tsx';
+import { Layer, BlendMode, CommandId } from '../../types/index.tsx';
+import { getCommand } from '../../utils/commands.tsx';
 import { Reorder, useDragControls } from 'framer-motion';
 import ContextMenu from '../Package/ContextMenu.tsx';
 
@@ -13,14 +14,13 @@ interface LayerItemProps {
     layer: Layer;
     isActive: boolean;
     depth?: number;
+    // The menu's layer commands act on the active layer
+    runCommand: (id: CommandId) => void;
+    isCommandEnabled: (id: CommandId) => boolean;
     onSelect: (id: string) => void;
-    onDelete: (id: string) => void;
-    onDuplicate: (id: string) => void;
     onUpdateProperty: (id: string, properties: Partial<Layer>) => void;
     onDragStart: () => void;
     onDragEnd: () => void;
-    onGroupSelection: () => void;
-    onUngroup: (id: string) => void;
     // New Drop Zone Props
     draggedLayerId: string | null;
     hoveredTargetId: string | null;
@@ -39,9 +39,16 @@ const BLEND_MODES: { value: BlendMode, label: string }[] = [
   { value: 'lighten', label: 'Lighten' },
 ];
 
+// Layer commands offered in the menu, split into sections; ones that can't run are left out
+const MENU_COMMANDS: CommandId[][] = [
+  ['layer.ungroup', 'layer.group'],
+  ['layer.copy', 'layer.cut', 'edit.paste'],
+  ['layer.duplicate', 'layer.delete'],
+];
+
 const LayerItem: React.FC<LayerItemProps> = React.memo(({ 
-    layer, isActive, depth = 0, onSelect, onDelete, onDuplicate, 
-    onUpdateProperty, onDragStart, onDragEnd, onGroupSelection, onUngroup,
+    layer, isActive, depth = 0, runCommand, isCommandEnabled, onSelect,
+    onUpdateProperty, onDragStart, onDragEnd,
     draggedLayerId, hoveredTargetId, onDragItemStart, onDragItemEnd, onDragOver,
     children 
 }) => {
@@ -92,6 +99,7 @@ const LayerItem: React.FC<LayerItemProps> = React.memo(({
     
     const handleMenuOpen = (e: React.MouseEvent) => {
       e.stopPropagation();
+      onSelect(layer.id); // The menu's commands work on the active layer
       setMenuPosition({ x: e.clientX, y: e.clientY });
       setIsMenuOpen(true);
     };
@@ -136,12 +144,15 @@ const LayerItem: React.FC<LayerItemProps> = React.memo(({
           isSelected: layer.blendMode === mode.value,
         }))
       }] : []),
-      { type: 'separator' as const },
-      ...(layer.type === 'group' ? [{ label: 'Ungroup', icon: 'ph-folder-minus', onClick: () => onUngroup(layer.id) }] : []),
-      { label: 'Group Selection', icon: 'ph-folder-plus', onClick: onGroupSelection },
-      { type: 'separator' as const },
-      { label: 'Duplicate', icon: 'ph-copy', onClick: () => onDuplicate(layer.id) },
-      { label: 'Delete', icon: 'ph-trash', onClick: () => onDelete(layer.id), isDestructive: true },
+      ...MENU_COMMANDS.flatMap(section => [
+        { type: 'separator' as const },
+        ...section.filter(isCommandEnabled).map(id => ({
+          label: getCommand(id).label,
+          icon: getCommand(id).icon,
+          onClick: () => runCommand(id),
+          isDestructive: id === 'layer.delete',
+        })),
+      ]),
     ];
 
     const iconStyle: React.CSSProperties = {
@@ -222,6 +233,13 @@ const LayerItem: React.FC<LayerItemProps> = React.memo(({
                     </div>
                 )}
 
+                {/* Paint layers hold pixels, not shapes */}
+                {layer.type === 'raster' && (
+                    <div style={{ ...iconStyle }} title="Paint Layer">
+                        <i className="ph-bold ph-paint-brush" />
+                    </div>
+                )}
+
                 {/* Thumbnail */}
                 <div style={thumbnailStyle} />
 
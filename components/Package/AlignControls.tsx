@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React from 'react';
+import { useTheme } from '../../Theme.tsx';
+import { AlignEdge, AlignReference, DistributeMode, CommandId } from '../../types/index.tsx';
+import { getCommand } from '../../utils/commands.tsx';
+import Button from '../Core/Button.tsx';
+import Select from '../Core/Select.tsx';
+
+interface AlignControlsProps {
+  alignTo: AlignReference;
+  onAlignToChange: (reference: AlignReference) => void;
+  onAlign: (edge: AlignEdge) => void;
+  onDistribute: (mode: DistributeMode) => void;
+  canDistribute: boolean; // Spreading out needs at least two things
+}
+
+// Names and icons come from the command list, so the palette and these buttons match
+const ALIGN_BUTTONS: { edge: AlignEdge, command: CommandId }[] = [
+  { edge: 'left', command: 'align.left' },
+  { edge: 'center', command: 'align.center' },
+  { edge: 'right', command: 'align.right' },
+  { edge: 'top', command: 'align.top' },
+  { edge: 'middle', command: 'align.middle' },
+  { edge: 'bottom', command: 'align.bottom' },
+];
+
+const DISTRIBUTE_BUTTONS: { mode: DistributeMode, command: CommandId }[] = [
+  { mode: 'horizontal-centers', command: 'distribute.horizontalCenters' },
+  { mode: 'vertical-centers', command: 'distribute.verticalCenters' },
+  { mode: 'horizontal-spacing', command: 'distribute.horizontalSpacing' },
+  { mode: 'vertical-spacing', command: 'distribute.verticalSpacing' },
+];
+
+/**
+ * 📐 Align Controls
+ * A row of buttons that line things up by their edges or centres, a row
+ * that spreads them out evenly, and a choice of what to line up against:
+ * the box around everything chosen, or the artboard.
+ */
+const AlignControls: React.FC<AlignControlsProps> = ({ alignTo, onAlignToChange, onAlign, onDistribute, canDistribute }) => {
+  const { theme } = useTheme();
+  const row: React.CSSProperties = { display: 'flex', flexWrap: 'wrap', gap: theme.spacing['Space.XS'] };
+
+  return (
+    <>
+      <div style={row}>
+        {ALIGN_BUTTONS.map(({ edge, command }) => (
+          <span key={edge} title={getCommand(command).label}>
+            <Button label="" icon={getCommand(command).icon} size="S" variant="outline" onClick={() => onAlign(edge)} />
+          </span>
+        ))}
+      </div>
+      <div style={row}>
+        {DISTRIBUTE_BUTTONS.map(({ mode, command }) => (
+          <span key={mode} title={getCommand(command).label}>
+            <Button label="" icon={getCommand(command).icon} size="S" variant="outline" onClick={() => onDistribute(mode)} disabled={!canDistribute} />
+          </span>
+        ))}
+      </div>
+      <Select label="Align To" value={alignTo} onChange={(e) => onAlignToChange(e.target.value as AlignReference)} options={[{ value: 'selection', label: 'Selection' }, { value: 'artboard', label: 'Artboard' }]} />
+    </>
+  );
+};
+
+export default AlignControls;
@@ -2,25 +2,60 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import { useTheme } from '../../Theme.tsx';
 import Button from '../Core/Button.tsx';
 import Input from '../Core/Input.tsx';
 import Select from '../Core/Select.tsx';
+import { DOCUMENT_EXTENSION } from '../../utils/document.tsx';
+import { SVG_FILE_TYPES } from '../../utils/svg.tsx';
+import { IMAGE_FILE_TYPES } from '../../utils/image.tsx';
 
 interface AssetsPanelProps {
   onExport: (fileName: string, format: 'png' | 'svg') => void;
+  onSaveDocument: (fileName: string) => void;
+  onOpenDocument: (file: File) => Promise<string>;
+  onImportFile: (file: File) => Promise<void>;
 }
 
-const AssetsPanel: React.FC<AssetsPanelProps> = ({ onExport }) => {
+const AssetsPanel: React.FC<AssetsPanelProps> = ({ onExport, onSaveDocument, onOpenDocument, onImportFile }) => {
     const { theme } = useTheme();
     const [fileName, setFileName] = useState('My Texture');
     const [format, setFormat] = useState<'png' | 'svg'>('png');
+    const [openError, setOpenError] = useState<string | null>(null);
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-opening the same file
+        if (!file) return;
+        try {
+            const name = await onOpenDocument(file);
+            setFileName(name);
+            setOpenError(null);
+        } catch (err) {
+            setOpenError(err instanceof Error ? err.message : 'Could not open this file.');
+        }
+    };
+
+    const handleImportChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow importing the same file again
+        if (!file) return;
+        try {
+            await onImportFile(file);
+            setImportError(null);
+        } catch (err) {
+            setImportError(err instanceof Error ? err.message : 'Could not import this file.');
+        }
+    };
 
     return (
         <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing['Space.M'] }}>
             <p style={{ ...theme.Type.Readable.Body.S, color: theme.Color.Base.Content[2], margin: 0 }}>
-                Export your creation.
+                Save your document or export your creation.
             </p>
             
             <div style={{ display: 'flex', gap: theme.spacing['Space.S'], alignItems: 'flex-end' }}>
@@ -44,6 +79,17 @@ const AssetsPanel: React.FC<AssetsPanelProps> = ({ onExport }) => {
                 </div>
             </div>
 
+            <div style={{ display: 'flex', gap: theme.spacing['Space.S'] }}>
+                <Button label="Save Document" variant="secondary" size="S" icon="ph-floppy-disk" onClick={() => onSaveDocument(fileName)} />
+                <Button label="Open Document" variant="secondary" size="S" icon="ph-folder-open" onClick={() => fileInputRef.current?.click()} />
+                <input ref={fileInputRef} type="file" accept={`${DOCUMENT_EXTENSION},application/json`} style={{ display: 'none' }} onChange={handleFileChosen} />
+            </div>
+            {openError && (
+                <p style={{ ...theme.Type.Readable.Body.S, color: theme.Color.Error.Content[1], margin: 0 }}>
+                    {openError}
+                </p>
+            )}
+
             <Button 
                 label="Export File" 
                 variant="primary" 
@@ -54,7 +100,13 @@ const AssetsPanel: React.FC<AssetsPanelProps> = ({ onExport }) => {
 
             <div style={{ height: '1px', backgroundColor: theme.Color.Base.Surface[3], margin: `${theme.spacing['Space.S']} 0` }} />
 
-            <Button label="Import Image" variant="ghost" size="S" icon="ph-image" />
+            <Button label="Import Image" variant="ghost" size="S" icon="ph-image" onClick={() => importInputRef.current?.click()} />
+            <input ref={importInputRef} type="file" accept={`${SVG_FILE_TYPES},${IMAGE_FILE_TYPES}`} style={{ display: 'none' }} onChange={handleImportChosen} />
+            {importError && (
+                <p style={{ ...theme.Type.Readable.Body.S, color: theme.Color.Error.Content[1], margin: 0 }}>
+                    {importError}
+                </p>
+            )}
             <Button label="Copy Canvas Code" variant="ghost" size="S" icon="ph-code" />
         </div>
     );
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useTheme } from '../../Theme.tsx';
+import { Keymap } from '../../types/index.tsx';
+import { COMMANDS, CommandDefinition, CommandImplementations, canRun, searchCommands } from '../../utils/commands.tsx';
+import { formatBinding } from '../../utils/shortcuts.tsx';
+
+interface CommandPaletteProps {
+  commands: CommandImplementations;
+  keymap: Keymap;
+  onClose: () => void;
+}
+
+// Everything except opening the palette itself
+const PALETTE_COMMANDS = COMMANDS.filter(command => command.id !== 'help.commandPalette');
+
+/**
+ * 🔎 Command Palette
+ * A search box for everything the editor can do. Type a few letters, pick a
+ * command with the arrow keys and press Enter. Commands that can't run right
+ * now (Ungroup with no group chosen...) are greyed out.
+ */
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, keymap, onClose }) => {
+    const { theme } = useTheme();
+    const [query, setQuery] = useState('');
+    const [highlighted, setHighlighted] = useState(0);
+    const highlightedRef = useRef<HTMLDivElement>(null);
+
+    const results = useMemo(() => searchCommands(query, PALETTE_COMMANDS), [query]);
+
+    useEffect(() => setHighlighted(0), [query]);
+    useEffect(() => highlightedRef.current?.scrollIntoView({ block: 'nearest' }), [highlighted]);
+
+    // The palette closes first, so whatever the command opens (a file picker, a window) ends up on top
+    const runCommand = (command: CommandDefinition) => {
+        const implementation = commands[command.id];
+        if (!canRun(implementation)) return;
+        onClose();
+        implementation.run();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        e.stopPropagation();
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setHighlighted(prev => results.length === 0 ? 0 : (prev + step + results.length) % results.length);
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            if (results[highlighted]) runCommand(results[highlighted]);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        }
+    };
+
+    const chipStyle: React.CSSProperties = {
+        padding: `2px ${theme.spacing['Space.XS']}`,
+        borderRadius: theme.radius['Radius.S'],
+        backgroundColor: theme.Color.Base.Surface[3],
+        color: theme.Color.Base.Content[2],
+        ...theme.Type.Expressive.Data,
+        fontSize: '11px',
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onMouseDown={onClose}
+            style={{
+                position: 'fixed', inset: 0, zIndex: 1000,
+                display: 'flex', alignItems: 'flex-start', justifyContent: 'center',
+                paddingTop: '15vh',
+                backgroundColor: 'rgba(0,0,0,0.4)',
+            }}
+        >
+            <motion.div
+                initial={{ y: -16, scale: 0.98 }}
+                animate={{ y: 0, scale: 1 }}
+                onMouseDown={(e) => e.stopPropagation()}
+                style={{
+                    width: '480px', maxHeight: '60vh',
+                    display: 'flex', flexDirection: 'column',
+                    backgroundColor: theme.Color.Base.Surface[1],
+                    borderRadius: theme.radius['Radius.L'],
+                    boxShadow: theme.effects['Effect.Shadow.Drop.3'],
+                    border: `1px solid ${theme.Color.Base.Surface[3]}`,
+                    overflow: 'hidden',
+                }}
+            >
+                <div style={{
+                    display: 'flex', alignItems: 'center', gap: theme.spacing['Space.S'],
+                    padding: theme.spacing['Space.M'],
+                    borderBottom: `1px solid ${theme.Color.Base.Surface[3]}`,
+                }}>
+                    <i className="ph ph-magnifying-glass" style={{ fontSize: '18px', color: theme.Color.Base.Content[2] }} />
+                    <input
+                        autoFocus
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        placeholder="Type a command…"
+                        aria-label="Search commands"
+                        style={{
+                            flex: 1, border: 'none', outline: 'none', background: 'none',
+                            ...theme.Type.Readable.Body.M,
+                            color: theme.Color.Base.Content[1],
+                        }}
+                    />
+                </div>
+
+                <div role="listbox" style={{ overflowY: 'auto', padding: theme.spacing['Space.XS'] }}>
+                    {results.length === 0 && (
+                        <div style={{ ...theme.Type.Readable.Body.S, color: theme.Color.Base.Content[3], padding: theme.spacing['Space.M'], textAlign: 'center' }}>
+                            No commands match "{query}"
+                        </div>
+                    )}
+                    {results.map((command, index) => {
+                        const isEnabled = canRun(commands[command.id]);
+                        const isHighlighted = index === highlighted;
+                        return (
+                            <div
+                                key={command.id}
+                                ref={isHighlighted ? highlightedRef : undefined}
+                                role="option"
+                                aria-selected={isHighlighted}
+                                aria-disabled={!isEnabled}
+                                onMouseMove={() => setHighlighted(index)}
+                                onClick={() => runCommand(command)}
+                                style={{
+                                    display: 'flex', alignItems: 'center', gap: theme.spacing['Space.S'],
+                                    padding: `${theme.spacing['Space.XS']} ${theme.spacing['Space.S']}`,
+                                    minHeight: '32px',
+                                    borderRadius: theme.radius['Radius.S'],
+                                    backgroundColor: isHighlighted ? theme.Color.Base.Surface[2] : 'transparent',
+                                    opacity: isEnabled ? 1 : 0.4,
+                                    cursor: isEnabled ? 'pointer' : 'default',
+                                }}
+                            >
+                                <i className={`ph ${command.icon}`} style={{ fontSize: '16px', color: theme.Color.Base.Content[2] }} />
+                                <span style={{ ...theme.Type.Readable.Body.S, color: theme.Color.Base.Content[1], flex: 1 }}>
+                                    {command.label}
+                                    <span style={{ color: theme.Color.Base.Content[3], marginLeft: theme.spacing['Space.S'] }}>{command.category}</span>
+                                </span>
+                                {keymap[command.id].map(binding => (
+                                    <span key={binding} style={chipStyle}>{formatBinding(binding)}</span>
+                                ))}
+                            </div>
+                        );
+                    })}
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+};
+
+export default CommandPalette;
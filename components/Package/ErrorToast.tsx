@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { useTheme } from '../../Theme.tsx';
+
+interface ErrorToastProps {
+  message: string;
+  onDismiss: () => void;
+}
+
+// Long enough to read a sentence, short enough not to get in the way
+const VISIBLE_MS = 6000;
+
+/**
+ * 🚨 Error Toast
+ * Says what went wrong when something started from the keyboard, the palette
+ * or a drop can't be done (a file that won't import, a document that won't
+ * open...). It goes away by itself, or when clicked.
+ */
+const ErrorToast: React.FC<ErrorToastProps> = ({ message, onDismiss }) => {
+    const { theme } = useTheme();
+
+    useEffect(() => {
+        const timer = setTimeout(onDismiss, VISIBLE_MS);
+        return () => clearTimeout(timer);
+    }, [message, onDismiss]);
+
+    return (
+        <motion.div
+            role="alert"
+            initial={{ opacity: 0, y: 16 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 16 }}
+            onClick={onDismiss}
+            style={{
+                position: 'fixed', left: '50%', bottom: '96px', x: '-50%', zIndex: 1100,
+                display: 'flex', alignItems: 'center', gap: theme.spacing['Space.S'],
+                maxWidth: '420px',
+                padding: `${theme.spacing['Space.S']} ${theme.spacing['Space.M']}`,
+                backgroundColor: theme.Color.Error.Surface[1],
+                color: theme.Color.Error.Content[1],
+                borderRadius: theme.radius['Radius.M'],
+                boxShadow: theme.effects['Effect.Shadow.Drop.3'],
+                cursor: 'pointer',
+            }}
+        >
+            <i className="ph-bold ph-warning-circle" style={{ fontSize: '18px', flexShrink: 0 }} />
+            <span style={{ ...theme.Type.Readable.Body.S }}>{message}</span>
+        </motion.div>
+    );
+};
+
+export default ErrorToast;
@@ -3,9 +3,10 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import React, { useRef, useState } from 'react';
+import React, { useCallback, useRef, useState } from 'react';
 import { useTheme } from '../../Theme.tsx';
-import { Layer } from '../../types/index.tsx';
+import { Layer, CommandId } from '../../types/index.tsx';
+import { getCommand } from '../../utils/commands.tsx';
 import LayerItem from '../Core/LayerItem.tsx';
 import Button from '../Core/Button.tsx';
 import { Reorder, AnimatePresence, motion } from 'framer-motion';
@@ -13,16 +14,14 @@ import { Reorder, AnimatePresence, motion } from 'framer-motion';
 interface LayersPanelProps {
     layers: Layer[];
     activeLayerId: string | null;
-    onAddLayer: () => void;
+    // Adding, duplicating, grouping... act on the active layer. Both stay the same between renders.
+    runCommand: (id: CommandId) => void;
+    isCommandEnabled: (id: CommandId) => boolean;
     onSelectLayer: (id: string) => void;
-    onDeleteLayer: (id: string) => void;
-    onDuplicateLayer: (id: string) => void;
     onUpdateLayerProperty: (id: string, properties: Partial<Layer>) => void;
     onReorderLayers: (layers: Layer[]) => void;
     onContentDragStart: () => void;
     onContentDragEnd: () => void;
-    onGroupSelection: () => void;
-    onUngroup: (id: string) => void;
     onMoveLayer: (layerId: string, targetGroupId: string | null) => void;
 }
 
@@ -32,14 +31,12 @@ const LayerList: React.FC<{
     onReorder: (layers: Layer[]) => void;
     depth?: number;
     activeLayerId: string | null;
+    runCommand: (id: CommandId) => void;
+    isCommandEnabled: (id: CommandId) => boolean;
     onSelectLayer: (id: string) => void;
-    onDeleteLayer: (id: string) => void;
-    onDuplicateLayer: (id: string) => void;
     onUpdateLayerProperty: (id: string, properties: Partial<Layer>) => void;
     onContentDragStart: () => void;
     onContentDragEnd: () => void;
-    onGroupSelection: () => void;
-    onUngroup: (id: string) => void;
     // Drag/Drop Props
     draggedLayerId: string | null;
     hoveredTargetId: string | null;
@@ -47,8 +44,8 @@ const LayerList: React.FC<{
     onDragItemEnd: () => void;
     onDragOver: (clientX: number, clientY: number) => void;
 }> = ({ 
-    layers, onReorder, depth = 0, activeLayerId, onSelectLayer, onDeleteLayer, onDuplicateLayer, 
-    onUpdateLayerProperty, onContentDragStart, onContentDragEnd, onGroupSelection, onUngroup,
+    layers, onReorder, depth = 0, activeLayerId, runCommand, isCommandEnabled, onSelectLayer,
+    onUpdateLayerProperty, onContentDragStart, onContentDragEnd,
     draggedLayerId, hoveredTargetId, onDragItemStart, onDragItemEnd, onDragOver
 }) => {
     
@@ -72,14 +69,12 @@ const LayerList: React.FC<{
                     layer={layer}
                     isActive={layer.id === activeLayerId}
                     depth={depth}
+                    runCommand={runCommand}
+                    isCommandEnabled={isCommandEnabled}
                     onSelect={onSelectLayer}
-                    onDelete={onDeleteLayer}
-                    onDuplicate={onDuplicateLayer}
                     onUpdateProperty={onUpdateLayerProperty}
                     onDragStart={onContentDragStart}
                     onDragEnd={onContentDragEnd}
-                    onGroupSelection={onGroupSelection}
-                    onUngroup={onUngroup}
                     // Drag/Drop
                     draggedLayerId={draggedLayerId}
                     hoveredTargetId={hoveredTargetId}
@@ -93,14 +88,12 @@ const LayerList: React.FC<{
                             onReorder={(newChildren) => onUpdateLayerProperty(layer.id, { children: newChildren })}
                             depth={depth + 1}
                             activeLayerId={activeLayerId}
+                            runCommand={runCommand}
+                            isCommandEnabled={isCommandEnabled}
                             onSelectLayer={onSelectLayer}
-                            onDeleteLayer={onDeleteLayer}
-                            onDuplicateLayer={onDuplicateLayer}
                             onUpdateLayerProperty={onUpdateLayerProperty}
                             onContentDragStart={onContentDragStart}
                             onContentDragEnd={onContentDragEnd}
-                            onGroupSelection={onGroupSelection}
-                            onUngroup={onUngroup}
                             draggedLayerId={draggedLayerId}
                             hoveredTargetId={hoveredTargetId}
                             onDragItemStart={onDragItemStart}
@@ -117,16 +110,13 @@ const LayerList: React.FC<{
 const LayersPanel: React.FC<LayersPanelProps> = ({ 
     layers, 
     activeLayerId, 
-    onAddLayer, 
+    runCommand,
+    isCommandEnabled,
     onSelectLayer,
-    onDeleteLayer,
-    onDuplicateLayer,
     onUpdateLayerProperty,
     onReorderLayers,
     onContentDragStart,
     onContentDragEnd,
-    onGroupSelection,
-    onUngroup,
     onMoveLayer
 }) => {
     const { theme } = useTheme();
@@ -136,12 +126,13 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
     const [draggedLayerId, setDraggedLayerId] = useState<string | null>(null);
     const [hoveredTargetId, setHoveredTargetId] = useState<string | null>(null);
 
-    const handleDragItemStart = (id: string) => {
+    // These go to every (memoised) layer row, so they only change while a drag is going on
+    const handleDragItemStart = useCallback((id: string) => {
         setDraggedLayerId(id);
         onContentDragStart(); // Tell window to stop dragging
-    };
+    }, [onContentDragStart]);
 
-    const handleDragOver = (clientX: number, clientY: number) => {
+    const handleDragOver = useCallback((clientX: number, clientY: number) => {
         // Use elementFromPoint to find if we are over a group or the root zone
         // We use elementsFromPoint to find targets even if the dragged item is covering them
         const elements = document.elementsFromPoint(clientX, clientY);
@@ -174,9 +165,9 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
         if (!foundTarget) {
              setHoveredTargetId(null);
         }
-    };
+    }, [draggedLayerId]);
 
-    const handleDragItemEnd = () => {
+    const handleDragItemEnd = useCallback(() => {
         if (draggedLayerId && hoveredTargetId) {
              if (hoveredTargetId === 'root-zone') {
                  onMoveLayer(draggedLayerId, null); // Move to root
@@ -187,7 +178,7 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
         setDraggedLayerId(null);
         setHoveredTargetId(null);
         onContentDragEnd();
-    };
+    }, [draggedLayerId, hoveredTargetId, onMoveLayer, onContentDragEnd]);
 
     return (
         <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing['Space.M'], height: '100%', position: 'relative' }}>
@@ -208,14 +199,12 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
                     layers={layers}
                     onReorder={onReorderLayers}
                     activeLayerId={activeLayerId}
+                    runCommand={runCommand}
+                    isCommandEnabled={isCommandEnabled}
                     onSelectLayer={onSelectLayer}
-                    onDeleteLayer={onDeleteLayer}
-                    onDuplicateLayer={onDuplicateLayer}
                     onUpdateLayerProperty={onUpdateLayerProperty}
                     onContentDragStart={onContentDragStart}
                     onContentDragEnd={onContentDragEnd}
-                    onGroupSelection={onGroupSelection}
-                    onUngroup={onUngroup}
                     // Drag Props
                     draggedLayerId={draggedLayerId}
                     hoveredTargetId={hoveredTargetId}
@@ -257,18 +246,25 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
             <div style={{ borderTop: `1px solid ${theme.Color.Base.Surface[3]}`, paddingTop: theme.spacing['Space.S'], display: 'flex', gap: '8px' }}>
                 <Button
                     label="Add Layer"
-                    icon="ph-plus"
+                    icon={getCommand('layer.add').icon}
                     variant="secondary"
                     size="S"
-                    onClick={onAddLayer}
+                    onClick={() => runCommand('layer.add')}
+                />
+                <Button
+                    label="Paint Layer"
+                    icon={getCommand('layer.addPaint').icon}
+                    variant="secondary"
+                    size="S"
+                    onClick={() => runCommand('layer.addPaint')}
                 />
                  <Button
                     label="Group"
-                    icon="ph-folder-plus"
+                    icon={getCommand('layer.group').icon}
                     variant="ghost"
                     size="S"
-                    onClick={onGroupSelection}
-                    disabled={!activeLayerId}
+                    onClick={() => runCommand('layer.group')}
+                    disabled={!isCommandEnabled('layer.group')}
                 />
             </div>
         </div>
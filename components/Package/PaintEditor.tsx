@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState, useEffect, useRef } from 'react';
+import { useMotionValue } from 'framer-motion';
+import { useTheme } from '../../Theme.tsx';
+import { GradientPaint, GradientStop, GradientType } from '../../types/index.tsx';
+import { createDefaultGradient, gradientToCss } from '../../utils/gradient.tsx';
+import ColorPicker from '../Core/ColorPicker.tsx';
+import RangeSlider from '../Core/RangeSlider.tsx';
+import Toggle from '../Core/Toggle.tsx';
+import Button from '../Core/Button.tsx';
+
+interface PaintEditorProps {
+  label: string;
+  enabled: boolean;
+  color: string;
+  gradient: GradientPaint | null;
+  onToggle: () => void;
+  onColorChange: (color: string) => void;
+  onGradientChange: (gradient: GradientPaint | null) => void;
+}
+
+type PaintMode = 'solid' | GradientType;
+
+const CHECKERBOARD = 'repeating-conic-gradient(#CCCCCC 0% 25%, #FFFFFF 0% 50%) 0 0 / 10px 10px';
+
+/**
+ * 🎨 Paint Editor
+ * One box for a fill or a stroke. Switch it on, then pick a plain colour or
+ * a linear / radial gradient. Gradients get a stop bar: drag the little
+ * markers to move colours, click the bar to add one, and pick a marker to
+ * change its colour and see-through-ness.
+ */
+const PaintEditor: React.FC<PaintEditorProps> = ({ label, enabled, color, gradient, onToggle, onColorChange, onGradientChange }) => {
+  const { theme } = useTheme();
+  const [selectedStop, setSelectedStop] = useState(0);
+  const barRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef<number | null>(null);
+
+  const stops = gradient?.stops ?? [];
+  const stopIndex = Math.min(selectedStop, Math.max(stops.length - 1, 0));
+  const stop: GradientStop | undefined = stops[stopIndex];
+  const opacityValue = useMotionValue((stop?.opacity ?? 1) * 100);
+
+  useEffect(() => { if (stop) opacityValue.set(stop.opacity * 100); }, [stop?.opacity, opacityValue]);
+
+  const mode: PaintMode = gradient ? gradient.type : 'solid';
+
+  const setMode = (next: PaintMode) => {
+    if (next === mode) return;
+    if (next === 'solid') { onGradientChange(null); return; }
+    // Switching between linear and radial keeps the colours but puts the handles back where they make sense
+    const fresh = createDefaultGradient(next, color, '#FFFFFF');
+    onGradientChange(gradient ? { ...fresh, stops: gradient.stops } : fresh);
+  };
+
+  const updateStop = (index: number, changes: Partial<GradientStop>) => {
+    if (!gradient) return;
+    onGradientChange({ ...gradient, stops: gradient.stops.map((s, i) => i === index ? { ...s, ...changes } : s) });
+  };
+
+  const offsetAt = (clientX: number) => {
+    const rect = barRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+  };
+
+  // Clicking the bar itself adds a stop there, borrowing the colour of the closest one
+  const handleBarPointerDown = (e: React.PointerEvent) => {
+    if (!gradient) return;
+    const offset = offsetAt(e.clientX);
+    const nearest = gradient.stops.reduce((best, s) => Math.abs(s.offset - offset) < Math.abs(best.offset - offset) ? s : best, gradient.stops[0]);
+    onGradientChange({ ...gradient, stops: [...gradient.stops, { offset, color: nearest.color, opacity: nearest.opacity }] });
+    setSelectedStop(gradient.stops.length);
+  };
+
+  const handleStopPointerDown = (e: React.PointerEvent, index: number) => {
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    draggingRef.current = index;
+    setSelectedStop(index);
+  };
+
+  const handleStopPointerMove = (e: React.PointerEvent, index: number) => {
+    if (draggingRef.current !== index) return;
+    updateStop(index, { offset: offsetAt(e.clientX) });
+  };
+
+  const removeStop = () => {
+    if (!gradient || gradient.stops.length <= 2) return;
+    onGradientChange({ ...gradient, stops: gradient.stops.filter((_, i) => i !== stopIndex) });
+    setSelectedStop(Math.max(0, stopIndex - 1));
+  };
+
+  const segmentStyle = (active: boolean): React.CSSProperties => ({
+    flex: 1, border: 'none', borderRadius: '6px', padding: '6px', cursor: 'pointer',
+    backgroundColor: active ? theme.Color.Base.Surface[1] : 'transparent',
+    color: active ? theme.Color.Base.Content[1] : theme.Color.Base.Content[2],
+    ...theme.Type.Readable.Label.S,
+    boxShadow: active ? theme.effects['Effect.Shadow.Drop.1'] : 'none',
+  });
+
+  return (
+    <div
+      style={{
+        backgroundColor: theme.Color.Base.Surface[2], padding: theme.spacing['Space.M'], borderRadius: theme.radius['Radius.M'],
+        border: `1px solid ${theme.Color.Base.Surface[3]}`, display: 'flex', flexDirection: 'column', gap: theme.spacing['Space.S'],
+      }}
+    >
+      <Toggle label={label} isOn={enabled} onToggle={onToggle} />
+      {enabled && (
+        <>
+          <div style={{ display: 'flex', gap: '4px', backgroundColor: theme.Color.Base.Surface[3], padding: '2px', borderRadius: '8px' }}>
+            {(['solid', 'linear', 'radial'] as PaintMode[]).map(m => (
+              <button key={m} onClick={() => setMode(m)} style={segmentStyle(mode === m)}>{m.toUpperCase()}</button>
+            ))}
+          </div>
+
+          {!gradient && <ColorPicker label="" value={color} onChange={(e) => onColorChange(e.target.value)} />}
+
+          {gradient && stop && (
+            <>
+              <div
+                ref={barRef}
+                onPointerDown={handleBarPointerDown}
+                style={{ position: 'relative', height: '24px', margin: '0 6px 10px', borderRadius: theme.radius['Radius.S'], background: CHECKERBOARD, cursor: 'copy' }}
+              >
+                <div style={{ position: 'absolute', inset: 0, borderRadius: 'inherit', background: gradientToCss(gradient), border: `1px solid ${theme.Color.Base.Surface[3]}` }} />
+                {gradient.stops.map((s, i) => (
+                  <div
+                    key={i}
+                    onPointerDown={(e) => handleStopPointerDown(e, i)}
+                    onPointerMove={(e) => handleStopPointerMove(e, i)}
+                    onPointerUp={() => { draggingRef.current = null; }}
+                    title={`${Math.round(s.offset * 100)}%`}
+                    style={{
+                      position: 'absolute', left: `${s.offset * 100}%`, top: '100%', width: '12px', height: '12px',
+                      transform: 'translate(-50%, -6px)', borderRadius: theme.radius['Radius.Full'], backgroundColor: s.color,
+                      border: `2px solid ${i === stopIndex ? theme.Color.Signal.Content[1] : theme.Color.Base.Surface[1]}`,
+                      boxShadow: theme.effects['Effect.Shadow.Drop.1'], cursor: 'ew-resize', touchAction: 'none',
+                    }}
+                  />
+                ))}
+              </div>
+              <ColorPicker label="Stop Color" value={stop.color} onChange={(e) => updateStop(stopIndex, { color: e.target.value })} />
+              <RangeSlider
+                label="Stop Opacity %"
+                motionValue={opacityValue}
+                min={0}
+                max={100}
+                step={1}
+                onChange={(v) => updateStop(stopIndex, { opacity: v / 100 })}
+                onCommit={(v) => updateStop(stopIndex, { opacity: v / 100 })}
+              />
+              {gradient.stops.length > 2 && (
+                <Button label="Remove Stop" variant="secondary" size="S" icon="ph-trash" customColor={theme.Color.Error.Content[1]} onClick={removeStop} />
+              )}
+              <p style={{ ...theme.Type.Readable.Body.S, margin: 0, color: theme.Color.Base.Content[2], fontSize: '11px' }}>
+                Click the bar to add a stop. With the select tool, drag the round handles on the canvas to move the gradient.
+              </p>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PaintEditor;
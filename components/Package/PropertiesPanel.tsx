@@ -5,37 +5,95 @@
  */
 import React, { useState, useEffect } from 'react';
 import { useTheme } from '../../Theme.tsx';
-import { ToolSettings, Layer, Tool, ShapeType, SelectedObjectType } from '../../types/index.tsx';
-import ColorPicker from '../Core/ColorPicker.tsx';
+import { ToolSettings, CanvasSettings, Layer, Tool, ShapeType, SelectedObjectType, AlignEdge, DistributeMode, CommandId, BlendMode } from '../../types/index.tsx';
 import RangeSlider from '../Core/RangeSlider.tsx';
 import Select from '../Core/Select.tsx';
 import Toggle from '../Core/Toggle.tsx';
 import Input from '../Core/Input.tsx';
 import Button from '../Core/Button.tsx';
+import PaintEditor from './PaintEditor.tsx';
+import AlignControls from './AlignControls.tsx';
 import { useMotionValue, motion, AnimatePresence } from 'framer-motion';
 
 interface PropertiesPanelProps {
   toolSettings: ToolSettings;
   onSettingChange: (key: keyof ToolSettings, value: any) => void;
+  canvasSettings: CanvasSettings;
+  onCanvasSettingChange: (key: keyof CanvasSettings, value: any) => void;
+  guideCount: number;
+  onClearGuides: () => void;
   activeLayer: Layer | null;
   onLayerUpdate: (id: string, properties: Partial<Layer>) => void;
   activeTool: Tool;
   isAnchorSelected?: boolean;
-  onPenAction?: (action: string) => void;
+  onCommand?: (id: CommandId) => void; // Runs a command from the shared command list
   selectedObjectType?: SelectedObjectType;
+  // Align & distribute, for the selected shapes or for the layers under the active layer
+  onAlign?: (scope: AlignScope, edge: AlignEdge) => void;
+  onDistribute?: (scope: AlignScope, mode: DistributeMode) => void;
+  layerAlignCount?: number; // How many layers the Layer tab's align buttons move
 }
 
+type AlignScope = 'shapes' | 'layers';
+
 type Tab = 'tool' | 'layer' | 'canvas';
 
+// Common artboard sizes. Power-of-two squares are what game engines and 3D tools like best for textures.
+const ARTBOARD_PRESETS: { value: string, label: string, width: number, height: number }[] = [
+  { value: '1080p', label: '1920 x 1080 (16:9)', width: 1920, height: 1080 },
+  { value: '4k', label: '3840 x 2160 (16:9)', width: 3840, height: 2160 },
+  { value: 'square', label: '1024 x 1024 (1:1)', width: 1024, height: 1024 },
+  { value: 'pot-256', label: '256 x 256 (Texture)', width: 256, height: 256 },
+  { value: 'pot-512', label: '512 x 512 (Texture)', width: 512, height: 512 },
+  { value: 'pot-2048', label: '2048 x 2048 (Texture)', width: 2048, height: 2048 },
+  { value: 'pot-4096', label: '4096 x 4096 (Texture)', width: 4096, height: 4096 },
+];
+const MAX_ARTBOARD_SIZE = 8192;
+
+// Used by layers and placed images alike
+const BLEND_MODES: { value: BlendMode, label: string }[] = [
+  { value: 'source-over', label: 'Normal' }, { value: 'multiply', label: 'Multiply' }, { value: 'screen', label: 'Screen' }, { value: 'overlay', label: 'Overlay' },
+  { value: 'darken', label: 'Darken' }, { value: 'lighten', label: 'Lighten' }, { value: 'destination-out', label: 'Eraser (Mask)' },
+];
+
+const TEXT_WEIGHTS = [
+  { value: '400', label: 'Regular' }, { value: '500', label: 'Medium' }, { value: '600', label: 'Semibold' }, { value: '700', label: 'Bold' },
+];
+
+// Every font family the theme uses, i.e. the web fonts that are already loaded.
+const collectFontFamilies = (type: any, found: Set<string> = new Set()): string[] => {
+  Object.values(type).forEach((entry: any) => {
+    if (entry && typeof entry === 'object') {
+      if (typeof entry.fontFamily === 'string') found.add(entry.fontFamily);
+      else collectFontFamilies(entry, found);
+    }
+  });
+  return Array.from(found);
+};
+const fontLabel = (family: string) => family.split(',')[0].replace(/['"]/g, '').trim();
+
+// Null while the field is empty or holds something that isn't a size, so half-typed numbers don't resize anything
+const toArtboardSize = (value: string): number | null => {
+  const size = Math.round(Number(value));
+  return value.trim() !== '' && size >= 1 ? Math.min(MAX_ARTBOARD_SIZE, size) : null;
+};
+
 const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ 
   toolSettings, 
   onSettingChange, 
+  canvasSettings,
+  onCanvasSettingChange,
+  guideCount,
+  onClearGuides,
   activeLayer,
   onLayerUpdate,
   activeTool,
   isAnchorSelected,
-  onPenAction,
-  selectedObjectType
+  onCommand,
+  selectedObjectType,
+  onAlign,
+  onDistribute,
+  layerAlignCount = 0
 }) => {
   const { theme } = useTheme();
   const [activeTab, setActiveTab] = useState<Tab>('tool');
@@ -46,25 +104,57 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   const starPointsValue = useMotionValue(toolSettings.starPoints);
   const starInnerRadiusValue = useMotionValue(toolSettings.starInnerRadius * 100);
   const polygonSidesValue = useMotionValue(toolSettings.polygonSides);
+  const textSizeValue = useMotionValue(toolSettings.textSize);
+  const textLetterSpacingValue = useMotionValue(toolSettings.textLetterSpacing);
+  const textLineHeightValue = useMotionValue(toolSettings.textLineHeight);
+  const brushSmoothingValue = useMotionValue(toolSettings.brushSmoothing);
+  const brushSimplifyValue = useMotionValue(toolSettings.brushSimplify);
+  const brushWidthVariationValue = useMotionValue(toolSettings.brushWidthVariation * 100);
+  const brushTaperStartValue = useMotionValue(toolSettings.brushTaperStart * 100);
+  const brushTaperEndValue = useMotionValue(toolSettings.brushTaperEnd * 100);
+  const fillGapToleranceValue = useMotionValue(toolSettings.fillGapTolerance);
+  const brushHardnessValue = useMotionValue(toolSettings.brushHardness * 100);
+  const brushSpacingValue = useMotionValue(toolSettings.brushSpacing * 100);
+  const brushOpacityValue = useMotionValue(toolSettings.opacity * 100);
   
   // Selection Transform Motion Values
-  const selectionScaleValue = useMotionValue(toolSettings.selectionScale ?? 1);
   const selectionRotationValue = useMotionValue(toolSettings.selectionRotation ?? 0);
+  const selectionSkewXValue = useMotionValue(toolSettings.selectionSkewX ?? 0);
+  const selectionSkewYValue = useMotionValue(toolSettings.selectionSkewY ?? 0);
+  const selectionOpacityValue = useMotionValue((toolSettings.selectionOpacity ?? 1) * 100);
   
   // Layer Motion Values
   const opacityValue = useMotionValue(activeLayer ? activeLayer.opacity * 100 : 100);
   const scaleValue = useMotionValue(activeLayer ? activeLayer.scale : 1);
   const rotationValue = useMotionValue(activeLayer ? activeLayer.rotation : 0);
 
+  // Canvas Tab
+  const gridSizeValue = useMotionValue(canvasSettings.gridSize);
+  useEffect(() => { gridSizeValue.set(canvasSettings.gridSize); }, [canvasSettings.gridSize, gridSizeValue]);
+
   useEffect(() => {
     strokeWidthValue.set(toolSettings.strokeWidth);
     cornerRadiusValue.set(toolSettings.cornerRadius);
     starPointsValue.set(toolSettings.starPoints);
     starInnerRadiusValue.set(toolSettings.starInnerRadius * 100);
     polygonSidesValue.set(toolSettings.polygonSides);
-    if (toolSettings.selectionScale !== undefined) selectionScaleValue.set(toolSettings.selectionScale);
+    textSizeValue.set(toolSettings.textSize);
+    textLetterSpacingValue.set(toolSettings.textLetterSpacing);
+    textLineHeightValue.set(toolSettings.textLineHeight);
+    brushSmoothingValue.set(toolSettings.brushSmoothing);
+    brushSimplifyValue.set(toolSettings.brushSimplify);
+    brushWidthVariationValue.set(toolSettings.brushWidthVariation * 100);
+    brushTaperStartValue.set(toolSettings.brushTaperStart * 100);
+    brushTaperEndValue.set(toolSettings.brushTaperEnd * 100);
+    fillGapToleranceValue.set(toolSettings.fillGapTolerance);
+    brushHardnessValue.set(toolSettings.brushHardness * 100);
+    brushSpacingValue.set(toolSettings.brushSpacing * 100);
+    brushOpacityValue.set(toolSettings.opacity * 100);
     if (toolSettings.selectionRotation !== undefined) selectionRotationValue.set(toolSettings.selectionRotation);
-  }, [ toolSettings, strokeWidthValue, cornerRadiusValue, starPointsValue, starInnerRadiusValue, polygonSidesValue, selectionScaleValue, selectionRotationValue ]);
+    if (toolSettings.selectionSkewX !== undefined) selectionSkewXValue.set(toolSettings.selectionSkewX);
+    if (toolSettings.selectionSkewY !== undefined) selectionSkewYValue.set(toolSettings.selectionSkewY);
+    if (toolSettings.selectionOpacity !== undefined) selectionOpacityValue.set(toolSettings.selectionOpacity * 100);
+  }, [ toolSettings, strokeWidthValue, cornerRadiusValue, starPointsValue, starInnerRadiusValue, polygonSidesValue, textSizeValue, textLetterSpacingValue, textLineHeightValue, brushSmoothingValue, brushSimplifyValue, brushWidthVariationValue, brushTaperStartValue, brushTaperEndValue, fillGapToleranceValue, brushHardnessValue, brushSpacingValue, brushOpacityValue, selectionRotationValue, selectionSkewXValue, selectionSkewYValue, selectionOpacityValue ]);
 
   useEffect(() => {
     if (activeLayer) {
@@ -88,7 +178,73 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
       { id: 'polygon', icon: 'ph-polygon', label: 'Poly' }, { id: 'star', icon: 'ph-star', label: 'Star' }, { id: 'line', icon: 'ph-line-segment', label: 'Line' },
   ];
 
-  const isPrimitiveSelected = selectedObjectType && selectedObjectType !== 'path';
+  const isPrimitiveSelected = selectedObjectType && selectedObjectType !== 'path' && selectedObjectType !== 'mixed';
+  // With several shapes selected, fields where they disagree show the last picked shape's value and say so.
+  const withMixed = (label: string, ...keys: (keyof ToolSettings)[]) => activeTool === 'select' && keys.some(key => toolSettings.selectionMixed?.includes(key)) ? `${label} (Mixed)` : label;
+  const selectionCount = toolSettings.selectionCount ?? 1;
+
+  const fontFamilies = collectFontFamilies(theme.Type);
+
+  // Shared by the Text tool and a selected text object
+  const renderTextControls = () => (
+    <>
+      <Select label={withMixed('Font', 'textFamily')} value={toolSettings.textFamily} onChange={(e) => onSettingChange('textFamily', e.target.value)} options={fontFamilies.map(family => ({ value: family, label: fontLabel(family) }))} />
+      <Select label={withMixed('Weight', 'textWeight')} value={String(toolSettings.textWeight)} onChange={(e) => onSettingChange('textWeight', Number(e.target.value))} options={TEXT_WEIGHTS} />
+      <RangeSlider label={withMixed('Size', 'textSize')} motionValue={textSizeValue} onChange={(v) => onSettingChange('textSize', v)} onCommit={(v) => onSettingChange('textSize', v)} min={8} max={200} step={1} />
+      <RangeSlider label={withMixed('Letter Spacing', 'textLetterSpacing')} motionValue={textLetterSpacingValue} onChange={(v) => onSettingChange('textLetterSpacing', v)} onCommit={(v) => onSettingChange('textLetterSpacing', v)} min={-10} max={50} step={0.5} />
+      <RangeSlider label={withMixed('Line Height', 'textLineHeight')} motionValue={textLineHeightValue} onChange={(v) => onSettingChange('textLineHeight', v)} onCommit={(v) => onSettingChange('textLineHeight', v)} min={0.8} max={3} step={0.05} />
+      <div style={{ display: 'flex', gap: '4px', backgroundColor: theme.Color.Base.Surface[3], padding: '2px', borderRadius: '8px' }}>
+        {([['left', 'ph-text-align-left'], ['center', 'ph-text-align-center'], ['right', 'ph-text-align-right']] as const).map(([align, icon]) => (
+          <button key={align} onClick={() => onSettingChange('textAlign', align)} aria-label={`Align ${align}`}
+            style={{ flex: 1, border: 'none', borderRadius: '6px', padding: '6px', cursor: 'pointer', backgroundColor: toolSettings.textAlign === align ? theme.Color.Base.Surface[1] : 'transparent', color: toolSettings.textAlign === align ? theme.Color.Base.Content[1] : theme.Color.Base.Content[2], boxShadow: toolSettings.textAlign === align ? theme.effects['Effect.Shadow.Drop.1'] : 'none' }}>
+            <i className={`ph-bold ${icon}`} />
+          </button>
+        ))}
+      </div>
+    </>
+  );
+
+  // Shared by the Brush tool and a selected variable-width stroke
+  const renderWidthProfile = (showVariation: boolean) => (
+    <>
+      {showVariation && <RangeSlider label={withMixed('Width Variation %', 'brushWidthVariation')} motionValue={brushWidthVariationValue} onChange={(v) => onSettingChange('brushWidthVariation', v / 100)} onCommit={(v) => onSettingChange('brushWidthVariation', v / 100)} min={0} max={100} step={1} />}
+      <RangeSlider label={withMixed('Taper Start %', 'brushTaperStart')} motionValue={brushTaperStartValue} onChange={(v) => onSettingChange('brushTaperStart', v / 100)} onCommit={(v) => onSettingChange('brushTaperStart', v / 100)} min={0} max={50} step={1} />
+      <RangeSlider label={withMixed('Taper End %', 'brushTaperEnd')} motionValue={brushTaperEndValue} onChange={(v) => onSettingChange('brushTaperEnd', v / 100)} onCommit={(v) => onSettingChange('brushTaperEnd', v / 100)} min={0} max={50} step={1} />
+    </>
+  );
+
+  const renderPaintControls = () => (<>
+      <PaintEditor
+        label={withMixed('Stroke', 'strokeEnabled', 'strokeColor', 'strokeGradient')}
+        enabled={toolSettings.strokeEnabled}
+        color={toolSettings.strokeColor}
+        gradient={toolSettings.strokeGradient}
+        onToggle={() => onSettingChange('strokeEnabled', !toolSettings.strokeEnabled)}
+        onColorChange={(color) => onSettingChange('strokeColor', color)}
+        onGradientChange={(gradient) => onSettingChange('strokeGradient', gradient)}
+      />
+      <PaintEditor
+        label={withMixed('Fill', 'fillEnabled', 'fillColor', 'fillGradient')}
+        enabled={toolSettings.fillEnabled}
+        color={toolSettings.fillColor}
+        gradient={toolSettings.fillGradient}
+        onToggle={() => onSettingChange('fillEnabled', !toolSettings.fillEnabled)}
+        onColorChange={(color) => onSettingChange('fillColor', color)}
+        onGradientChange={(gradient) => onSettingChange('fillGradient', gradient)}
+      />
+  </>);
+
+  const artboardPreset = ARTBOARD_PRESETS.find(p => p.width === canvasSettings.artboardWidth && p.height === canvasSettings.artboardHeight)?.value ?? 'custom';
+  const handleArtboardPreset = (value: string) => {
+    const preset = ARTBOARD_PRESETS.find(p => p.value === value);
+    if (!preset) return; // 'Custom' just unlocks the size fields below
+    onCanvasSettingChange('artboardWidth', preset.width);
+    onCanvasSettingChange('artboardHeight', preset.height);
+  };
+  const handleArtboardSize = (key: 'artboardWidth' | 'artboardHeight', value: string) => {
+    const size = toArtboardSize(value);
+    if (size !== null) onCanvasSettingChange(key, size);
+  };
 
   return (
     <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing['Space.M'], height: '100%' }}>
@@ -115,31 +271,69 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                     {selectedObjectType && (
                         <>
                             <div style={groupStyle}>
-                                <label style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2] }}>TRANSFORM</label>
+                                <label style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2] }}>{selectionCount > 1 ? `TRANSFORM (${selectionCount} SHAPES)` : 'TRANSFORM'}</label>
                                 <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: theme.spacing['Space.S'] }}>
                                     <Input label="X" type="number" value={(toolSettings.selectionX ?? 0).toFixed(1)} onChange={(e) => onSettingChange('selectionX', Number(e.target.value))} />
                                     <Input label="Y" type="number" value={(toolSettings.selectionY ?? 0).toFixed(1)} onChange={(e) => onSettingChange('selectionY', Number(e.target.value))} />
                                 </div>
-                                <RangeSlider label="Scale" motionValue={selectionScaleValue} min={0.1} max={5} step={0.01} onChange={(v) => onSettingChange('selectionScale', v)} onCommit={(v) => onSettingChange('selectionScale', v)} />
-                                <RangeSlider label="Rotation" motionValue={selectionRotationValue} min={0} max={360} step={1} onChange={(v) => onSettingChange('selectionRotation', v)} onCommit={(v) => onSettingChange('selectionRotation', v)} />
+                                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: theme.spacing['Space.S'] }}>
+                                    <Input label={withMixed('Scale X', 'selectionScaleX')} type="number" value={(toolSettings.selectionScaleX ?? 1).toFixed(2)} onChange={(e) => onSettingChange('selectionScaleX', Number(e.target.value) || 1)} />
+                                    <Input label={withMixed('Scale Y', 'selectionScaleY')} type="number" value={(toolSettings.selectionScaleY ?? 1).toFixed(2)} onChange={(e) => onSettingChange('selectionScaleY', Number(e.target.value) || 1)} />
+                                </div>
+                                <RangeSlider label={withMixed('Rotation', 'selectionRotation')} motionValue={selectionRotationValue} min={0} max={360} step={1} onChange={(v) => onSettingChange('selectionRotation', v)} onCommit={(v) => onSettingChange('selectionRotation', v)} />
+                                <RangeSlider label={withMixed('Skew X', 'selectionSkewX')} motionValue={selectionSkewXValue} min={-60} max={60} step={1} onChange={(v) => onSettingChange('selectionSkewX', v)} onCommit={(v) => onSettingChange('selectionSkewX', v)} />
+                                <RangeSlider label={withMixed('Skew Y', 'selectionSkewY')} motionValue={selectionSkewYValue} min={-60} max={60} step={1} onChange={(v) => onSettingChange('selectionSkewY', v)} onCommit={(v) => onSettingChange('selectionSkewY', v)} />
+                                <p style={{ ...theme.Type.Readable.Body.S, margin: 0, color: theme.Color.Base.Content[2], fontSize: '11px' }}>
+                                  Drag handles to scale (Shift keeps proportions, Alt scales from the centre). Drag just outside a corner to rotate (Shift snaps to 15°). Ctrl/Cmd-drag an edge to skew. Alt-click picks the shape underneath.
+                                </p>
                             </div>
 
+                            {onAlign && onDistribute &&
+                            <div style={groupStyle}>
+                                <label style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2] }}>{selectionCount > 1 ? 'ALIGN & DISTRIBUTE' : 'ALIGN TO ARTBOARD'}</label>
+                                <AlignControls
+                                    alignTo={toolSettings.alignTo}
+                                    onAlignToChange={(reference) => onSettingChange('alignTo', reference)}
+                                    onAlign={(edge) => onAlign('shapes', edge)}
+                                    onDistribute={(mode) => onDistribute('shapes', mode)}
+                                    canDistribute={selectionCount > 1}
+                                />
+                            </div>}
+
                             {isPrimitiveSelected &&
                             <div style={groupStyle}>
                                 <label style={{...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2]}}>PROPERTIES</label>
-                                {selectedObjectType === 'rectangle' && <RangeSlider label="Corner Radius" motionValue={cornerRadiusValue} onChange={(v) => onSettingChange('cornerRadius', v)} onCommit={(v) => onSettingChange('cornerRadius', v)} min={0} max={100} />}
+                                {selectedObjectType === 'rectangle' && <RangeSlider label={withMixed('Corner Radius', 'cornerRadius')} motionValue={cornerRadiusValue} onChange={(v) => onSettingChange('cornerRadius', v)} onCommit={(v) => onSettingChange('cornerRadius', v)} min={0} max={100} />}
                                 {selectedObjectType === 'star' && (<>
-                                    <RangeSlider label="Points" motionValue={starPointsValue} onChange={(v) => onSettingChange('starPoints', v)} onCommit={(v) => onSettingChange('starPoints', v)} min={3} max={20} step={1}/>
-                                    <RangeSlider label="Inner Radius %" motionValue={starInnerRadiusValue} onChange={(v) => onSettingChange('starInnerRadius', v / 100)} onCommit={(v) => onSettingChange('starInnerRadius', v / 100)} min={10} max={90} />
+                                    <RangeSlider label={withMixed('Points', 'starPoints')} motionValue={starPointsValue} onChange={(v) => onSettingChange('starPoints', v)} onCommit={(v) => onSettingChange('starPoints', v)} min={3} max={20} step={1}/>
+                                    <RangeSlider label={withMixed('Inner Radius %', 'starInnerRadius')} motionValue={starInnerRadiusValue} onChange={(v) => onSettingChange('starInnerRadius', v / 100)} onCommit={(v) => onSettingChange('starInnerRadius', v / 100)} min={10} max={90} />
+                                </>)}
+                                {selectedObjectType === 'text' && renderTextControls()}
+                                {selectedObjectType === 'stroke' && (<>
+                                    <RangeSlider label={withMixed('Width', 'strokeWidth')} motionValue={strokeWidthValue} onChange={(v) => onSettingChange('strokeWidth', v)} onCommit={(v) => onSettingChange('strokeWidth', v)} min={1} max={100} />
+                                    {renderWidthProfile(true)}
+                                    <p style={{ ...theme.Type.Readable.Body.S, margin: 0, color: theme.Color.Base.Content[2], fontSize: '11px' }}>
+                                      A variable-width brush stroke, painted with its Fill. Convert to Path to edit its outline with the Pen.
+                                    </p>
+                                </>)}
+                                {selectedObjectType === 'polygon' && <RangeSlider label={withMixed('Sides', 'polygonSides')} motionValue={polygonSidesValue} onChange={(v) => onSettingChange('polygonSides', v)} onCommit={(v) => onSettingChange('polygonSides', v)} min={3} max={12} step={1}/>}
+                                {selectedObjectType === 'image' && (<>
+                                    <RangeSlider label={withMixed('Opacity', 'selectionOpacity')} motionValue={selectionOpacityValue} onChange={(v) => onSettingChange('selectionOpacity', v / 100)} onCommit={(v) => onSettingChange('selectionOpacity', v / 100)} min={0} max={100} />
+                                    <Select label={withMixed('Blend Mode', 'selectionBlendMode')} value={toolSettings.selectionBlendMode ?? 'source-over'} onChange={(e) => onSettingChange('selectionBlendMode', e.target.value as BlendMode)} options={BLEND_MODES}/>
+                                    <p style={{ ...theme.Type.Readable.Body.S, margin: 0, color: theme.Color.Base.Content[2], fontSize: '11px' }}>
+                                      A placed photo. Move, scale and turn it with the handles; it has no paint of its own.
+                                    </p>
                                 </>)}
-                                {selectedObjectType === 'polygon' && <RangeSlider label="Sides" motionValue={polygonSidesValue} onChange={(v) => onSettingChange('polygonSides', v)} onCommit={(v) => onSettingChange('polygonSides', v)} min={3} max={12} step={1}/>}
                             </div>
                             }
+                            {selectedObjectType !== 'image' && (<>
+                            {renderPaintControls()}
                             <div style={groupStyle}>
                                 <label style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2] }}>SELECTION ACTIONS</label>
-                                {isPrimitiveSelected ? (<Button label="Convert to Path" variant="secondary" size="M" icon="ph-bezier-curve" onClick={() => onPenAction && onPenAction('flatten')} />) 
+                                {isPrimitiveSelected || selectedObjectType === 'mixed' ? (<Button label={selectedObjectType === 'text' ? 'Trace to Path' : 'Convert to Path'} variant="secondary" size="M" icon="ph-bezier-curve" onClick={() => onCommand?.('pen.convertToPath')} />) 
                                 : (<div style={{...theme.Type.Readable.Body.S, color: theme.Color.Success.Content[1], display: 'flex', alignItems: 'center', gap: '6px'}}><i className="ph-bold ph-check-circle" />Editable Path</div>)}
                             </div>
+                            </>)}
                         </>
                     )}
                   </>
@@ -187,19 +381,81 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                   </>
               )}
 
+              {activeTool === 'text' && (
+                  <div style={groupStyle}>
+                      <label style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2] }}>TEXT</label>
+                      {renderTextControls()}
+                      <p style={{ ...theme.Type.Readable.Body.S, margin: 0, color: theme.Color.Base.Content[2], fontSize: '11px' }}>
+                        Click the canvas to add text, or click existing text to edit it. Press Escape or click away to finish.
+                      </p>
+                  </div>
+              )}
+
+              {activeTool === 'brush' && (
+                  <div style={groupStyle}>
+                      <label style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2] }}>STROKE SMOOTHING</label>
+                      <Select label="Stabilizer" value={toolSettings.brushStabilizer} onChange={(e) => onSettingChange('brushStabilizer', e.target.value)} options={[{ value: 'string', label: 'Pulled String' }, { value: 'average', label: 'Moving Average' }, { value: 'off', label: 'Off' }]}/>
+                      <RangeSlider label="Smoothing" motionValue={brushSmoothingValue} onChange={(v) => onSettingChange('brushSmoothing', v)} onCommit={(v) => onSettingChange('brushSmoothing', v)} min={0} max={100} step={1}/>
+                      <RangeSlider label="Simplify Tolerance" motionValue={brushSimplifyValue} onChange={(v) => onSettingChange('brushSimplify', v)} onCommit={(v) => onSettingChange('brushSimplify', v)} min={0} max={20} step={0.5}/>
+                  </div>
+              )}
+
+              {activeTool === 'brush' && (
+                  <div style={groupStyle}>
+                      <label style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2] }}>STROKE WIDTH</label>
+                      <Select label="Width" value={toolSettings.brushWidthMode} onChange={(e) => onSettingChange('brushWidthMode', e.target.value)} options={[{ value: 'fixed', label: 'Fixed' }, { value: 'pressure', label: 'Pen Pressure' }, { value: 'velocity', label: 'Speed (faster = thinner)' }, { value: 'taper', label: 'Taper Only' }]}/>
+                      {toolSettings.brushWidthMode !== 'fixed' && renderWidthProfile(toolSettings.brushWidthMode !== 'taper')}
+                      {toolSettings.brushWidthMode !== 'fixed' && (
+                          <p style={{ ...theme.Type.Readable.Body.S, margin: 0, color: theme.Color.Base.Content[2], fontSize: '11px' }}>
+                            Variable-width strokes are filled outlines in the stroke colour. Select one later to change its width and taper.
+                          </p>
+                      )}
+                  </div>
+              )}
+
+              {(activeTool === 'brush' || activeTool === 'eraser') && (
+                  <div style={groupStyle}>
+                      <label style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2] }}>PAINT LAYER BRUSH</label>
+                      <RangeSlider label="Hardness %" motionValue={brushHardnessValue} onChange={(v) => onSettingChange('brushHardness', v / 100)} onCommit={(v) => onSettingChange('brushHardness', v / 100)} min={0} max={100} step={1}/>
+                      <RangeSlider label="Spacing %" motionValue={brushSpacingValue} onChange={(v) => onSettingChange('brushSpacing', v / 100)} onCommit={(v) => onSettingChange('brushSpacing', v / 100)} min={1} max={100} step={1}/>
+                      <RangeSlider label="Opacity %" motionValue={brushOpacityValue} onChange={(v) => onSettingChange('opacity', v / 100)} onCommit={(v) => onSettingChange('opacity', v / 100)} min={1} max={100} step={1}/>
+                      <Toggle label="Pressure Controls Size" isOn={toolSettings.pressureSize} onToggle={() => onSettingChange('pressureSize', !toolSettings.pressureSize)} />
+                      <Toggle label="Pressure Controls Opacity" isOn={toolSettings.pressureOpacity} onToggle={() => onSettingChange('pressureOpacity', !toolSettings.pressureOpacity)} />
+                  </div>
+              )}
+
+              {activeTool === 'fill' && (
+                  <div style={groupStyle}>
+                      <label style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2] }}>VECTOR FILL</label>
+                      <RangeSlider label="Close Gaps (px)" motionValue={fillGapToleranceValue} onChange={(v) => onSettingChange('fillGapTolerance', v)} onCommit={(v) => onSettingChange('fillGapTolerance', v)} min={1} max={40} step={1}/>
+                      <p style={{ ...theme.Type.Readable.Body.S, margin: 0, color: theme.Color.Base.Content[2], fontSize: '11px' }}>
+                        Click inside an area closed off by lines or shapes to fill it with a new shape in the fill colour. Gaps narrower than "Close Gaps" still count as closed.
+                      </p>
+                  </div>
+              )}
+
+              {(activeTool === 'brush' || activeTool === 'eraser' || activeTool === 'fill') && (
+                  <div style={groupStyle}>
+                      <p style={{ ...theme.Type.Readable.Body.S, margin: 0, color: theme.Color.Base.Content[2], fontSize: '11px' }}>
+                        On a paint layer the brush, eraser and bucket paint pixels. Add one with "Paint Layer" in the Layers panel.
+                        {activeTool === 'eraser' && ' On other layers the eraser cuts through shapes and splits lines where it crosses them. Stroke Width sets its size.'}
+                      </p>
+                  </div>
+              )}
+
               {activeTool === 'pen' ? (
                 <>
                     <div style={{ ...groupStyle, borderColor: theme.Color.Success.Content[1] }}>
                          <label style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Success.Content[1] }}>PATH ACTIONS</label>
-                         <Button label="Finish Editing" variant="primary" size="M" icon="ph-check" customFill={theme.Color.Success.Content[1]} onClick={() => onPenAction && onPenAction('finishPath')} />
+                         <Button label="Finish Editing" variant="primary" size="M" icon="ph-check" customFill={theme.Color.Success.Content[1]} onClick={() => onCommand?.('pen.finish')} />
                          <Toggle label="Close Path" isOn={toolSettings.penClosePath} onToggle={() => onSettingChange('penClosePath', !toolSettings.penClosePath)} />
                     </div>
                     {isAnchorSelected && (
                         <div style={groupStyle}>
                              <label style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2] }}>ANCHOR POINT</label>
                              <div style={{ display: 'flex', gap: '8px' }}>
-                                 <Button label="Delete" variant="secondary" size="S" icon="ph-trash" customColor={theme.Color.Error.Content[1]} onClick={() => onPenAction && onPenAction('deleteAnchor')} />
-                                 <Button label="Sharp" variant="secondary" size="S" icon="ph-corners-out" onClick={() => onPenAction && onPenAction('sharpAnchor')} />
+                                 <Button label="Delete" variant="secondary" size="S" icon="ph-trash" customColor={theme.Color.Error.Content[1]} onClick={() => onCommand?.('pen.deleteAnchor')} />
+                                 <Button label="Sharp" variant="secondary" size="S" icon="ph-corners-out" onClick={() => onCommand?.('pen.sharpAnchor')} />
                              </div>
                              <Select label="Handle Mode" value={toolSettings.penHandleMode} onChange={(e) => onSettingChange('penHandleMode', e.target.value)} options={[{ value: 'mirrored', label: '2 Handles (Mirrored)' }, { value: 'disconnected', label: '1 Handle (Broken)' }]}/>
                         </div>
@@ -208,8 +464,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
               ) : null}
 
               {activeTool !== 'select' && activeTool !== 'delete' && (<>
-                  <div style={groupStyle}> <Toggle label="Stroke" isOn={toolSettings.strokeEnabled} onToggle={() => onSettingChange('strokeEnabled', !toolSettings.strokeEnabled)} /> {toolSettings.strokeEnabled && <ColorPicker label="" value={toolSettings.strokeColor} onChange={(e) => onSettingChange('strokeColor', e.target.value)}/>} </div>
-                  <div style={groupStyle}> <Toggle label="Fill" isOn={toolSettings.fillEnabled} onToggle={() => onSettingChange('fillEnabled', !toolSettings.fillEnabled)} /> {toolSettings.fillEnabled && <ColorPicker label="" value={toolSettings.fillColor} onChange={(e) => onSettingChange('fillColor', e.target.value)}/>} </div>
+                  {renderPaintControls()}
                   <RangeSlider label="Stroke Width" motionValue={strokeWidthValue} onChange={(v) => onSettingChange('strokeWidth', v)} onCommit={(v) => onSettingChange('strokeWidth', v)} min={1} max={100}/>
                   <div style={{ display: 'flex', gap: theme.spacing['Space.M'] }}>
                     <div style={{ flex: 1 }}> <Select label="Line Cap" value={toolSettings.lineCap} onChange={(e) => onSettingChange('lineCap', e.target.value)} options={[{ value: 'round', label: 'Round' }, { value: 'butt', label: 'Butt' }, { value: 'square', label: 'Square' }]}/> </div>
@@ -234,7 +489,18 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                       <RangeSlider label="Scale" motionValue={scaleValue} min={0.1} max={3.0} step={0.01} onChange={(v) => onLayerUpdate(activeLayer.id, { scale: v })} onCommit={(v) => onLayerUpdate(activeLayer.id, { scale: v })}/>
                       <RangeSlider label="Rotation" motionValue={rotationValue} min={0} max={360} onChange={(v) => onLayerUpdate(activeLayer.id, { rotation: v })} onCommit={(v) => onLayerUpdate(activeLayer.id, { rotation: v })}/>
                   </div>
-                  <Select label="Blend Mode" value={activeLayer.blendMode} onChange={(e) => onLayerUpdate(activeLayer.id, { blendMode: e.target.value })} options={[ { value: 'source-over', label: 'Normal' }, { value: 'multiply', label: 'Multiply' }, { value: 'screen', label: 'Screen' }, { value: 'overlay', label: 'Overlay' }, { value: 'darken', label: 'Darken' }, { value: 'lighten', label: 'Lighten' }, { value: 'destination-out', label: 'Eraser (Mask)' } ]}/>
+                  {onAlign && onDistribute && layerAlignCount > 0 &&
+                  <div style={groupStyle}>
+                      <label style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2] }}>{layerAlignCount > 1 ? `ALIGN (${layerAlignCount} LAYERS IN GROUP)` : 'ALIGN TO ARTBOARD'}</label>
+                      <AlignControls
+                          alignTo={toolSettings.alignTo}
+                          onAlignToChange={(reference) => onSettingChange('alignTo', reference)}
+                          onAlign={(edge) => onAlign('layers', edge)}
+                          onDistribute={(mode) => onDistribute('layers', mode)}
+                          canDistribute={layerAlignCount > 1}
+                      />
+                  </div>}
+                  <Select label="Blend Mode" value={activeLayer.blendMode} onChange={(e) => onLayerUpdate(activeLayer.id, { blendMode: e.target.value })} options={BLEND_MODES}/>
                   <RangeSlider label="Opacity" motionValue={opacityValue} onChange={(v) => onLayerUpdate(activeLayer.id, { opacity: v / 100 })} onCommit={(v) => onLayerUpdate(activeLayer.id, { opacity: v / 100 })} min={0} max={100}/>
               </>) : (<div style={{ ...theme.Type.Readable.Body.S, color: theme.Color.Base.Content[3], textAlign: 'center', padding: '40px 0' }}> No layer selected </div>)}
             </motion.div>
@@ -243,8 +509,45 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
           {activeTab === 'canvas' && (
             <motion.div key="canvas" initial={{ opacity: 0, x: -10 }} animate={{ opacity: 1, x: 0 }} exit={{ opacity: 0, x: 10 }} style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing['Space.M'] }}>
               <div style={groupStyle}>
-                 <p style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2], margin: 0 }}>Global controls coming soon...</p>
-                 <Select label="Artboard Presets" value="1080p" onChange={() => {}} options={[{ value: '1080p', label: '1920 x 1080 (16:9)' }, { value: '4k', label: '3840 x 2160 (16:9)' }, { value: 'square', label: '1024 x 1024 (1:1)' }]}/>
+                 <label style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2] }}>ARTBOARD</label>
+                 <Select label="Artboard Presets" value={artboardPreset} onChange={(e) => handleArtboardPreset(e.target.value)} options={[...ARTBOARD_PRESETS.map(({ value, label }) => ({ value, label })), { value: 'custom', label: 'Custom' }]}/>
+                 <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: theme.spacing['Space.S'] }}>
+                     <Input label="Width (px)" type="number" value={canvasSettings.artboardWidth.toString()} onChange={(e) => handleArtboardSize('artboardWidth', e.target.value)} />
+                     <Input label="Height (px)" type="number" value={canvasSettings.artboardHeight.toString()} onChange={(e) => handleArtboardSize('artboardHeight', e.target.value)} />
+                 </div>
+              </div>
+              <div style={groupStyle}>
+                 <label style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2] }}>TILING</label>
+                 <Toggle label="Tile Mode" isOn={canvasSettings.tileMode} onToggle={() => onCanvasSettingChange('tileMode', !canvasSettings.tileMode)} />
+                 {canvasSettings.tileMode && <Toggle label="Wrap Preview (3x3)" isOn={canvasSettings.tilePreview} onToggle={() => onCanvasSettingChange('tilePreview', !canvasSettings.tilePreview)} />}
+                 <p style={{ ...theme.Type.Readable.Body.S, margin: 0, color: theme.Color.Base.Content[2], fontSize: '11px' }}>
+                   Shapes crossing an edge come back on the opposite side. PNG export saves a seamless tile.
+                 </p>
+              </div>
+              <div style={groupStyle}>
+                 <label style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2] }}>SNAPPING</label>
+                 <Toggle label="Snapping" isOn={canvasSettings.snapping} onToggle={() => onCanvasSettingChange('snapping', !canvasSettings.snapping)} />
+                 {canvasSettings.snapping && <>
+                     <Toggle label="Snap to Grid" isOn={canvasSettings.snapToGrid} onToggle={() => onCanvasSettingChange('snapToGrid', !canvasSettings.snapToGrid)} />
+                     <Toggle label="Snap to Shapes" isOn={canvasSettings.snapToObjects} onToggle={() => onCanvasSettingChange('snapToObjects', !canvasSettings.snapToObjects)} />
+                     <Toggle label="Snap to Artboard" isOn={canvasSettings.snapToArtboard} onToggle={() => onCanvasSettingChange('snapToArtboard', !canvasSettings.snapToArtboard)} />
+                     <Toggle label="Smart Guides" isOn={canvasSettings.smartGuides} onToggle={() => onCanvasSettingChange('smartGuides', !canvasSettings.smartGuides)} />
+                 </>}
+                 <Toggle label="Show Grid" isOn={canvasSettings.showGrid} onToggle={() => onCanvasSettingChange('showGrid', !canvasSettings.showGrid)} />
+                 <RangeSlider label="Grid Size (px)" motionValue={gridSizeValue} onChange={(v) => onCanvasSettingChange('gridSize', v)} onCommit={(v) => onCanvasSettingChange('gridSize', v)} min={2} max={200} step={1}/>
+                 <p style={{ ...theme.Type.Readable.Body.S, margin: 0, color: theme.Color.Base.Content[2], fontSize: '11px' }}>
+                   Moved shapes, scale handles, pen anchors, handles and new shapes snap to edges, centres, anchors and equal gaps. Hold F to place freely.
+                 </p>
+              </div>
+              <div style={groupStyle}>
+                 <label style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2] }}>RULERS & GUIDES</label>
+                 <Toggle label="Show Rulers" isOn={canvasSettings.showRulers} onToggle={() => onCanvasSettingChange('showRulers', !canvasSettings.showRulers)} />
+                 <Toggle label="Show Guides" isOn={canvasSettings.showGuides} onToggle={() => onCanvasSettingChange('showGuides', !canvasSettings.showGuides)} />
+                 <Toggle label="Lock Guides" isOn={canvasSettings.lockGuides} onToggle={() => onCanvasSettingChange('lockGuides', !canvasSettings.lockGuides)} />
+                 <Button label={guideCount > 0 ? `Clear Guides (${guideCount})` : 'Clear Guides'} variant="secondary" size="M" icon="ph-trash" disabled={guideCount === 0} onClick={onClearGuides} />
+                 <p style={{ ...theme.Type.Readable.Body.S, margin: 0, color: theme.Color.Base.Content[2], fontSize: '11px' }}>
+                   Drag from a ruler to add a guide, drag a guide back onto a ruler to remove it. Everything you draw snaps to guides.
+                 </p>
               </div>
             </motion.div>
           )}
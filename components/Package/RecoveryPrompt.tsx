@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useTheme } from '../../Theme.tsx';
+import Button from '../Core/Button.tsx';
+import { AutosaveSessionInfo } from '../../types/index.tsx';
+
+interface RecoveryPromptProps {
+  sessions: AutosaveSessionInfo[];
+  onRestore: (id: string) => void;
+  onDiscard: (id: string) => void;
+  onDismiss: () => void;
+}
+
+/**
+ * 🛟 Recovery Prompt
+ * Shown on startup when autosave found work from an earlier visit.
+ * Each card shows a picture of the drawing and when it was last saved.
+ */
+const RecoveryPrompt: React.FC<RecoveryPromptProps> = ({ sessions, onRestore, onDiscard, onDismiss }) => {
+    const { theme } = useTheme();
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            style={{
+                position: 'fixed', inset: 0, zIndex: 1000,
+                display: 'flex', alignItems: 'center', justifyContent: 'center',
+                backgroundColor: 'rgba(0,0,0,0.4)',
+            }}
+        >
+            <motion.div
+                initial={{ y: 16, scale: 0.98 }}
+                animate={{ y: 0, scale: 1 }}
+                style={{
+                    width: '420px', maxHeight: '80vh', overflowY: 'auto',
+                    display: 'flex', flexDirection: 'column', gap: theme.spacing['Space.M'],
+                    padding: theme.spacing['Space.L'],
+                    backgroundColor: theme.Color.Base.Surface[1],
+                    borderRadius: theme.radius['Radius.L'],
+                    boxShadow: theme.effects['Effect.Shadow.Drop.3'],
+                }}
+            >
+                <div>
+                    <h2 style={{ ...theme.Type.Readable.Title.M, color: theme.Color.Base.Content[1], margin: 0 }}>
+                        Recover your work?
+                    </h2>
+                    <p style={{ ...theme.Type.Readable.Body.S, color: theme.Color.Base.Content[2], margin: `${theme.spacing['Space.XS']} 0 0` }}>
+                        These drawings were saved automatically but never finished.
+                    </p>
+                </div>
+
+                {sessions.map(session => (
+                    <div
+                        key={session.id}
+                        style={{
+                            display: 'flex', alignItems: 'center', gap: theme.spacing['Space.M'],
+                            padding: theme.spacing['Space.S'],
+                            backgroundColor: theme.Color.Base.Surface[2],
+                            borderRadius: theme.radius['Radius.M'],
+                        }}
+                    >
+                        <div style={{
+                            width: '64px', height: '64px', flexShrink: 0,
+                            backgroundColor: '#FFFFFF', borderRadius: theme.radius['Radius.S'], overflow: 'hidden',
+                            display: 'flex', alignItems: 'center', justifyContent: 'center',
+                        }}>
+                            {session.thumbnail
+                                ? <img src={session.thumbnail} alt="" style={{ width: '100%', height: '100%', objectFit: 'contain' }} />
+                                : <i className="ph ph-image" style={{ fontSize: '24px', color: theme.Color.Base.Content[3] }} />}
+                        </div>
+                        <div style={{ flex: 1, minWidth: 0 }}>
+                            <div style={{ ...theme.Type.Readable.Label.M, color: theme.Color.Base.Content[1], overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                {session.name}
+                            </div>
+                            <div style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[3] }}>
+                                {new Date(session.updatedAt).toLocaleString()}
+                            </div>
+                        </div>
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing['Space.XS'] }}>
+                            <Button label="Restore" variant="primary" size="S" icon="ph-arrow-counter-clockwise" onClick={() => onRestore(session.id)} />
+                            <Button label="Discard" variant="ghost" size="S" icon="ph-trash" onClick={() => onDiscard(session.id)} />
+                        </div>
+                    </div>
+                ))}
+
+                <Button label="Start Fresh" variant="secondary" size="M" onClick={onDismiss} />
+            </motion.div>
+        </motion.div>
+    );
+};
+
+export default RecoveryPrompt;
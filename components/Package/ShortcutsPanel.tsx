@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState } from 'react';
+import { useTheme } from '../../Theme.tsx';
+import { Keymap, CommandId } from '../../types/index.tsx';
+import { COMMANDS, COMMAND_CATEGORIES, getCommand } from '../../utils/commands.tsx';
+import { eventToBinding, formatBinding, isDefaultBinding } from '../../utils/shortcuts.tsx';
+import Button from '../Core/Button.tsx';
+
+interface ShortcutsPanelProps {
+  keymap: Keymap;
+  conflicts: Map<string, CommandId[]>;
+  onSetBindings: (id: CommandId, bindings: string[]) => void;
+  onResetBindings: (id: CommandId) => void;
+  onResetAll: () => void;
+}
+
+
+/**
+ * ⌨️ Shortcuts Panel
+ * The cheat sheet: every command and its keys, grouped like the palette.
+ * Click + on a row and press a key combination to add it, × on a key to
+ * remove it, and the arrow to go back to the original keys.
+ *
+ * Two commands sharing the same keys are shown in red; those keys do
+ * nothing until one of them is changed.
+ */
+const ShortcutsPanel: React.FC<ShortcutsPanelProps> = ({ keymap, conflicts, onSetBindings, onResetBindings, onResetAll }) => {
+  const { theme } = useTheme();
+  const [recording, setRecording] = useState<CommandId | null>(null);
+
+  // While recording, every key (Escape and Delete included) becomes the new binding, so nothing else may see it
+  const handleRecordKey = (e: React.KeyboardEvent, id: CommandId) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const binding = eventToBinding(e);
+    if (!binding) return;
+    onSetBindings(id, [...keymap[id], binding]);
+    setRecording(null);
+  };
+
+  const chipStyle = (conflicted: boolean): React.CSSProperties => ({
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '2px',
+    padding: `2px ${theme.spacing['Space.XS']}`,
+    borderRadius: theme.radius['Radius.S'],
+    backgroundColor: conflicted ? theme.Color.Error.Surface[1] : theme.Color.Base.Surface[3],
+    color: conflicted ? theme.Color.Error.Content[1] : theme.Color.Base.Content[1],
+    ...theme.Type.Expressive.Data,
+    fontSize: '11px',
+  });
+
+  const iconButton: React.CSSProperties = {
+    border: 'none', background: 'none', padding: 0, cursor: 'pointer', color: 'inherit', display: 'inline-flex', fontSize: '12px',
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing['Space.M'] }}>
+      {COMMAND_CATEGORIES.map(category => (
+        <div key={category} style={{ display: 'flex', flexDirection: 'column', gap: theme.spacing['Space.XS'] }}>
+          <label style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2] }}>{category.toUpperCase()}</label>
+          {COMMANDS.filter(command => command.category === category).map(({ id, label }) => {
+            const clashes = keymap[id].filter(binding => conflicts.has(binding));
+            return (
+              <div key={id} style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: theme.spacing['Space.XS'], minHeight: '24px' }}>
+                  <span style={{ ...theme.Type.Readable.Body.S, color: theme.Color.Base.Content[1], flex: 1 }}>{label}</span>
+                  {keymap[id].map(binding => (
+                    <span key={binding} style={chipStyle(conflicts.has(binding))}>
+                      {formatBinding(binding)}
+                      <button style={iconButton} aria-label={`Remove ${binding}`} onClick={() => onSetBindings(id, keymap[id].filter(b => b !== binding))}>
+                        <i className="ph ph-x" />
+                      </button>
+                    </span>
+                  ))}
+                  {recording === id ? (
+                    <button
+                      autoFocus
+                      onKeyDown={(e) => handleRecordKey(e, id)}
+                      onBlur={() => setRecording(null)}
+                      style={{ ...chipStyle(false), border: `1px dashed ${theme.Color.Base.Content[3]}`, cursor: 'pointer', outline: 'none' }}
+                    >
+                      Press keys…
+                    </button>
+                  ) : (
+                    <button style={{ ...iconButton, color: theme.Color.Base.Content[2] }} title="Add keys" onClick={() => setRecording(id)}>
+                      <i className="ph ph-plus" />
+                    </button>
+                  )}
+                  {!isDefaultBinding(keymap, id) && (
+                    <button style={{ ...iconButton, color: theme.Color.Base.Content[2] }} title="Back to default keys" onClick={() => onResetBindings(id)}>
+                      <i className="ph ph-arrow-counter-clockwise" />
+                    </button>
+                  )}
+                </div>
+                {clashes.map(binding => (
+                  <span key={binding} style={{ ...theme.Type.Readable.Body.S, fontSize: '11px', color: theme.Color.Error.Content[1] }}>
+                    {formatBinding(binding)} is also used by {conflicts.get(binding)!.filter(other => other !== id).map(other => getCommand(other).label).join(', ')}
+                  </span>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+      <p style={{ ...theme.Type.Readable.Body.S, margin: 0, color: theme.Color.Base.Content[2], fontSize: '11px' }}>
+        Hold Space to pan. Shortcuts don't run while typing in a field. Keys shared by two commands do nothing until one is changed.
+      </p>
+      <div>
+        <Button label="Reset All Shortcuts" icon="ph-arrow-counter-clockwise" size="S" variant="outline" onClick={onResetAll} />
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsPanel;
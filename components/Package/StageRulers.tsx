@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import { useTheme } from '../../Theme.tsx';
+import { Guide, StageView } from '../../types/index.tsx';
+
+interface StageRulersProps {
+  view: StageView;
+  guides: Guide[];
+  showRulers: boolean;
+  showGuides: boolean;
+  lockGuides: boolean;
+  onGuidesChange?: (guides: Guide[], label: string) => void;
+}
+
+type Orientation = Guide['orientation'];
+
+const RULER_SIZE = 20; // Screen pixels
+const GUIDE_COLOR = '#00B8D4';
+const GUIDE_HIT = 7; // Width of the invisible strip that grabs a guide
+const MIN_LABEL_SPACING = 60; // Screen pixels between numbered ticks
+const NICE_STEPS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000, 10000];
+
+/**
+ * 📏 Stage Rulers
+ * Rulers along the top and left of the Stage, counting artboard pixels from
+ * the artboard's top-left corner, and the guide lines dragged out of them.
+ * They follow the Stage's zoom and pan through the `view` it reports.
+ *
+ * Drag down from the top ruler for a horizontal guide, right from the left
+ * ruler for a vertical one. Dragging a guide back onto a ruler removes it.
+ */
+
+// Artboard pixels <-> screen pixels along one axis
+const toScreen = (view: StageView, orientation: Orientation, position: number) => orientation === 'vertical'
+  ? view.width / 2 + view.panX + (position - view.artboardWidth / 2) * view.scale
+  : view.height / 2 + view.panY + (position - view.artboardHeight / 2) * view.scale;
+
+const fromScreen = (view: StageView, orientation: Orientation, screen: number) => orientation === 'vertical'
+  ? (screen - view.width / 2 - view.panX) / view.scale + view.artboardWidth / 2
+  : (screen - view.height / 2 - view.panY) / view.scale + view.artboardHeight / 2;
+
+// Numbered ticks far enough apart to read, with 10, 5 or 2 small ticks between them
+const tickSteps = (scale: number) => {
+  const major = NICE_STEPS.find(step => step * scale >= MIN_LABEL_SPACING) ?? NICE_STEPS[NICE_STEPS.length - 1];
+  const minor = [10, 5, 2].map(parts => major / parts).find(step => step * scale >= 5) ?? major;
+  return { major, minor };
+};
+
+/**
+ * Draws one ruler. `along` is the orientation of the guides it makes: the top ruler
+ * measures x positions (vertical guides), the left one y positions (horizontal guides).
+ */
+const drawRuler = (canvas: HTMLCanvasElement, view: StageView, along: Orientation, colors: { surface: string, tick: string, label: string, font: string }) => {
+  const length = along === 'vertical' ? view.width : view.height;
+  const ratio = window.devicePixelRatio || 1;
+  const width = along === 'vertical' ? length : RULER_SIZE, height = along === 'vertical' ? RULER_SIZE : length;
+  canvas.width = Math.round(width * ratio); canvas.height = Math.round(height * ratio);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+  ctx.fillStyle = colors.surface;
+  ctx.fillRect(0, 0, width, height);
+
+  const { major, minor } = tickSteps(view.scale);
+  const first = Math.floor(fromScreen(view, along, RULER_SIZE) / minor) * minor;
+  const last = fromScreen(view, along, length);
+  ctx.strokeStyle = colors.tick;
+  ctx.fillStyle = colors.label;
+  ctx.font = colors.font;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let value = first; value <= last; value += minor) {
+    const at = Math.round(toScreen(view, along, value)) + 0.5;
+    const isMajor = Math.abs(value / major - Math.round(value / major)) < 1e-6;
+    const isHalf = !isMajor && Math.abs((value * 2) / major - Math.round((value * 2) / major)) < 1e-6;
+    const tick = isMajor ? RULER_SIZE : isHalf ? RULER_SIZE * 0.45 : RULER_SIZE * 0.25;
+    if (along === 'vertical') { ctx.moveTo(at, RULER_SIZE); ctx.lineTo(at, RULER_SIZE - tick); }
+    else { ctx.moveTo(RULER_SIZE, at); ctx.lineTo(RULER_SIZE - tick, at); }
+    if (!isMajor) continue;
+    const label = String(Math.round(value));
+    if (along === 'vertical') ctx.fillText(label, at + 3, 9);
+    else {
+      // The left ruler reads bottom to top
+      ctx.save();
+      ctx.translate(9, at - 3);
+      ctx.rotate(-Math.PI / 2);
+      ctx.fillText(label, 0, 0);
+      ctx.restore();
+    }
+  }
+  ctx.stroke();
+};
+
+const StageRulers: React.FC<StageRulersProps> = ({ view, guides, showRulers, showGuides, lockGuides, onGuidesChange }) => {
+  const { theme } = useTheme();
+  const rootRef = useRef<HTMLDivElement>(null);
+  const topRef = useRef<HTMLCanvasElement>(null);
+  const leftRef = useRef<HTMLCanvasElement>(null);
+  // The guide being dragged: a new one (no id yet) or an existing one
+  const [drag, setDrag] = useState<{ id: string | null, orientation: Orientation, position: number, overRuler: boolean } | null>(null);
+
+  useEffect(() => {
+    if (!showRulers) return;
+    const colors = {
+      surface: theme.Color.Base.Surface[1],
+      tick: theme.Color.Base.Content[3],
+      label: theme.Color.Base.Content[2],
+      font: `9px ${theme.Type.Expressive.Data.fontFamily}`,
+    };
+    if (topRef.current) drawRuler(topRef.current, view, 'vertical', colors);
+    if (leftRef.current) drawRuler(leftRef.current, view, 'horizontal', colors);
+  }, [view, showRulers, theme]);
+
+  // Where the pointer is, as a guide position, and whether it is back over the matching ruler
+  const readPointer = (e: React.PointerEvent, orientation: Orientation) => {
+    const rect = rootRef.current!.getBoundingClientRect();
+    const screen = orientation === 'vertical' ? e.clientX - rect.left : e.clientY - rect.top;
+    return { position: Math.round(fromScreen(view, orientation, screen)), overRuler: screen < RULER_SIZE };
+  };
+
+  const beginDrag = (e: React.PointerEvent, orientation: Orientation, id: string | null) => {
+    // Rulers and guides sit on top of the canvas, the tools never see these pointers
+    e.stopPropagation();
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ id, orientation, ...readPointer(e, orientation) });
+  };
+
+  // Pointers just passing over (a brush stroke crossing a guide) are left to the Stage
+  const moveDrag = (e: React.PointerEvent) => {
+    if (!drag) return;
+    e.stopPropagation();
+    setDrag({ ...drag, ...readPointer(e, drag.orientation) });
+  };
+
+  const endDrag = (e: React.PointerEvent) => {
+    if (!drag) return;
+    e.stopPropagation();
+    setDrag(null);
+    if (!onGuidesChange) return;
+    if (drag.id === null) {
+      if (!drag.overRuler) onGuidesChange([...guides, { id: `guide-${Date.now()}`, orientation: drag.orientation, position: drag.position }], 'Add Guide');
+    } else if (drag.overRuler) {
+      onGuidesChange(guides.filter(guide => guide.id !== drag.id), 'Remove Guide');
+    } else if (guides.find(guide => guide.id === drag.id)?.position !== drag.position) {
+      onGuidesChange(guides.map(guide => guide.id === drag.id ? { ...guide, position: drag.position } : guide), 'Move Guide');
+    }
+  };
+
+  const dragHandlers = { onPointerMove: moveDrag, onPointerUp: endDrag, onPointerCancel: endDrag };
+
+  // While dragging, the guide follows the pointer (and fades when it is about to be dropped on the ruler)
+  const shown: (Guide & { dragging: boolean })[] = showGuides ? guides.map(guide =>
+    drag && guide.id === drag.id ? { ...guide, position: drag.position, dragging: true } : { ...guide, dragging: false }) : [];
+  if (drag && drag.id === null) shown.push({ id: 'new-guide', orientation: drag.orientation, position: drag.position, dragging: true });
+
+  const rulerStyle: React.CSSProperties = { position: 'absolute', pointerEvents: 'auto', cursor: 'default' };
+  const edge = `1px solid ${theme.Color.Base.Surface[3]}`;
+
+  return (
+    <div ref={rootRef} style={{ position: 'absolute', inset: 0, pointerEvents: 'none', overflow: 'hidden' }}>
+      {shown.map(guide => {
+        const at = toScreen(view, guide.orientation, guide.position);
+        const vertical = guide.orientation === 'vertical';
+        // A guide being dragged keeps receiving its pointer through capture
+        return (
+          <div
+            key={guide.id}
+            style={{
+              position: 'absolute',
+              ...(vertical ? { left: at - GUIDE_HIT / 2, top: 0, bottom: 0, width: GUIDE_HIT } : { top: at - GUIDE_HIT / 2, left: 0, right: 0, height: GUIDE_HIT }),
+              pointerEvents: lockGuides ? 'none' : 'auto',
+              cursor: vertical ? 'ew-resize' : 'ns-resize',
+              opacity: drag && guide.dragging && drag.overRuler ? 0.3 : 1,
+            }}
+            onPointerDown={guide.dragging ? undefined : (e) => beginDrag(e, guide.orientation, guide.id)}
+            {...dragHandlers}
+          >
+            <div style={{ position: 'absolute', backgroundColor: GUIDE_COLOR, ...(vertical ? { left: GUIDE_HIT / 2, top: 0, bottom: 0, width: 1 } : { top: GUIDE_HIT / 2, left: 0, right: 0, height: 1 }) }} />
+          </div>
+        );
+      })}
+
+      {drag && !drag.overRuler && (
+        <div style={{
+          position: 'absolute',
+          ...(drag.orientation === 'vertical'
+            ? { left: toScreen(view, 'vertical', drag.position) + 6, top: RULER_SIZE + 6 }
+            : { top: toScreen(view, 'horizontal', drag.position) + 6, left: RULER_SIZE + 6 }),
+          padding: `2px ${theme.spacing['Space.XS']}`,
+          backgroundColor: GUIDE_COLOR,
+          color: '#FFFFFF',
+          borderRadius: theme.radius['Radius.S'],
+          ...theme.Type.Expressive.Data,
+          fontSize: '10px',
+        }}>
+          {drag.orientation === 'vertical' ? 'X' : 'Y'} {drag.position}
+        </div>
+      )}
+
+      {showRulers && (<>
+        <canvas
+          ref={topRef}
+          style={{ ...rulerStyle, left: 0, top: 0, width: view.width, height: RULER_SIZE, borderBottom: edge }}
+          onPointerDown={showGuides ? (e) => beginDrag(e, 'horizontal', null) : (e) => e.stopPropagation()}
+          {...dragHandlers}
+        />
+        <canvas
+          ref={leftRef}
+          style={{ ...rulerStyle, left: 0, top: 0, width: RULER_SIZE, height: view.height, borderRight: edge }}
+          onPointerDown={showGuides ? (e) => beginDrag(e, 'vertical', null) : (e) => e.stopPropagation()}
+          {...dragHandlers}
+        />
+        <div style={{ ...rulerStyle, left: 0, top: 0, width: RULER_SIZE, height: RULER_SIZE, backgroundColor: theme.Color.Base.Surface[1], borderRight: edge, borderBottom: edge }} onPointerDown={(e) => e.stopPropagation()} />
+      </>)}
+    </div>
+  );
+};
+
+export default StageRulers;
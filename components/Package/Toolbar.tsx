@@ -6,19 +6,24 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { useTheme } from '../../Theme.tsx';
-import { Tool } from '../../types/index.tsx';
+import { Tool, CommandId } from '../../types/index.tsx';
+import { getCommand } from '../../utils/commands.tsx';
 
 interface ToolbarProps {
   activeTool: Tool;
   onToolSelect: (tool: Tool) => void;
 }
 
-const TOOLS = [
-    { id: 'select' as Tool, icon: 'ph-cursor-click', label: 'Select' },
-    { id: 'shape' as Tool, icon: 'ph-shapes', label: 'Shapes' },
-    { id: 'brush' as Tool, icon: 'ph-paint-brush-broad', label: 'Brush' },
-    { id: 'pen' as Tool, icon: 'ph-pen-nib', label: 'Pen' },
-    { id: 'delete' as Tool, icon: 'ph-trash', label: 'Delete Vector' },
+// Names and icons come from the command list, so the palette and toolbar match
+const TOOLS: { id: Tool, command: CommandId }[] = [
+    { id: 'select', command: 'tool.select' },
+    { id: 'shape', command: 'tool.shape' },
+    { id: 'brush', command: 'tool.brush' },
+    { id: 'pen', command: 'tool.pen' },
+    { id: 'text', command: 'tool.text' },
+    { id: 'eraser', command: 'tool.eraser' },
+    { id: 'fill', command: 'tool.fill' },
+    { id: 'delete', command: 'tool.delete' },
 ];
 
 const Toolbar: React.FC<ToolbarProps> = ({ activeTool, onToolSelect }) => {
@@ -68,9 +73,9 @@ const Toolbar: React.FC<ToolbarProps> = ({ activeTool, onToolSelect }) => {
                     }}
                     whileHover={{ scale: 1.1, backgroundColor: activeTool === tool.id ? theme.Color.Accent.Surface[1] : theme.Color.Base.Surface[2] }}
                     whileTap={{ scale: 0.95 }}
-                    aria-label={tool.label}
+                    aria-label={getCommand(tool.command).label}
                 >
-                    <i className={`ph-bold ${tool.icon}`} />
+                    <i className={`ph-bold ${getCommand(tool.command).icon}`} />
                 </motion.button>
             ))}
         </motion.div>
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState, useEffect } from 'react';
+import Button from '../Core/Button.tsx';
+import { useTheme } from '../../Theme.tsx';
+
+interface ZoomControlProps {
+  zoom: number;
+  onZoomChange: (zoom: number) => void;
+  onZoomToFit: () => void;
+  onZoomToSelection: () => void;
+}
+
+const ZOOM_STEP = 1.25;
+
+/**
+ * 🔍 Zoom Control
+ * A small pill in the corner that shows the current zoom. Type a number to
+ * jump straight to it, or use the buttons to step, fit or go back to 100%.
+ */
+const ZoomControl: React.FC<ZoomControlProps> = ({ zoom, onZoomChange, onZoomToFit, onZoomToSelection }) => {
+  const { theme } = useTheme();
+  const [text, setText] = useState(Math.round(zoom * 100).toString());
+
+  // Follow zoom changes made on the canvas (wheel, pinch, shortcuts)
+  useEffect(() => { setText(Math.round(zoom * 100).toString()); }, [zoom]);
+
+  const applyText = () => {
+    const percent = parseFloat(text);
+    if (Number.isFinite(percent) && percent > 0) onZoomChange(percent / 100);
+    else setText(Math.round(zoom * 100).toString());
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        right: theme.spacing['Space.L'],
+        bottom: theme.spacing['Space.L'],
+        zIndex: 1000,
+        display: 'flex',
+        alignItems: 'center',
+        gap: theme.spacing['Space.XS'],
+        padding: theme.spacing['Space.XS'],
+        backgroundColor: theme.Color.Base.Surface[1],
+        border: `1px solid ${theme.Color.Base.Surface[3]}`,
+        borderRadius: theme.radius['Radius.Full'],
+        boxShadow: theme.effects['Effect.Shadow.Drop.2'],
+      }}
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      <Button label="" icon="ph-minus" size="S" variant="ghost" onClick={() => onZoomChange(zoom / ZOOM_STEP)} />
+      <div style={{ display: 'flex', alignItems: 'center', ...theme.Type.Readable.Label.M, color: theme.Color.Base.Content[1] }}>
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onBlur={applyText}
+          onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+          aria-label="Zoom percentage"
+          style={{
+            width: '44px',
+            border: 'none',
+            outline: 'none',
+            background: 'transparent',
+            textAlign: 'right',
+            color: 'inherit',
+            font: 'inherit',
+          }}
+        />
+        %
+      </div>
+      <Button label="" icon="ph-plus" size="S" variant="ghost" onClick={() => onZoomChange(zoom * ZOOM_STEP)} />
+      <div style={{ width: '1px', alignSelf: 'stretch', backgroundColor: theme.Color.Base.Surface[3] }} />
+      <Button label="1:1" size="S" variant="ghost" onClick={() => onZoomChange(1)} />
+      <Button label="" icon="ph-arrows-out" size="S" variant="ghost" onClick={onZoomToFit} />
+      <Button label="" icon="ph-selection" size="S" variant="ghost" onClick={onZoomToSelection} />
+    </div>
+  );
+};
+
+export default ZoomControl;
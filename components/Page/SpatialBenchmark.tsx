@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import { useTheme } from '../../Theme.tsx';
+import Button from '../Core/Button.tsx';
+import { CanvasEngine } from '../Section/Stage.tsx';
+import { SpatialGrid, Box, boxesOverlap } from '../../utils/spatial.tsx';
+import { Layer, SerializedNode, SerializedShape } from '../../types/index.tsx';
+
+/**
+ * ⏱️ Spatial Benchmark
+ * A page of its own (`benchmark.html`) that fills a layer with thousands of
+ * shapes and times how long it takes to find the shape under a point.
+ *
+ * -   **Engine hit-test**: the real thing, the same lookup a click on the stage
+ *     does (the layer's grid, then the precise shape test).
+ * -   **Box lookup**: the same points against the same boxes, once by checking
+ *     every box and once through a `SpatialGrid`, to show what the grid saves.
+ */
+
+const SHAPE_COUNT = 10000;
+const PROBE_COUNT = 1000;
+const SCENE_SIZE = 8000; // Shapes are spread over a square this wide, centred on the artboard
+const LAYER_ID = 'benchmark-layer';
+
+interface Timing {
+    label: string;
+    mean: number;
+    p95: number;
+    max: number;
+    total: number;
+    note?: string;
+}
+
+// A small seeded random generator, so every run measures the same scene
+const createRandom = (seed: number) => () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+};
+
+const baseShape = (x: number, y: number, fill: string, stroke: string, linewidth: number) => ({
+    translation: { x, y }, rotation: 0, scale: 1, opacity: 1,
+    fill, stroke, linewidth, cap: 'round' as const, join: 'round' as const, miter: 4, dashes: [],
+    closed: true, curved: false, automatic: false,
+});
+
+/**
+ * A scene like a busy drawing: mostly brush strokes, with circles and boxes in between.
+ */
+const generateScene = (count: number): { nodes: SerializedNode[], boxes: Box[] } => {
+    const random = createRandom(1);
+    const nodes: SerializedNode[] = [];
+    const boxes: Box[] = [];
+    const hue = () => `hsl(${Math.round(random() * 360)}, 70%, 60%)`;
+
+    for (let i = 0; i < count; i++) {
+        const x = (random() - 0.5) * SCENE_SIZE, y = (random() - 0.5) * SCENE_SIZE;
+        const kind = random();
+        if (kind < 0.6) {
+            // A wiggly stroke of 8 to 24 points
+            const points = 8 + Math.floor(random() * 16);
+            let px = 0, py = 0, minX = 0, minY = 0, maxX = 0, maxY = 0;
+            const vertices = Array.from({ length: points }, () => {
+                px += (random() - 0.3) * 12; py += (random() - 0.5) * 12;
+                minX = Math.min(minX, px); minY = Math.min(minY, py);
+                maxX = Math.max(maxX, px); maxY = Math.max(maxY, py);
+                return { x: px, y: py, left: { x: 0, y: 0 }, right: { x: 0, y: 0 }, command: 'L', relative: true };
+            });
+            vertices[0].command = 'M';
+            const shape: SerializedShape = { ...baseShape(x, y, 'transparent', hue(), 4), kind: 'path', closed: false, vertices };
+            nodes.push(shape);
+            boxes.push({ left: x + minX - 2, top: y + minY - 2, right: x + maxX + 2, bottom: y + maxY + 2 });
+        } else if (kind < 0.8) {
+            const size = 8 + random() * 40;
+            nodes.push({ ...baseShape(x, y, hue(), 'transparent', 0), kind: 'ellipse', width: size, height: size });
+            boxes.push({ left: x - size / 2, top: y - size / 2, right: x + size / 2, bottom: y + size / 2 });
+        } else {
+            const w = 8 + random() * 60, h = 8 + random() * 60;
+            nodes.push({ ...baseShape(x, y, hue(), 'transparent', 0), kind: 'rectangle', width: w, height: h });
+            boxes.push({ left: x - w / 2, top: y - h / 2, right: x + w / 2, bottom: y + h / 2 });
+        }
+    }
+    return { nodes, boxes };
+};
+
+const benchmarkLayer: Layer = {
+    id: LAYER_ID, type: 'layer', name: 'Benchmark', isVisible: true, opacity: 1, blendMode: 'source-over',
+    x: 0, y: 0, scale: 1, rotation: 0, children: [], isOpen: false,
+};
+
+// Runs `probe` once per point and sums up how long each call took
+const measure = (label: string, points: { x: number, y: number }[], probe: (x: number, y: number) => unknown, note?: string): Timing => {
+    const times = points.map(({ x, y }) => {
+        const start = performance.now();
+        probe(x, y);
+        return performance.now() - start;
+    });
+    const sorted = [...times].sort((a, b) => a - b);
+    const total = times.reduce((sum, t) => sum + t, 0);
+    return {
+        label, note, total,
+        mean: total / times.length,
+        p95: sorted[Math.floor(sorted.length * 0.95)],
+        max: sorted[sorted.length - 1],
+    };
+};
+
+const SpatialBenchmark = () => {
+    const { theme } = useTheme();
+    const stageRef = useRef<HTMLDivElement>(null);
+    const [results, setResults] = useState<Timing[]>([]);
+    const [running, setRunning] = useState(false);
+    const [summary, setSummary] = useState('');
+
+    useEffect(() => {
+        document.body.style.backgroundColor = theme.Color.Base.Surface[1];
+    }, [theme]);
+
+    const run = () => {
+        if (!stageRef.current || running) return;
+        setRunning(true);
+        setSummary('Generating shapes…');
+        // Let the button repaint before the page goes busy
+        setTimeout(() => {
+            const container = stageRef.current!;
+            const engine = new CanvasEngine(container);
+            try {
+                const { nodes, boxes } = generateScene(SHAPE_COUNT);
+                const loadStart = performance.now();
+                engine.loadContent({ [LAYER_ID]: nodes });
+                engine.updateLayers([benchmarkLayer]);
+                engine.setActiveLayerId(LAYER_ID);
+                const loadTime = performance.now() - loadStart;
+
+                const random = createRandom(2);
+                const points = Array.from({ length: PROBE_COUNT }, () => ({
+                    x: (random() - 0.5) * SCENE_SIZE,
+                    y: (random() - 0.5) * SCENE_SIZE,
+                }));
+
+                // The first lookup measures every shape and files it in the grid
+                const indexStart = performance.now();
+                engine.pickShape(points[0].x, points[0].y);
+                const indexTime = performance.now() - indexStart;
+
+                let engineHits = 0;
+                const engineTiming = measure('Engine hit-test', points, (x, y) => { if (engine.pickShape(x, y)) engineHits++; });
+
+                const linearTiming = measure('Box lookup, every box', points, (x, y) => {
+                    const probe = { left: x, top: y, right: x, bottom: y };
+                    return boxes.filter(box => boxesOverlap(box, probe));
+                });
+
+                const grid = new SpatialGrid<number>();
+                const gridStart = performance.now();
+                boxes.forEach((box, i) => grid.insert(i, box));
+                const gridBuildTime = performance.now() - gridStart;
+                const gridTiming = measure('Box lookup, grid', points, (x, y) => grid.queryPoint(x, y), `built in ${gridBuildTime.toFixed(1)} ms`);
+
+                setResults([engineTiming, linearTiming, gridTiming]);
+                setSummary(`${SHAPE_COUNT.toLocaleString()} shapes loaded in ${loadTime.toFixed(0)} ms, indexed in ${indexTime.toFixed(0)} ms. ` +
+                    `${PROBE_COUNT.toLocaleString()} points probed, ${engineHits} landed on a shape.`);
+            } finally {
+                engine.destroy();
+                setRunning(false);
+            }
+        }, 50);
+    };
+
+    const cell: React.CSSProperties = { ...theme.Type.Expressive.Data, padding: `${theme.spacing['Space.XS']} ${theme.spacing['Space.S']}`, textAlign: 'right' };
+
+    return (
+        <div style={{ padding: theme.spacing['Space.XL'], color: theme.Color.Base.Content[1], display: 'flex', flexDirection: 'column', gap: theme.spacing['Space.L'], maxWidth: '720px' }}>
+            <div>
+                <h1 style={{ ...theme.Type.Readable.Title.M, margin: 0 }}>Spatial Index Benchmark</h1>
+                <p style={{ ...theme.Type.Readable.Body.S, color: theme.Color.Base.Content[2], margin: `${theme.spacing['Space.XS']} 0 0` }}>
+                    Fills a layer with {SHAPE_COUNT.toLocaleString()} shapes and times {PROBE_COUNT.toLocaleString()} lookups of the shape under a random point.
+                </p>
+            </div>
+            <div>
+                <Button label={running ? 'Running…' : 'Run Benchmark'} icon="ph-timer" onClick={run} disabled={running} />
+            </div>
+            {summary && <p style={{ ...theme.Type.Readable.Body.S, color: theme.Color.Base.Content[2], margin: 0 }}>{summary}</p>}
+            {results.length > 0 && (
+                <table style={{ borderCollapse: 'collapse', backgroundColor: theme.Color.Base.Surface[2], borderRadius: theme.radius['Radius.M'] }}>
+                    <thead>
+                        <tr style={{ ...theme.Type.Readable.Label.S, color: theme.Color.Base.Content[2] }}>
+                            <th style={{ ...cell, textAlign: 'left' }}>LOOKUP</th>
+                            <th style={cell}>MEAN (ms)</th>
+                            <th style={cell}>P95 (ms)</th>
+                            <th style={cell}>MAX (ms)</th>
+                            <th style={cell}>TOTAL (ms)</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {results.map(result => (
+                            <tr key={result.label}>
+                                <td style={{ ...cell, textAlign: 'left' }}>
+                                    {result.label}
+                                    {result.note && <span style={{ color: theme.Color.Base.Content[3] }}> ({result.note})</span>}
+                                </td>
+                                <td style={cell}>{result.mean.toFixed(4)}</td>
+                                <td style={cell}>{result.p95.toFixed(4)}</td>
+                                <td style={cell}>{result.max.toFixed(4)}</td>
+                                <td style={cell}>{result.total.toFixed(1)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            {/* The engine needs a real element to draw into; it stays off-screen */}
+            <div ref={stageRef} style={{ position: 'fixed', left: '-10000px', top: 0, width: '800px', height: '600px' }} />
+        </div>
+    );
+};
+
+export default SpatialBenchmark;
@@ -6,17 +6,20 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { useTheme } from '../../Theme.tsx';
 import DockIcon from '../Core/DockIcon.tsx';
-import { WindowId, WindowState } from '../../types/index.tsx';
+import { WindowId, WindowState, CommandId } from '../../types/index.tsx';
+import { getCommand } from '../../utils/commands.tsx';
 
 interface DockProps {
     windows: Record<WindowId, WindowState>;
     toggleWindow: (id: WindowId) => void;
 }
 
-const DOCK_ITEMS = [
-  { id: 'properties' as WindowId, icon: 'ph-sliders-horizontal', label: 'Properties' },
-  { id: 'layers' as WindowId, icon: 'ph-stack', label: 'Layers' },
-  { id: 'assets' as WindowId, icon: 'ph-folder-simple', label: 'Assets' },
+// Icons come from the window commands, so the palette and dock match
+const DOCK_ITEMS: { id: WindowId, command: CommandId }[] = [
+  { id: 'properties', command: 'window.properties' },
+  { id: 'layers', command: 'window.layers' },
+  { id: 'assets', command: 'window.assets' },
+  { id: 'shortcuts', command: 'window.shortcuts' },
 ];
 
 const Dock: React.FC<DockProps> = ({ windows, toggleWindow }) => {
@@ -45,7 +48,7 @@ const Dock: React.FC<DockProps> = ({ windows, toggleWindow }) => {
         {DOCK_ITEMS.map((item) => (
           <DockIcon
             key={item.id}
-            icon={item.icon}
+            icon={getCommand(item.command).icon}
             isActive={windows[item.id].isOpen}
             onClick={() => toggleWindow(item.id)}
           />
@@ -3,21 +3,137 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import React, { useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
+import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef } from 'react';
 import Two from 'two.js';
 import paper from 'paper';
 import { useTheme } from '../../Theme.tsx';
-import { Layer, Tool, ToolSettings, SelectedObjectType, ShapeType } from '../../types/index.tsx';
+import StageRulers from '../Package/StageRulers.tsx';
+import { Layer, Tool, ToolSettings, SelectedObjectType, ShapeType, CanvasSize, CanvasSettings, SerializedNode, TextStyle, GradientPaint, Guide, StageView, AlignEdge, DistributeMode, AlignReference, ClipboardShapes, ClipboardLayers, PastePlacement, ImageSource } from '../../types/index.tsx';
+import { serializeNode, deserializeNode } from '../../utils/document.tsx';
+import { createTextObject, updateTextObject, isTextObject, layoutText, traceTextOutlines, toFontString } from '../../utils/text.tsx';
+import { applyGradient, copyPaints, copyPaintsForExport, getLocalBounds, getPaint, refreshGradients, PaintChannel } from '../../utils/gradient.tsx';
+import { createRasterObject, cloneRaster, getRasterContext, isRasterObject, markRasterChanged, resizeRaster, toRasterPixel } from '../../utils/raster.tsx';
+import { addImageAsset, createImageObject, cloneImage, embedImagesForSvg, getImageBlendMode, isImageObject, setImageBlendMode } from '../../utils/image.tsx';
+import { SpatialGrid, Box } from '../../utils/spatial.tsx';
+import { snapBox, snapPoint, SnapGuide, SnapLine, SnapPoint, SnapTargets } from '../../utils/snap.tsx';
+import { alignBoxes, distributeBoxes, boundsOf, AlignOffset } from '../../utils/align.tsx';
+import { isTypingTarget } from '../../utils/shortcuts.tsx';
+import { interpretSvg, svgToLayers } from '../../utils/svg.tsx';
+import { useDraw, beginBrushStroke, BrushSample, BrushStroke } from '../../hooks/useDraw.tsx';
+import { createStabilizer, stabilize, settleStabilizer, Stabilizer, StrokePoint, applyVariableStroke, growVariableStroke, simplifySamples, isVariableStroke, outlineStroke } from '../../utils/stroke.tsx';
 
 // Helper for Bezier math
 const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
 const lerpV = (v1: {x: number, y: number}, v2: {x: number, y: number}, t: number) => ({ x: lerp(v1.x, v2.x, t), y: lerp(v1.y, v2.y, t) });
 
+// Undo step names for a finished pointer gesture with each tool
+const COMMIT_LABELS: Partial<Record<Tool, string>> = {
+    select: 'Move Shape',
+    brush: 'Brush Stroke',
+    pen: 'Edit Path',
+    shape: 'Draw Shape',
+    delete: 'Delete Shape',
+    text: 'Add Text',
+    eraser: 'Erase',
+    fill: 'Fill',
+};
+
+// How close (in screen pixels) something has to get before it snaps
+const SNAP_DISTANCE = 6;
+const GUIDE_COLOR = '#E91E63';
+const DUPLICATE_OFFSET = 10; // Artboard pixels a duplicate lands away from the original
+const MIN_GRID_SPACING = 8; // Screen pixels between drawn grid lines; sparser lines are drawn when zoomed out
+
+type SnapSettings = Pick<CanvasSettings, 'snapping' | 'snapToGrid' | 'showGrid' | 'gridSize' | 'snapToObjects' | 'snapToArtboard' | 'smartGuides' | 'showGuides'>;
+
+// Keyboard keys held during a pointer gesture
+interface PointerModifiers {
+    shift: boolean;
+    alt: boolean;
+    ctrl: boolean; // Ctrl on Windows/Linux, Cmd on Mac
+    free: boolean; // F held down: place and drag without snapping
+}
+const NO_MODIFIERS: PointerModifiers = { shift: false, alt: false, ctrl: false, free: false };
+const FREE_KEY = 'KeyF';
+
+// What a pen (or finger, or mouse) reports besides its position. Used by the paint layer brushes.
+export interface PointerInput {
+    pressure: number; // 0 to 1
+    tiltX: number; // degrees
+    tiltY: number;
+}
+const FULL_PRESSURE: PointerInput = { pressure: 1, tiltX: 0, tiltY: 0 };
+
+// Speed (px per ms) at which a velocity brush stroke is half as wide, and how quickly the width follows the speed
+const VELOCITY_HALF_WIDTH = 1.5;
+const VELOCITY_EASING = 0.3;
+
+// Tools that work on a paint layer's pixels rather than on shapes
+const PAINT_TOOLS: Tool[] = ['brush', 'eraser', 'fill'];
+
+// A transform handle on the selection box. ix/iy say which side it sits on: -1 left/top, 0 middle, 1 right/bottom.
+interface TransformHandle {
+    x: number;
+    y: number;
+    ix: number;
+    iy: number;
+}
+
+// A shape's transform as it was when a handle drag started
+interface TransformOrigin {
+    x: number;
+    y: number;
+    rotation: number;
+    scaleX: number;
+    scaleY: number;
+    skewX: number;
+    skewY: number;
+}
+
+const ROTATE_SNAP = Math.PI / 12; // 15 degrees
+const HANDLE_RADIUS = 8; // How close (in screen pixels) the pointer must be to grab a handle
+const HIT_TOLERANCE = 4; // How close (in screen pixels) a click must land to a line to hit it
+const ROTATE_ZONE = 28; // How far outside a corner (in screen pixels) still rotates
+const MIN_HANDLE_SCALE = 0.01;
+
+// Which settings change which shape style. Used to copy only what was edited onto a multi-selection.
+const STYLE_KEYS: (keyof ToolSettings)[] = [
+    'strokeColor', 'strokeEnabled', 'strokeWidth', 'fillColor', 'fillEnabled', 'fillGradient', 'strokeGradient', 'lineCap', 'lineJoin',
+    'cornerRadius', 'starPoints', 'starInnerRadius', 'polygonSides',
+    'textFamily', 'textSize', 'textWeight', 'textLetterSpacing', 'textLineHeight', 'textAlign',
+    'brushWidthVariation', 'brushTaperStart', 'brushTaperEnd',
+    'selectionOpacity', 'selectionBlendMode',
+];
+const TEXT_KEYS: (keyof ToolSettings)[] = ['textFamily', 'textSize', 'textWeight', 'textLetterSpacing', 'textLineHeight', 'textAlign'];
+const TRANSFORM_KEYS: (keyof ToolSettings)[] = ['selectionX', 'selectionY', 'selectionRotation', 'selectionScaleX', 'selectionScaleY', 'selectionSkewX', 'selectionSkewY'];
+
+// The style and transform settings that differ between two versions of the settings
+const editedKeys = (prev: ToolSettings, next: ToolSettings, keys: (keyof ToolSettings)[]) =>
+    new Set(keys.filter(key => next[key] !== prev[key]));
+
+// Where to draw the on-canvas text box while a text object is being typed into
+export interface TextEditInfo {
+    id: number;
+    value: string;
+    style: TextStyle;
+    color: string;
+    x: number; // Screen position of the text's origin (see utils/text.tsx)
+    y: number;
+    scale: number; // Screen pixels per text pixel
+    rotation: number; // Radians
+}
+
+// Empty space (in screen pixels) kept around the artboard when it is fitted into the window
+const ARTBOARD_MARGIN = 40;
+// How far in and out the viewport may zoom (1 = one artboard pixel per screen pixel)
+export const MIN_ZOOM = 0.02;
+export const MAX_ZOOM = 64;
+
 /**
  * 🛠 Canvas Engine (Decoupled Renderer)
  * Completely isolated from React render cycles. All state is managed internally.
  */
-class CanvasEngine {
+export class CanvasEngine {
     two: Two;
     thumbTwo: Two; // Secondary instance for thumbnails
     paperScope: paper.PaperScope;
@@ -32,18 +148,46 @@ class CanvasEngine {
     onSelectionTypeChange?: (type: SelectedObjectType) => void;
     onSelectionPropertiesChange?: (properties: Partial<ToolSettings>) => void;
     onThumbnailReady?: (id: string, dataUrl: string) => void;
+    onCommit?: (label: string, coalesceKey?: string) => void;
+    onZoomChange?: (zoom: number) => void;
+    onTextEditChange?: (edit: TextEditInfo | null) => void;
+    onViewChange?: (view: StageView) => void;
     
     // Selection & Transform State
-    selectedShape: any | null = null; 
+    selection: any[] = []; // Selected shapes of the active layer, the last one is the "primary"
     transformGroup: Two.Group | null = null;
+    marquee = { isActive: false, start: { x: 0, y: 0 }, base: [] as any[], rect: null as Two.Rectangle | null };
     
     // Interaction state
     isInteracting = false;
-    dragOffset = { x: 0, y: 0 };
+    pointer: { x: number, y: number } | null = null; // Last pointer position over the stage (screen pixels), where Paste drops shapes
+    moveState = { isActive: false, start: { x: 0, y: 0 }, origins: new Map<any, { x: number, y: number }>(), box: null as Box | null };
+    transformState = {
+        mode: null as 'scale' | 'rotate' | 'skew' | null,
+        handle: { x: 0, y: 0, ix: 0, iy: 0 } as TransformHandle,
+        box: { left: 0, top: 0, right: 0, bottom: 0, width: 0, height: 0 },
+        start: { x: 0, y: 0 },
+        origins: new Map<any, TransformOrigin>(),
+    };
+    gradientDrag: 'from' | 'to' | null = null; // Which on-canvas gradient handle is being dragged
+    private pendingSettingsEdit: { label: string, coalesceKey: string } | null = null; // Inspector edit not recorded yet
     currentPath: Two.Path | null = null;
+    brushStabilizer: Stabilizer | null = null;
+    brushLastSample: { time: number, factor: number } | null = null; // For the velocity width of variable-width strokes
+
+    // Paint layers: which layers hold pixels, the brush that paints them (from useDraw) and the stroke in progress
+    rasterLayerIds = new Set<string>();
+    paint: ((ctx: CanvasRenderingContext2D, sample: BrushSample, stroke: BrushStroke) => void) | null = null;
+    rasterStroke: { raster: any, stroke: BrushStroke } | null = null;
     
     // Shape Tool State
     tempShape: any | null = null;
+
+    // Spatial index per layer group: boxes of its direct children, refreshed lazily for the ones marked dirty
+    private spatial = new WeakMap<Two.Group, { grid: SpatialGrid<any>, dirty: Set<any> }>();
+
+    // Vector Eraser: the pointer trail (active group space) and the see-through band that shows it
+    eraserSweep: { points: StrokePoint[], preview: Two.Path } | null = null;
     shapeOrigin = { x: 0, y: 0 };
     
     // Pen tool / Path Editing state
@@ -66,6 +210,32 @@ class CanvasEngine {
         container: null as Two.Group | null, // Group to hold shards
     };
     
+    // Artboard: the real picture, with its own pixel size, independent of the window size
+    artboard: CanvasSize = { width: 1920, height: 1080 };
+    artboardRect: Two.Rectangle;
+
+    // Viewport: how the scene is placed on screen. Only changes the view, never the drawing.
+    viewScale = 1; // Zoom: screen pixels per artboard pixel
+    pan = { x: 0, y: 0 }; // Screen offset of the artboard centre from the window centre
+
+    // Tile Mode State (seamless textures)
+    tileMode = false;
+    tilePreview = false;
+    tileGhosts: Two.Group[] = []; // Wrapped copies of each root layer, drawn around the tile
+    tileFrame: Two.Rectangle | null = null;
+    tileDirty = false;
+
+    // Snapping: what things snap to, the guides shown while they do, and the grid drawn over the artboard
+    snap: SnapSettings = { snapping: true, snapToGrid: false, showGrid: false, gridSize: 20, snapToObjects: true, snapToArtboard: true, smartGuides: true, showGuides: true };
+    guides: Guide[] = []; // Ruler guides, drawn by the Stage component; the engine only snaps to them
+    snapGuides: Two.Group | null = null;
+    gridOverlay: Two.Group | null = null;
+
+    // Text being typed into. Its Two.js pieces are hidden while the on-canvas text box is shown.
+    textEdit: { id: number, target: any, isNew: boolean, value: string } | null = null;
+    textEditCount = 0;
+    private handleFontsLoaded = () => this.relayoutAllText();
+
     // Gestures
     lastClickTime: number = 0;
 
@@ -80,6 +250,18 @@ class CanvasEngine {
         // Center the scene origin
         this.two.scene.translation.set(this.two.width / 2, this.two.height / 2);
 
+        // The white sheet we draw on. Added first, so it always stays behind every layer.
+        this.artboardRect = new Two.Rectangle(0, 0, this.artboard.width, this.artboard.height);
+        this.artboardRect.fill = '#FFFFFF';
+        this.artboardRect.noStroke();
+        this.two.scene.add(this.artboardRect);
+        this.zoomToFit();
+
+        // Wrapped copies are rebuilt at most once per frame, and only when something changed
+        this.two.bind('update', () => {
+            if (this.tileDirty) this.refreshTileGhosts();
+        });
+
         // Thumbnail Generator Instance (Hidden)
         const thumbCanvas = document.createElement('canvas');
         this.thumbTwo = new Two({
@@ -94,8 +276,16 @@ class CanvasEngine {
         this.paperScope = new paper.PaperScope();
         const dummyCanvas = document.createElement('canvas');
         this.paperScope.setup(dummyCanvas);
+
+        // Text measured before its web font arrived would be laid out with the fallback font
+        document.fonts?.addEventListener('loadingdone', this.handleFontsLoaded);
     }
     
+    // Single-shape features (Convert to Path, double-click editing) only work when exactly one shape is selected.
+    get selectedShape(): any | null {
+        return this.selection.length === 1 ? this.selection[0] : null;
+    }
+
     // --- Public API for React ---
 
     public setTool(tool: Tool) {
@@ -104,12 +294,13 @@ class CanvasEngine {
         // Cleanup previous tool states
         this.exitBuildMode();
         this.finishPath();
+        this.finishTextEdit();
         
         this.tool = tool;
         this.updateSelectionHandles();
 
-        if (tool === 'select' && this.selectedShape) {
-           this.broadcastSelectionType(this.selectedShape);
+        if (tool === 'select' && this.selection.length > 0) {
+           this.broadcastSelection();
         } else if (tool !== 'select') {
             if (this.onSelectionTypeChange) this.onSelectionTypeChange(null);
         }
@@ -121,6 +312,8 @@ class CanvasEngine {
     }
 
     public setActiveLayerId(id: string | null) {
+        // Selections live inside one layer
+        if (id !== this.activeLayerId) this.setSelection([]);
         this.activeLayerId = id;
         // If we switch layers while in build mode, we need to reset
         if (this.tool === 'shape' && this.settings.shapeMode === 'build') {
@@ -129,6 +322,7 @@ class CanvasEngine {
     }
 
     public setToolSettings(settings: ToolSettings) {
+        const prevSettings = this.settings;
         const prevMode = this.settings?.shapeMode;
         this.settings = settings;
 
@@ -141,9 +335,11 @@ class CanvasEngine {
             }
         }
 
-        // Apply settings to selection (standard logic)
-        if (this.selectedShape) {
-            this.applySettingsToShape(this.selectedShape);
+        // Apply settings to selection (standard logic). The Inspector echoes back what it was told, which changes nothing.
+        const selectionEdits = prevSettings ? editedKeys(prevSettings, settings, [...STYLE_KEYS, ...TRANSFORM_KEYS]) : new Set(STYLE_KEYS);
+        if (this.selectedShape && selectionEdits.size > 0) {
+            const styleKeys = new Set(STYLE_KEYS.filter(key => selectionEdits.has(key)));
+            if (styleKeys.size > 0) this.applySettingsToShape(this.selectedShape, styleKeys);
 
             // Apply transform updates from settings
             let transformChanged = false;
@@ -163,34 +359,77 @@ class CanvasEngine {
                     transformChanged = true;
                 }
             }
-            if (settings.selectionScale !== undefined && this.selectedShape.scale !== settings.selectionScale) {
-                this.selectedShape.scale = settings.selectionScale;
+            const scale = this.getScaleXY(this.selectedShape);
+            const scaleX = settings.selectionScaleX ?? scale.x, scaleY = settings.selectionScaleY ?? scale.y;
+            if (Math.abs(scaleX - scale.x) > 0.0001 || Math.abs(scaleY - scale.y) > 0.0001) {
+                this.setScaleXY(this.selectedShape, scaleX, scaleY);
+                transformChanged = true;
+            }
+            const skewX = settings.selectionSkewX !== undefined ? (settings.selectionSkewX * Math.PI) / 180 : this.selectedShape.skewX;
+            const skewY = settings.selectionSkewY !== undefined ? (settings.selectionSkewY * Math.PI) / 180 : this.selectedShape.skewY;
+            if (Math.abs(this.selectedShape.skewX - skewX) > 0.0001 || Math.abs(this.selectedShape.skewY - skewY) > 0.0001) {
+                this.selectedShape.skewX = skewX;
+                this.selectedShape.skewY = skewY;
                 transformChanged = true;
             }
 
             if (transformChanged) {
                 this.updateSelectionHandles();
             }
+            if (prevSettings) this.queueSettingsEdit('Edit Selection', `selection-${this.selectedShape.id}`);
+        } else if (this.selection.length > 1 && prevSettings) {
+            this.applySettingsToSelection(prevSettings, settings);
         }
 
         // Real-time update for pen path
-        if (this.penPath) {
-            this.applySettingsToShape(this.penPath);
+        const penEdits = prevSettings ? editedKeys(prevSettings, settings, STYLE_KEYS) : new Set(STYLE_KEYS);
+        if (this.penPath && (penEdits.size > 0 || this.penPath.closed !== settings.penClosePath)) {
+            this.applySettingsToShape(this.penPath, penEdits);
             this.penPath.closed = this.settings.penClosePath;
+            this.queueSettingsEdit('Edit Path', `pen-${this.penPath.id}`);
         }
     }
 
+    private queueSettingsEdit(label: string, coalesceKey: string) {
+        this.pendingSettingsEdit = { label, coalesceKey };
+        this.markTileDirty();
+    }
+
+    /**
+     * Inspector edits change the drawing straight away, but are only recorded once the slider drag, colour pick
+     * or key press making them is over; the Stage calls this then. A snapshot per slider tick would save the
+     * whole document on every pointer move.
+     */
+    public flushSettingsEdit() {
+        const edit = this.pendingSettingsEdit;
+        if (edit) this.commit(edit.label, edit.coalesceKey);
+    }
+
     public setCallbacks(callbacks: any) {
         this.onToolChange = callbacks.onToolChange;
         this.onAnchorSelect = callbacks.onAnchorSelect;
         this.onSelectionTypeChange = callbacks.onSelectionTypeChange;
         this.onSelectionPropertiesChange = callbacks.onSelectionPropertiesChange;
         this.onThumbnailReady = callbacks.onThumbnailReady;
+        this.onCommit = callbacks.onCommit;
+        this.onZoomChange = callbacks.onZoomChange;
+        // The engine may have zoomed before anyone was listening
+        if (this.onZoomChange) this.onZoomChange(this.viewScale);
+    }
+
+    // Tell the app that the document changed, so it can add an undo step.
+    private commit(label: string, coalesceKey?: string) {
+        this.pendingSettingsEdit = null; // Any snapshot includes it
+        this.markTileDirty();
+        // Whatever an edit can move or reshape without adding or removing it
+        this.touch(...this.selection, this.penPath, this.textEdit?.target);
+        if (this.onCommit) this.onCommit(label, coalesceKey);
     }
     
     // Recursive layer update to handle groups
     public updateLayers(layers: Layer[]) {
         const activeIds = new Set<string>();
+        this.rasterLayerIds.clear();
 
         const processLayer = (layer: Layer, parent: Two.Group | Two.Scene) => {
             activeIds.add(layer.id);
@@ -247,6 +486,12 @@ class CanvasEngine {
                 group.scale = layer.scale;
                 group.rotation = (layer.rotation * Math.PI) / 180;
 
+                // Paint layers always have their pixel surface, even before the first stroke
+                if (layer.type === 'raster') {
+                    this.rasterLayerIds.add(layer.id);
+                    this.ensureRaster(group);
+                }
+
                 // Sync Children
                 if (layer.children) {
                     syncOrder(layer.children, group);
@@ -273,6 +518,15 @@ class CanvasEngine {
             this.two.scene.remove(this.penHelpers);
             this.two.scene.add(this.penHelpers);
         }
+        if (this.tileFrame) {
+            this.two.scene.remove(this.tileFrame);
+            this.two.scene.add(this.tileFrame);
+        }
+        if (this.gridOverlay) {
+            this.two.scene.remove(this.gridOverlay);
+            this.two.scene.add(this.gridOverlay);
+        }
+        this.markTileDirty();
     }
 
     public generateThumbnail(layerId: string) {
@@ -287,6 +541,25 @@ class CanvasEngine {
         clone.scale = 1;
         clone.rotation = 0;
         
+        const dataUrl = this.renderThumbnail(clone);
+        
+        if (this.onThumbnailReady) {
+            this.onThumbnailReady(layerId, dataUrl);
+        }
+    }
+
+    // Same idea as a layer thumbnail, but for the whole picture (used by autosave's recovery list).
+    // Root layers keep their own transforms so the preview matches what is on the stage.
+    public generateSceneThumbnail(): string {
+        const container = new Two.Group();
+        this.groups.forEach(group => {
+            if (group.parent === this.two.scene) container.add((group as any).clone());
+        });
+        return this.renderThumbnail(container);
+    }
+
+    // Fits a detached object into the hidden thumbnail canvas and returns it as a PNG data URL.
+    private renderThumbnail(clone: any): string {
         // Setup thumb scene
         this.thumbTwo.clear();
         this.thumbTwo.add(clone);
@@ -315,16 +588,13 @@ class CanvasEngine {
         }
         
         this.thumbTwo.render();
-        const dataUrl = this.thumbTwo.renderer.domElement.toDataURL('image/png', 0.5);
-        
-        if (this.onThumbnailReady) {
-            this.onThumbnailReady(layerId, dataUrl);
-        }
+        return this.thumbTwo.renderer.domElement.toDataURL('image/png', 0.5);
     }
 
     // --- Core Methods ---
     
     public destroy() {
+        document.fonts?.removeEventListener('loadingdone', this.handleFontsLoaded);
         this.two.pause();
         if (this.two.renderer.domElement) {
             this.two.renderer.domElement.remove();
@@ -339,8 +609,98 @@ class CanvasEngine {
         this.two.width = width;
         this.two.height = height;
         this.two.renderer.setSize(width, height);
-        // Keep scene centered on resize
-        this.two.scene.translation.set(width / 2, height / 2);
+        // Keep the same zoom, and keep the artboard where it was relative to the window centre
+        this.applyView();
+    }
+
+    // --- Viewport (Zoom & Pan) ---
+
+    // Pushes zoom and pan onto the scene, and redraws everything that is sized in screen pixels.
+    private applyView() {
+        this.two.scene.translation.set(this.two.width / 2 + this.pan.x, this.two.height / 2 + this.pan.y);
+        this.two.scene.scale = this.viewScale;
+        this.updateSelectionHandles();
+        this.updatePenHelpers();
+        this.updateTileFrame();
+        this.updateGridOverlay();
+        this.notifyTextEdit();
+        if (this.onZoomChange) this.onZoomChange(this.viewScale);
+        if (this.onViewChange) this.onViewChange(this.getView());
+    }
+
+    public getView(): StageView {
+        return {
+            scale: this.viewScale, panX: this.pan.x, panY: this.pan.y,
+            width: this.two.width, height: this.two.height,
+            artboardWidth: this.artboard.width, artboardHeight: this.artboard.height,
+        };
+    }
+
+    private clampZoom(zoom: number) {
+        return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+    }
+
+    // Zooms so a scene-space box fills the window (minus a margin), centred.
+    private fitBox(left: number, top: number, width: number, height: number) {
+        const availableWidth = Math.max(1, this.two.width - ARTBOARD_MARGIN * 2);
+        const availableHeight = Math.max(1, this.two.height - ARTBOARD_MARGIN * 2);
+        this.viewScale = this.clampZoom(Math.min(availableWidth / Math.max(1, width), availableHeight / Math.max(1, height)));
+        this.pan = {
+            x: -(left + width / 2) * this.viewScale,
+            y: -(top + height / 2) * this.viewScale,
+        };
+        this.applyView();
+    }
+
+    // Shows the whole artboard (or the whole 3x3 tile preview).
+    public zoomToFit() {
+        const repeat = this.tilePreview ? 3 : 1;
+        const width = this.artboard.width * repeat, height = this.artboard.height * repeat;
+        this.fitBox(-width / 2, -height / 2, width, height);
+    }
+
+    // Fills the window with the selected shapes (or the path being edited). Does nothing without a selection.
+    public zoomToSelection() {
+        const targets = this.selection.length > 0 ? this.selection : (this.penPath ? [this.penPath] : []);
+        if (targets.length === 0) return;
+        // World bounds are in canvas pixels, turn them back into scene units
+        const bounds = this.unionBounds(targets.map(shape => shape.getBoundingClientRect()));
+        const topLeft = this.toScene(bounds.left, bounds.top);
+        const bottomRight = this.toScene(bounds.right, bounds.bottom);
+        this.fitBox(topLeft.x, topLeft.y, bottomRight.x - topLeft.x, bottomRight.y - topLeft.y);
+    }
+
+    // Zooms while keeping one screen point (the cursor, or the window centre) pinned in place.
+    public setZoom(zoom: number, rawX = this.two.width / 2, rawY = this.two.height / 2) {
+        const anchor = this.toScene(rawX, rawY);
+        this.viewScale = this.clampZoom(zoom);
+        this.pan = {
+            x: rawX - this.two.width / 2 - anchor.x * this.viewScale,
+            y: rawY - this.two.height / 2 - anchor.y * this.viewScale,
+        };
+        this.applyView();
+    }
+
+    public zoomBy(factor: number, rawX?: number, rawY?: number) {
+        this.setZoom(this.viewScale * factor, rawX, rawY);
+    }
+
+    public panBy(dx: number, dy: number) {
+        this.pan = { x: this.pan.x + dx, y: this.pan.y + dy };
+        this.applyView();
+    }
+
+    // Converts a size in screen pixels to scene units, so handles look the same at every zoom.
+    private px(screenPixels: number) {
+        return screenPixels / this.viewScale;
+    }
+
+    // Screen (canvas pixel) coordinates to scene coordinates: pan and zoom undone.
+    private toScene(rawX: number, rawY: number) {
+        return {
+            x: (rawX - this.two.width / 2 - this.pan.x) / this.viewScale,
+            y: (rawY - this.two.height / 2 - this.pan.y) / this.viewScale,
+        };
     }
     
     public finishPath() {
@@ -363,6 +723,7 @@ class CanvasEngine {
              this.updateAnchorSelection(newIdx);
              this.updatePenHelpers();
         }
+        this.commit('Delete Anchor');
     }
 
     public setAnchorSharp() {
@@ -371,11 +732,74 @@ class CanvasEngine {
         v.controls.left.clear();
         v.controls.right.clear();
         this.updatePenHelpers();
+        this.commit('Sharpen Anchor');
     }
 
     public setPathClosed(closed: boolean) {
         if (!this.penPath) return;
         this.penPath.closed = closed;
+        this.commit(closed ? 'Close Path' : 'Open Path');
+    }
+
+    // --- Keyboard Editing ---
+    // Each returns false when there was nothing to act on, so the key can do its usual job instead.
+
+    public deleteSelection() {
+        return this.removeSelection('Delete');
+    }
+
+    private removeSelection(label: string) {
+        if (this.selection.length === 0) return false;
+        this.selection.forEach(shape => shape.remove());
+        this.setSelection([]);
+        if (this.activeLayerId) this.generateThumbnail(this.activeLayerId);
+        this.commit(label);
+        return true;
+    }
+
+    // Stops the path being drawn, or else drops the selection
+    public deselect() {
+        if (this.penPath) { this.finishPath(); return true; }
+        if (this.selection.length === 0) return false;
+        this.setSelection([]);
+        return true;
+    }
+
+    // Moves the selection by a distance in scene units, whatever the layer's own scale and rotation
+    private moveSelectionInScene(dx: number, dy: number) {
+        this.selection.forEach(shape => {
+            const origin = this.sceneToLayer(shape.parent, 0, 0), moved = this.sceneToLayer(shape.parent, dx, dy);
+            shape.translation.set(shape.translation.x + moved.x - origin.x, shape.translation.y + moved.y - origin.y);
+        });
+        this.updateSelectionHandles();
+        this.broadcastSelection();
+        if (this.activeLayerId) this.generateThumbnail(this.activeLayerId);
+    }
+
+    public nudgeSelection(dx: number, dy: number) {
+        if (this.selection.length === 0) return false;
+        this.moveSelectionInScene(dx, dy);
+        // Holding an arrow key down is one undo step
+        this.commit('Nudge', `nudge-${this.selection.map(shape => shape.id).join(',')}`);
+        return true;
+    }
+
+    // Copies the selected shapes on top of their layer, a little down and to the right, and selects the copies
+    public duplicateSelection() {
+        if (this.selection.length === 0) return false;
+        const include = (child: any) => this.isContentNode(child);
+        const copies = this.selection.map(shape => {
+            const node = serializeNode(shape, include);
+            if (!node) return null;
+            const copy = deserializeNode(node);
+            shape.parent.add(copy);
+            return copy;
+        }).filter(copy => copy !== null);
+        if (copies.length === 0) return false;
+        this.selection = copies;
+        this.moveSelectionInScene(DUPLICATE_OFFSET, DUPLICATE_OFFSET);
+        this.commit('Duplicate');
+        return true;
     }
 
     public duplicateLayerContent(originalId: string, newId: string) {
@@ -383,11 +807,453 @@ class CanvasEngine {
         if (!originalGroup) return;
         const newGroup = (originalGroup as any).clone();
         newGroup.id = newId;
+        this.replaceClonedPixels(originalGroup, newGroup);
         this.groups.set(newId, newGroup);
         // Parent logic handled in next updateLayers call, but for immediate consistency:
         if (originalGroup.parent) originalGroup.parent.add(newGroup);
     }
+
+    // A plain clone would share the pixel canvas (so both layers would paint onto the same pixels) and forget which rectangles are photos
+    private replaceClonedPixels(original: any, clone: any) {
+        original.children.forEach((child: any, index: number) => {
+            const copy = isRasterObject(child) ? cloneRaster(child) : isImageObject(child) ? cloneImage(child) : null;
+            if (!copy) {
+                if (child instanceof Two.Group && clone.children[index]) this.replaceClonedPixels(child, clone.children[index]);
+                return;
+            }
+            clone.children[index].remove();
+            clone.children.splice(index, 0, copy);
+            copy.parent = clone;
+        });
+    }
     
+    // --- Clipboard ---
+
+    // The opposite of sceneToLayer: a point in a layer's own space, back in scene space
+    private layerToScene(group: any, x: number, y: number) {
+        let point = { x, y };
+        for (let node = group; node && node !== this.two.scene; node = node.parent) point = this.fromLocal(node, point.x, point.y);
+        return point;
+    }
+
+    // One box around some objects, in scene space, or null when there is nothing to see
+    private sceneBoxOf(objects: any[]): Box | null {
+        const boxes = objects
+            .map(object => ({ object, box: object.getBoundingClientRect(true) }))
+            .filter(({ box }) => [box.left, box.top, box.right, box.bottom].every(Number.isFinite))
+            .map(({ object, box }) => this.convertBox(box, (x, y) => this.layerToScene(object.parent, x, y)));
+        return boxes.length > 0 ? this.unionBounds(boxes) : null;
+    }
+
+    public copySelection(): ClipboardShapes | null {
+        const include = (child: any) => this.isContentNode(child);
+        const nodes = this.selection
+            .map(shape => serializeNode(shape, include))
+            .filter((node: SerializedNode | null): node is SerializedNode => node !== null);
+        const bounds = this.sceneBoxOf(this.selection);
+        if (nodes.length === 0 || !bounds) return null;
+        return { kind: 'shapes', nodes, bounds: { left: bounds.left, top: bounds.top, right: bounds.right, bottom: bounds.bottom } };
+    }
+
+    public cutSelection(): ClipboardShapes | null {
+        const clip = this.copySelection();
+        if (clip) this.removeSelection('Cut');
+        return clip;
+    }
+
+    /**
+     * Adds copied shapes to the active layer and selects them. They are centred under the pointer,
+     * or the middle of the view when the pointer is elsewhere, unless they go back in place.
+     */
+    public pasteShapes(clip: ClipboardShapes, placement: PastePlacement) {
+        if (!this.activeLayerId) return false;
+        const group = this.groups.get(this.activeLayerId);
+        if (!group) return false;
+        this.finishTextEdit();
+        this.finishPath();
+
+        const layerId = this.activeLayerId;
+        const copies = clip.nodes.map(node => deserializeNode(node, () => this.generateThumbnail(layerId)));
+        copies.forEach(copy => group.add(copy));
+        this.setSelection(copies);
+
+        const box = this.sceneBoxOf(copies);
+        if (box) {
+            const target = placement === 'in-place'
+                ? { x: (clip.bounds.left + clip.bounds.right) / 2, y: (clip.bounds.top + clip.bounds.bottom) / 2 }
+                : this.toScene(this.pointer?.x ?? this.two.width / 2, this.pointer?.y ?? this.two.height / 2);
+            this.moveSelectionInScene(target.x - (box.left + box.right) / 2, target.y - (box.top + box.bottom) / 2);
+        }
+        if (this.tool !== 'select' && this.onToolChange) this.onToolChange('select');
+        this.generateThumbnail(layerId);
+        this.commit('Paste');
+        return true;
+    }
+
+    /**
+     * Shapes from an SVG made elsewhere, ready to paste. The SVG's top-left corner
+     * is the artboard's, so pasting in place puts it where it sat in its own picture.
+     */
+    public readSvgShapes(svg: SVGSVGElement): ClipboardShapes | null {
+        const group = interpretSvg(this.paperScope, svg);
+        if (!group) return null;
+        group.translation.set(group.translation.x - this.artboard.width / 2, group.translation.y - this.artboard.height / 2);
+        const node = serializeNode(group);
+        const box = group.getBoundingClientRect(true);
+        if (!node || ![box.left, box.top, box.right, box.bottom].every(Number.isFinite)) return null;
+        return { kind: 'shapes', nodes: [node], bounds: { left: box.left, top: box.top, right: box.right, bottom: box.bottom } };
+    }
+
+    // An SVG file as new layers. 'in-place' lines its 0,0 up with the artboard's corner, like readSvgShapes places
+    // pasted SVG; 'cursor' centres the drawing under the pointer (or in the view).
+    public importSvgLayers(svg: SVGSVGElement, name: string, placement: PastePlacement): ClipboardLayers | null {
+        if (placement === 'in-place') return svgToLayers(this.paperScope, svg, name, { x: -this.artboard.width / 2, y: -this.artboard.height / 2 });
+        const target = this.toScene(this.pointer?.x ?? this.two.width / 2, this.pointer?.y ?? this.two.height / 2);
+        return svgToLayers(this.paperScope, svg, name, target, true);
+    }
+
+    // Shapes for layers that don't exist yet; the next updateLayers call puts them in the tree
+    public addLayerContent(content: Record<string, SerializedNode[]>) {
+        Object.entries(content).forEach(([layerId, nodes]) => {
+            const group = new Two.Group();
+            group.id = layerId;
+            nodes.forEach(node => group.add(deserializeNode(node, () => this.generateThumbnail(layerId))));
+            this.groups.set(layerId, group);
+            this.generateThumbnail(layerId);
+        });
+    }
+
+    // Stand-ins for the layer groups around an object, so a copy of it lands where the original is on the artboard
+    private wrapInLayers(copy: any, parent: any) {
+        let wrapped = copy;
+        for (let node = parent; node && node !== this.two.scene; node = node.parent) {
+            const wrapper = new Two.Group();
+            wrapper.translation.copy(node.translation);
+            wrapper.rotation = node.rotation;
+            wrapper.scale = node.scale;
+            wrapper.opacity = node.opacity;
+            wrapper.add(wrapped);
+            wrapped = wrapper;
+        }
+        return wrapped;
+    }
+
+    /**
+     * The selection (or a whole layer) drawn as SVG markup and a PNG data URL, cropped to its box,
+     * for other apps to paste. Null when there is nothing visible to draw.
+     */
+    public renderClipboardImages(layerId?: string): { svg: string, png: string } | null {
+        const layer = layerId ? this.groups.get(layerId) : null;
+        const objects = layer ? [layer] : this.selection;
+        const box = this.sceneBoxOf(objects);
+        if (!box) return null;
+        const width = Math.max(1, Math.ceil(box.right - box.left)), height = Math.max(1, Math.ceil(box.bottom - box.top));
+
+        const host = document.createElement('div');
+        const svgTwo = new Two({ type: Two.Types.svg, width, height }).appendTo(host);
+        svgTwo.scene.translation.set(-box.left, -box.top);
+        const embedImages = objects.map(object => {
+            const clone = object.clone();
+            copyPaintsForExport(object, clone); // SVG needs its own gradients with real stop opacity
+            svgTwo.add(this.wrapInLayers(clone, object.parent));
+            return embedImagesForSvg(object, clone);
+        });
+        svgTwo.update();
+        embedImages.forEach(embed => embed());
+        const svgElem = host.querySelector('svg');
+        if (!svgElem) return null;
+        svgElem.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+        svgElem.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+        const pngTwo = new Two({ type: Two.Types.canvas, width, height, ratio: 1, domElement: document.createElement('canvas'), autostart: false });
+        pngTwo.scene.translation.set(-box.left, -box.top);
+        objects.forEach(object => {
+            const clone = this.cloneForTile(object);
+            if (clone) pngTwo.add(this.wrapInLayers(clone, object.parent));
+        });
+        pngTwo.render();
+        return { svg: svgElem.outerHTML, png: pngTwo.renderer.domElement.toDataURL('image/png') };
+    }
+
+    // --- Placed Images ---
+
+    /**
+     * Puts a photo on the active layer and selects it, ready to move, scale and turn. Photos bigger than
+     * the artboard are shrunk to fit. 'cursor' centres it under the pointer (or in the view), 'in-place'
+     * on the artboard.
+     */
+    public placeImage(source: ImageSource, placement: PastePlacement) {
+        if (!this.activeLayerId) return false;
+        const group = this.groups.get(this.activeLayerId);
+        if (!group) return false;
+        this.finishTextEdit();
+        this.finishPath();
+
+        const layerId = this.activeLayerId;
+        const image = createImageObject(addImageAsset(source.src), source, () => this.generateThumbnail(layerId));
+        image.scale = Math.min(1, this.artboard.width / source.width, this.artboard.height / source.height);
+        group.add(image);
+        this.setSelection([image]);
+
+        const box = this.sceneBoxOf([image]);
+        if (box) {
+            const target = placement === 'in-place'
+                ? { x: 0, y: 0 }
+                : this.toScene(this.pointer?.x ?? this.two.width / 2, this.pointer?.y ?? this.two.height / 2);
+            this.moveSelectionInScene(target.x - (box.left + box.right) / 2, target.y - (box.top + box.bottom) / 2);
+        }
+        if (this.tool !== 'select' && this.onToolChange) this.onToolChange('select');
+        this.commit('Place Image');
+        return true;
+    }
+
+    // --- Document (Save / Open) ---
+
+    public getCanvasSize(): CanvasSize {
+        return { ...this.artboard };
+    }
+
+    // Only real drawing goes into a document: nested layer groups, build-mode ghosts and in-progress shapes are skipped.
+    private isContentNode(child: any): boolean {
+        if (this.groups.get(child.id) === child) return false;
+        if (child === this.buildState.container || child === this.buildState.lassoPath) return false;
+        if (child === this.tempShape) return false;
+        if (child === this.eraserSweep?.preview) return false;
+        return true;
+    }
+
+    public serializeContent(): Record<string, SerializedNode[]> {
+        const content: Record<string, SerializedNode[]> = {};
+        const include = (child: any) => this.isContentNode(child);
+        this.groups.forEach((group, id) => {
+            content[id] = group.children
+                .filter(include)
+                .map((child: any) => serializeNode(child, include))
+                .filter((node: SerializedNode | null): node is SerializedNode => node !== null);
+        });
+        return content;
+    }
+
+    // Throws away the current scene and rebuilds every layer's shapes from a document.
+    // The layer groups are re-attached to their parents by the next updateLayers call.
+    public loadContent(content: Record<string, SerializedNode[]>) {
+        this.exitBuildMode();
+        this.finishPath();
+        this.setSelection([]);
+        if (this.textEdit) { this.textEdit = null; this.notifyTextEdit(); }
+
+        this.groups.forEach(group => group.remove());
+        this.groups.clear();
+
+        Object.entries(content).forEach(([layerId, nodes]) => {
+            const group = new Two.Group();
+            group.id = layerId;
+            // Painted pixels arrive a moment later, the thumbnail is redrawn once they do
+            const onRasterLoad = () => { this.generateThumbnail(layerId); this.markTileDirty(); };
+            nodes.forEach(node => group.add(deserializeNode(node, onRasterLoad)));
+            this.groups.set(layerId, group);
+        });
+
+        Object.keys(content).forEach(layerId => this.generateThumbnail(layerId));
+        this.markTileDirty();
+    }
+
+    // --- Tile Mode (Seamless Textures) ---
+
+    // The tile is the artboard, centred on the scene origin.
+    public getTileSize(): CanvasSize {
+        return this.getCanvasSize();
+    }
+
+    public setCanvasSettings(settings: CanvasSettings) {
+        const tilePreview = settings.tileMode && settings.tilePreview;
+        const artboardChanged = settings.artboardWidth !== this.artboard.width || settings.artboardHeight !== this.artboard.height;
+        const previewChanged = tilePreview !== this.tilePreview;
+        this.tileMode = settings.tileMode;
+        this.tilePreview = tilePreview;
+        const { snapping, snapToGrid, showGrid, gridSize, snapToObjects, snapToArtboard, smartGuides, showGuides } = settings;
+        this.snap = { snapping, snapToGrid, showGrid, gridSize, snapToObjects, snapToArtboard, smartGuides, showGuides };
+
+        if (artboardChanged) {
+            this.artboard = { width: settings.artboardWidth, height: settings.artboardHeight };
+            this.artboardRect.width = this.artboard.width;
+            this.artboardRect.height = this.artboard.height;
+            // Paint layers get the new pixel size too, keeping their pixels centred
+            this.groups.forEach(group => group.children.forEach((child: any) => {
+                if (isRasterObject(child)) resizeRaster(child, this.artboard.width, this.artboard.height);
+            }));
+        }
+
+        // A new artboard size or the 3x3 preview needs a fresh view, otherwise the user's zoom is kept
+        if (artboardChanged || previewChanged) this.zoomToFit();
+        else { this.updateTileFrame(); this.updateGridOverlay(); }
+
+        if (this.tileMode) {
+            this.tileDirty = true;
+        } else {
+            this.clearTileGhosts();
+        }
+    }
+
+    private markTileDirty() {
+        if (this.tileMode) this.tileDirty = true;
+    }
+
+    // The 8 neighbours of the centre tile, as offsets in scene space.
+    private tileOffsets(): { x: number, y: number }[] {
+        const { width, height } = this.getTileSize();
+        const offsets: { x: number, y: number }[] = [];
+        for (let row = -1; row <= 1; row++) {
+            for (let col = -1; col <= 1; col++) {
+                if (row !== 0 || col !== 0) offsets.push({ x: col * width, y: row * height });
+            }
+        }
+        return offsets;
+    }
+
+    // Like group.clone(), but keeps visibility and blend modes, and leaves build-mode ghosts behind.
+    private cloneForTile(node: any): any | null {
+        if (!node.visible) return null;
+        if (node === this.buildState.container) return null;
+        if (isImageObject(node)) return cloneImage(node);
+        if (!(node instanceof Two.Group)) return node.clone();
+
+        const clone = new Two.Group();
+        node.children.forEach((child: any) => {
+            const childClone = this.cloneForTile(child);
+            if (childClone) clone.add(childClone);
+        });
+        clone.translation.copy(node.translation);
+        clone.rotation = node.rotation;
+        clone.scale = node.scale;
+        clone.skewX = node.skewX;
+        clone.skewY = node.skewY;
+        clone.opacity = node.opacity;
+        (clone as any).blendMode = (node as any).blendMode;
+        return clone;
+    }
+
+    // Wraps one root layer: 8 copies of it, one in every neighbouring tile.
+    // Without the 3x3 preview the copies are cut to the artboard, so only the wrapped-in parts show.
+    private makeTileGhost(group: Two.Group, offsets: { x: number, y: number }[]): Two.Group | null {
+        const ghost = new Two.Group();
+        if (!this.tilePreview) ghost.mask = new Two.Rectangle(0, 0, this.artboard.width, this.artboard.height);
+        offsets.forEach(offset => {
+            const clone = this.cloneForTile(group);
+            if (!clone) return;
+            const shifted = new Two.Group();
+            shifted.translation.set(offset.x, offset.y);
+            shifted.add(clone);
+            ghost.add(shifted);
+        });
+        return ghost.children.length > 0 ? ghost : null;
+    }
+
+    private clearTileGhosts() {
+        this.tileGhosts.forEach(ghost => ghost.remove());
+        this.tileGhosts = [];
+        this.tileDirty = false;
+    }
+
+    // Re-creates the wrapped copies. Each layer's copies sit right above that layer,
+    // so a shape poking out of one edge shows up on the opposite edge in the right stacking order.
+    private refreshTileGhosts() {
+        this.clearTileGhosts();
+        if (!this.tileMode) return;
+
+        const offsets = this.tileOffsets();
+        const scene = this.two.scene;
+        const roots = Array.from(scene.children).filter((child: any) => this.groups.get(child.id) === child);
+        roots.forEach((group: any) => {
+            const ghost = this.makeTileGhost(group, offsets);
+            if (!ghost) return;
+            scene.children.splice(scene.children.indexOf(group) + 1, 0, ghost);
+            this.tileGhosts.push(ghost);
+        });
+    }
+
+    // Dashed outline of the real tile, only shown in the 3x3 preview.
+    private updateTileFrame() {
+        if (this.tileFrame) {
+            this.tileFrame.remove();
+            this.tileFrame = null;
+        }
+        if (!this.tilePreview) return;
+
+        const { width, height } = this.getTileSize();
+        const frame = new Two.Rectangle(0, 0, width, height);
+        frame.noFill();
+        frame.stroke = '#1565C0';
+        frame.linewidth = this.px(1);
+        frame.dashes = [this.px(6), this.px(6)];
+        this.tileFrame = frame;
+        this.two.scene.add(frame);
+    }
+
+    // Renders the artboard at its real pixel size, whatever the window size is.
+    // In tile mode every edge is wrapped, so the picture repeats without seams.
+    public renderImage(): string {
+        const { width, height } = this.artboard;
+        const imageTwo = new Two({
+            type: Two.Types.canvas,
+            width,
+            height,
+            ratio: 1, // One image pixel per artboard pixel, even on high-density screens
+            domElement: document.createElement('canvas'),
+            autostart: false,
+        });
+        imageTwo.scene.translation.set(width / 2, height / 2);
+
+        // The centre copy plus (in tile mode) its 8 neighbours, layer by layer so stacking stays correct
+        const offsets = this.tileMode ? [{ x: 0, y: 0 }, ...this.tileOffsets()] : [{ x: 0, y: 0 }];
+        this.two.scene.children.forEach((child: any) => {
+            if (this.groups.get(child.id) !== child) return;
+            offsets.forEach(offset => {
+                const clone = this.cloneForTile(child);
+                if (!clone) return;
+                const shifted = new Two.Group();
+                shifted.translation.set(offset.x, offset.y);
+                shifted.add(clone);
+                imageTwo.add(shifted);
+            });
+        });
+
+        imageTwo.render();
+        return imageTwo.renderer.domElement.toDataURL('image/png');
+    }
+
+    // The artboard as an SVG file's text. Only root layers are copied: nested layers are already inside their parent's copy.
+    public renderSvg(): string | null {
+        const { width, height } = this.artboard;
+        const holder = document.createElement('div');
+        const svgTwo = new Two({ type: Two.Types.svg, width, height }).appendTo(holder);
+        svgTwo.scene.translation.set(width / 2, height / 2); // Artboard centre is the scene origin
+        const embedImages: (() => void)[] = [];
+        this.two.scene.children.forEach((child: any) => {
+            if (this.groups.get(child.id) !== child || !child.visible) return;
+            const clone = child.clone();
+            this.matchClone(child, clone);
+            copyPaintsForExport(child, clone); // SVG needs its own gradients with real stop opacity
+            embedImages.push(embedImagesForSvg(child, clone)); // Photos become <image> tags
+            svgTwo.add(clone);
+        });
+        svgTwo.update();
+        embedImages.forEach(embed => embed());
+        const svgElem = holder.querySelector('svg');
+        if (!svgElem) return null;
+        svgElem.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+        return svgElem.outerHTML;
+    }
+
+    // Two.js' clone() leaves out visibility (and a group's skew), so hidden layers and shapes would show up in the copy
+    private matchClone(source: any, clone: any) {
+        clone.visible = source.visible;
+        clone.skewX = source.skewX;
+        clone.skewY = source.skewY;
+        if (!source.children || !clone.children) return;
+        for (let i = 0; i < source.children.length && i < clone.children.length; i++) this.matchClone(source.children[i], clone.children[i]);
+    }
+
     // --- Shape Builder (Build Mode) Logic ---
 
     // Recursive helper to collect all shapes in a group tree and map them to a common coordinate space (Active Group Space)
@@ -403,6 +1269,8 @@ class CanvasEngine {
             // Safety: Skip our own UI elements
             if (child === this.buildState.container) return;
             if (child === this.buildState.lassoPath) return;
+            // Live text stays out of the builder, trace it into a path first. Painted pixels and photos have no outline at all.
+            if (isTextObject(child) || isRasterObject(child) || isImageObject(child)) return;
 
             if (child instanceof Two.Group) {
                 // For a group, we need to append its transform to the stack so its children 
@@ -531,8 +1399,8 @@ class CanvasEngine {
         // Setup Lasso
         this.buildState.lassoPath = new Two.Path([], false, false);
         this.buildState.lassoPath.stroke = this.settings.buildMode === 'add' ? '#1E8E3E' : '#C5221F';
-        this.buildState.lassoPath.linewidth = 2;
-        this.buildState.lassoPath.dashes = [5, 5];
+        this.buildState.lassoPath.linewidth = this.px(2);
+        this.buildState.lassoPath.dashes = [this.px(5), this.px(5)];
         this.buildState.lassoPath.noFill();
         this.buildState.container.add(this.buildState.lassoPath); // Add to container so it moves with group
     }
@@ -622,6 +1490,7 @@ class CanvasEngine {
                 newPath.fill = this.settings.fillEnabled ? this.settings.fillColor : 'transparent';
                 newPath.stroke = this.settings.strokeEnabled ? this.settings.strokeColor : 'black';
                 newPath.linewidth = this.settings.strokeWidth;
+                this.applyGradientSettings(newPath);
             }
         });
         
@@ -632,6 +1501,7 @@ class CanvasEngine {
                  newPath.fill = this.settings.fillEnabled ? this.settings.fillColor : 'transparent';
                  newPath.stroke = this.settings.strokeEnabled ? this.settings.strokeColor : 'black';
                  newPath.linewidth = this.settings.strokeWidth;
+                 this.applyGradientSettings(newPath);
              }
         }
         
@@ -647,109 +1517,990 @@ class CanvasEngine {
 
     // --- Helper Methods ---
 
-    applySettingsToShape(shape: any) {
-        shape.stroke = this.settings.strokeEnabled ? this.settings.strokeColor : 'transparent';
-        shape.linewidth = this.settings.strokeWidth;
-        shape.fill = this.settings.fillEnabled ? this.settings.fillColor : 'transparent';
-        if ('cap' in shape) (shape as any).cap = this.settings.lineCap;
-        if ('join' in shape) (shape as any).join = this.settings.lineJoin;
+    // Copies the tool settings onto a shape. Pass `keys` to copy only some of them (e.g. only what was just edited).
+    applySettingsToShape(shape: any, keys?: Set<keyof ToolSettings>) {
+        const has = (...names: (keyof ToolSettings)[]) => !keys || names.some(name => keys.has(name));
+        // A photo has no paint of its own, only how strongly it shows and how it blends
+        if (isImageObject(shape)) {
+            if (has('selectionOpacity') && this.settings.selectionOpacity !== undefined) shape.opacity = this.settings.selectionOpacity;
+            if (has('selectionBlendMode') && this.settings.selectionBlendMode) setImageBlendMode(shape, this.settings.selectionBlendMode);
+            this.updateSelectionHandles();
+            return;
+        }
+        // A gradient, when set, wins over the solid colour
+        if (has('strokeEnabled', 'strokeColor', 'strokeGradient')) {
+            applyGradient(shape, 'stroke', this.settings.strokeEnabled ? this.settings.strokeGradient : null, this.settings.strokeEnabled ? this.settings.strokeColor : 'transparent');
+        }
+        if (has('strokeWidth')) shape.linewidth = this.settings.strokeWidth;
+        if (has('fillEnabled', 'fillColor', 'fillGradient')) {
+            applyGradient(shape, 'fill', this.settings.fillEnabled ? this.settings.fillGradient : null, this.settings.fillEnabled ? this.settings.fillColor : 'transparent');
+        }
+        if ('cap' in shape && has('lineCap')) (shape as any).cap = this.settings.lineCap;
+        if ('join' in shape && has('lineJoin')) (shape as any).join = this.settings.lineJoin;
 
         // Parametric updates
-        if (shape instanceof Two.Star) {
+        if (shape instanceof Two.Star && has('starPoints', 'starInnerRadius')) {
             shape.sides = this.settings.starPoints;
             shape.innerRadius = shape.outerRadius * this.settings.starInnerRadius;
         }
-        if (shape instanceof Two.Polygon) shape.sides = this.settings.polygonSides;
+        if (shape instanceof Two.Polygon && has('polygonSides')) shape.sides = this.settings.polygonSides;
         
-        if (shape._isRoundedRect && shape._cornerRadius !== this.settings.cornerRadius) {
+        if (shape._isRoundedRect && has('cornerRadius') && shape._cornerRadius !== this.settings.cornerRadius) {
              shape._cornerRadius = this.settings.cornerRadius;
         }
+        if (has('starPoints', 'starInnerRadius', 'polygonSides', 'cornerRadius')) refreshGradients(shape);
+
+        // Variable-width strokes rebuild their outline from the kept centreline
+        if (isVariableStroke(shape) && has('strokeWidth', 'brushWidthVariation', 'brushTaperStart', 'brushTaperEnd')) {
+            const stroke = shape._variableStroke;
+            const profile = {
+                width: this.settings.strokeWidth, variation: this.settings.brushWidthVariation,
+                taperStart: this.settings.brushTaperStart, taperEnd: this.settings.brushTaperEnd,
+            };
+            const changed = (Object.keys(profile) as (keyof typeof profile)[]).some(key => stroke[key] !== profile[key]);
+            if (changed) applyVariableStroke(shape, { ...stroke, ...profile });
+        }
+
+        if (isTextObject(shape) && has(...TEXT_KEYS)) {
+            const style = { ...shape._textStyle };
+            if (has('textFamily')) style.family = this.settings.textFamily;
+            if (has('textSize')) style.size = this.settings.textSize;
+            if (has('textWeight')) style.weight = this.settings.textWeight;
+            if (has('textLetterSpacing')) style.letterSpacing = this.settings.textLetterSpacing;
+            if (has('textLineHeight')) style.lineHeight = this.settings.textLineHeight;
+            if (has('textAlign')) style.align = this.settings.textAlign;
+            // Laying text out again is not free, so only do it when the style really changed
+            if (JSON.stringify(style) !== JSON.stringify(shape._textStyle)) updateTextObject(shape, shape._textValue, style);
+        }
         this.updateSelectionHandles();
     }
 
+    // Puts the tool's gradients on a shape that is being drawn. Its solid paint is already set.
+    private applyGradientSettings(shape: any) {
+        if (this.settings.fillEnabled && this.settings.fillGradient) applyGradient(shape, 'fill', this.settings.fillGradient, this.settings.fillColor);
+        if (this.settings.strokeEnabled && this.settings.strokeGradient) applyGradient(shape, 'stroke', this.settings.strokeGradient, this.settings.strokeColor);
+    }
+
+    private getShapeType(shape: any): SelectedObjectType {
+        if (isTextObject(shape)) return 'text';
+        if (isImageObject(shape)) return 'image';
+        if (isVariableStroke(shape)) return 'stroke';
+        if ((shape as any)._isRoundedRect) return 'rectangle';
+        if (shape instanceof Two.Star) return 'star';
+        if (shape instanceof Two.Polygon) return 'polygon';
+        if (shape instanceof Two.Ellipse) return 'ellipse';
+        if (shape instanceof Two.Line) return 'line';
+        if (shape instanceof Two.Path) return 'path';
+        if (shape instanceof Two.Rectangle) return 'rectangle';
+        return null;
+    }
+
     broadcastSelectionType(shape: any) {
-        if (!this.onSelectionTypeChange) return;
-        let type: SelectedObjectType = null;
-        if ((shape as any)._isRoundedRect) type = 'rectangle';
-        else if (shape instanceof Two.Star) type = 'star';
-        else if (shape instanceof Two.Polygon) type = 'polygon';
-        else if (shape instanceof Two.Ellipse) type = 'ellipse';
-        else if (shape instanceof Two.Line) type = 'line';
-        else if (shape instanceof Two.Path) type = 'path';
-        else if (shape instanceof Two.Rectangle) type = 'rectangle';
-        this.onSelectionTypeChange(type);
+        if (this.onSelectionTypeChange) this.onSelectionTypeChange(this.getShapeType(shape));
     }
-    
-    // --- Primitives to Path (Flatten) ---
-    private flattenShape(shape: any, returnOnly = false): Two.Path | null {
-        if (shape instanceof Two.Path && !(shape as any)._isRoundedRect) {
-             return returnOnly ? (shape as any).clone() : shape;
-        }
 
-        const vertices = shape.vertices.map((v: any) => v.clone());
-        const path = new Two.Path(vertices, shape.closed, shape.curved, shape.manual);
+    // Reads a shape's style and transform in the same shape as ToolSettings, so the Inspector can show it.
+    private readShapeProperties(shape: any): Partial<ToolSettings> {
+        const stroke = shape.stroke, fill = shape.fill;
+        const strokeIsTransparent = stroke === 'transparent', fillIsTransparent = fill === 'transparent';
+        const strokeColorStr = !strokeIsTransparent && typeof stroke === 'object' && 'toHexString' in stroke ? (stroke as any).toHexString() : typeof stroke === 'string' ? stroke : this.settings.strokeColor;
+        const fillColorStr = !fillIsTransparent && typeof fill === 'object' && 'toHexString' in fill ? (fill as any).toHexString() : typeof fill === 'string' ? fill : this.settings.fillColor;
         
-        path.translation.copy(shape.translation);
-        path.rotation = shape.rotation;
-        path.scale = typeof shape.scale === 'object' ? new Two.Vector(shape.scale.x, shape.scale.y) : shape.scale;
-        path.fill = shape.fill;
-        path.stroke = shape.stroke;
-        path.linewidth = shape.linewidth;
-        path.opacity = shape.opacity;
-        path.blending = shape.blending;
+        const props: Partial<ToolSettings> = {
+            strokeEnabled: !strokeIsTransparent, strokeColor: strokeIsTransparent ? this.settings.strokeColor : strokeColorStr,
+            fillEnabled: !fillIsTransparent, fillColor: fillIsTransparent ? this.settings.fillColor : fillColorStr,
+            fillGradient: getPaint(shape, 'fill'), strokeGradient: getPaint(shape, 'stroke'),
+            strokeWidth: shape.linewidth, lineCap: 'cap' in shape ? shape.cap : this.settings.lineCap, lineJoin: 'join' in shape ? shape.join : this.settings.lineJoin,
+            // Add transform properties
+            selectionX: shape.translation.x,
+            selectionY: shape.translation.y,
+            selectionRotation: ((((shape.rotation * 180) / Math.PI) % 360) + 360) % 360, // Handles can spin past a full turn
+            selectionScaleX: this.getScaleXY(shape).x,
+            selectionScaleY: this.getScaleXY(shape).y,
+            selectionSkewX: (shape.skewX * 180) / Math.PI,
+            selectionSkewY: (shape.skewY * 180) / Math.PI,
+        };
 
-        if (!returnOnly && this.activeLayerId) {
-            const group = this.groups.get(this.activeLayerId);
-            if (group) {
-                const index = group.children.indexOf(shape);
-                shape.remove();
-                if (index >= 0) {
-                     group.children.splice(index, 0, path);
-                     path.parent = group; 
-                } else {
-                     group.add(path);
-                }
-            }
+        if ((shape as any)._isRoundedRect) { props.cornerRadius = (shape as any)._cornerRadius; }
+        if (isVariableStroke(shape)) {
+            const stroke = shape._variableStroke;
+            Object.assign(props, { strokeWidth: stroke.width, brushWidthVariation: stroke.variation, brushTaperStart: stroke.taperStart, brushTaperEnd: stroke.taperEnd });
         }
-        return path;
-    }
-
-    public flattenSelectedShape() {
-        if (!this.selectedShape) return;
-        const newShape = this.flattenShape(this.selectedShape);
-        if (newShape) {
-            this.selectedShape = newShape;
-            this.updateSelectionHandles();
-            if (this.onSelectionTypeChange) this.onSelectionTypeChange('path');
-            if (this.activeLayerId) this.generateThumbnail(this.activeLayerId);
+        if (isTextObject(shape)) {
+            const style: TextStyle = shape._textStyle;
+            Object.assign(props, {
+                textFamily: style.family, textSize: style.size, textWeight: style.weight,
+                textLetterSpacing: style.letterSpacing, textLineHeight: style.lineHeight, textAlign: style.align,
+            });
         }
+        if (shape instanceof Two.Star) { props.starPoints = shape.sides; props.starInnerRadius = shape.outerRadius > 0 ? shape.innerRadius / shape.outerRadius : 0.5; }
+        if (shape instanceof Two.Polygon) { props.polygonSides = shape.sides; }
+        if (isImageObject(shape)) { props.selectionOpacity = shape.opacity; props.selectionBlendMode = getImageBlendMode(shape); }
+        return props;
     }
-    
-    // --- Boolean Operations Bridge ---
-    private twoMatrixToPaperMatrix(twoMatrix: Two.Matrix): paper.Matrix {
-        const m = twoMatrix.elements;
-        // Paper.js Matrix(a, c, b, d, tx, ty) vs Two.js elements [a, b, 0, c, d, 0, tx, ty, 1] (column-major-ish storage)
-        // Two.js m[1] is skewY (b in standard affine), m[3] is skewX (c in standard affine).
-        // Paper constructor expects: a, c, b, d, tx, ty.
-        // So we pass m[3] (c) to the 2nd arg, and m[1] (b) to the 3rd arg.
-        return new this.paperScope.Matrix(m[0], m[3], m[1], m[4], m[6], m[7]);
+
+    // --- Multi-Selection ---
+
+    private setSelection(shapes: any[]) {
+        this.selection = shapes;
+        this.updateSelectionHandles();
+        this.broadcastSelection();
     }
 
-    private twoPathToPaperPath(twoPath: Two.Path): paper.PathItem {
-        const path = new this.paperScope.Path({ closed: twoPath.closed });
-        twoPath.vertices.forEach(v => {
-            const segment = new this.paperScope.Segment(
-                new this.paperScope.Point(v.x, v.y),
-                new this.paperScope.Point(v.controls?.left?.x || 0, v.controls?.left?.y || 0),
-                new this.paperScope.Point(v.controls?.right?.x || 0, v.controls?.right?.y || 0)
-            );
-            path.add(segment);
-        });
-        const matrix = this.twoMatrixToPaperMatrix(twoPath.matrix);
-        path.transform(matrix);
+    // Tells the Inspector what is selected. With several shapes, values they share are shown as they are,
+    // values that differ are listed in `selectionMixed`, and X/Y is the centre of the combined box.
+    private broadcastSelection() {
+        const shapes = this.selection;
+        if (shapes.length === 0) {
+            if (this.onSelectionTypeChange) this.onSelectionTypeChange(null);
+            return;
+        }
+        if (shapes.length === 1) {
+            const props: Partial<ToolSettings> = { ...this.readShapeProperties(shapes[0]), selectionCount: 1, selectionMixed: [] };
+            this.settings = { ...this.settings, ...props };
+            this.broadcastSelectionType(shapes[0]);
+            if (this.onSelectionPropertiesChange) this.onSelectionPropertiesChange(props);
+            return;
+        }
+
+        const types = new Set(shapes.map(shape => this.getShapeType(shape)));
+        if (this.onSelectionTypeChange) this.onSelectionTypeChange(types.size === 1 ? [...types][0] : 'mixed');
+
+        const all = shapes.map(shape => this.readShapeProperties(shape));
+        const primary = all[all.length - 1];
+        const props: Partial<ToolSettings> = {};
+        const mixed: (keyof ToolSettings)[] = [];
+        (Object.keys(primary) as (keyof ToolSettings)[]).forEach(key => {
+            (props as any)[key] = primary[key];
+            // Gradients are objects, so compare them by content
+            if (all.some(p => p[key] !== primary[key] && JSON.stringify(p[key]) !== JSON.stringify(primary[key]))) mixed.push(key);
+        });
+
+        const bounds = this.getSelectionBounds();
+        props.selectionX = bounds.left + bounds.width / 2;
+        props.selectionY = bounds.top + bounds.height / 2;
+        props.selectionMixed = mixed.filter(key => key !== 'selectionX' && key !== 'selectionY');
+        props.selectionCount = shapes.length;
+
+        // Remember what we told the Inspector, so when it echoes these values back nothing gets overwritten
+        this.settings = { ...this.settings, ...props };
+        if (this.onSelectionPropertiesChange) this.onSelectionPropertiesChange(props);
+    }
+
+    private unionBounds(list: { left: number, top: number, right: number, bottom: number }[]) {
+        const left = Math.min(...list.map(b => b.left)), top = Math.min(...list.map(b => b.top));
+        const right = Math.max(...list.map(b => b.right)), bottom = Math.max(...list.map(b => b.bottom));
+        return { left, top, right, bottom, width: right - left, height: bottom - top };
+    }
+
+    // One box around every selected shape, in the active layer's space.
+    private getSelectionBounds() {
+        return this.unionBounds(this.selection.map(shape => shape.getBoundingClientRect(true)));
+    }
+
+    // Applies an Inspector edit to every selected shape. Only the settings that changed are copied,
+    // so shapes keep their own colours and sizes unless that exact field was edited.
+    private applySettingsToSelection(prev: ToolSettings, next: ToolSettings) {
+        const changed = editedKeys(prev, next, [...STYLE_KEYS, ...TRANSFORM_KEYS]);
+        if (changed.size === 0) return;
+
+        const styleKeys = new Set(STYLE_KEYS.filter(key => changed.has(key)));
+        if (styleKeys.size > 0) this.selection.forEach(shape => this.applySettingsToShape(shape, styleKeys));
+
+        // Shared move / rotate / scale, all around the centre of the combined box
+        const bounds = this.getSelectionBounds();
+        const center = { x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 };
+        if ((changed.has('selectionX') || changed.has('selectionY')) && next.selectionX !== undefined && next.selectionY !== undefined) {
+            const dx = next.selectionX - center.x, dy = next.selectionY - center.y;
+            this.selection.forEach(shape => shape.translation.set(shape.translation.x + dx, shape.translation.y + dy));
+        }
+        if (changed.has('selectionRotation') && next.selectionRotation !== undefined && prev.selectionRotation !== undefined) {
+            const delta = ((next.selectionRotation - prev.selectionRotation) * Math.PI) / 180;
+            const cos = Math.cos(delta), sin = Math.sin(delta);
+            this.selection.forEach(shape => {
+                const ox = shape.translation.x - center.x, oy = shape.translation.y - center.y;
+                shape.translation.set(center.x + ox * cos - oy * sin, center.y + ox * sin + oy * cos);
+                shape.rotation += delta;
+            });
+        }
+        if (changed.has('selectionScaleX') || changed.has('selectionScaleY')) {
+            const ratioX = next.selectionScaleX && prev.selectionScaleX ? next.selectionScaleX / prev.selectionScaleX : 1;
+            const ratioY = next.selectionScaleY && prev.selectionScaleY ? next.selectionScaleY / prev.selectionScaleY : 1;
+            this.selection.forEach(shape => {
+                const scale = this.getScaleXY(shape);
+                shape.translation.set(center.x + (shape.translation.x - center.x) * ratioX, center.y + (shape.translation.y - center.y) * ratioY);
+                this.setScaleXY(shape, scale.x * ratioX, scale.y * ratioY);
+            });
+        }
+        if (changed.has('selectionSkewX') || changed.has('selectionSkewY')) {
+            const deltaX = (((next.selectionSkewX ?? 0) - (prev.selectionSkewX ?? 0)) * Math.PI) / 180;
+            const deltaY = (((next.selectionSkewY ?? 0) - (prev.selectionSkewY ?? 0)) * Math.PI) / 180;
+            this.selection.forEach(shape => {
+                // Shapes slide along with the slant so the group leans as a whole
+                const ox = shape.translation.x - center.x, oy = shape.translation.y - center.y;
+                shape.translation.set(shape.translation.x + Math.tan(deltaX) * oy, shape.translation.y + Math.tan(deltaY) * ox);
+                shape.skewX += deltaX;
+                shape.skewY += deltaY;
+            });
+        }
+
+        this.updateSelectionHandles();
+        this.broadcastSelection();
+        this.queueSettingsEdit('Edit Selection', `selection-${this.selection.map(shape => shape.id).join(',')}`);
+    }
+
+    // --- Align & Distribute ---
+
+    // A scene point in a layer's own space, through every layer group it sits in
+    private sceneToLayer(group: any, x: number, y: number) {
+        const chain: any[] = [];
+        for (let node = group; node && node !== this.two.scene; node = node.parent) chain.unshift(node);
+        return chain.reduce((point, node) => this.toLocal(node, point.x, point.y), { x, y });
+    }
+
+    // The artboard as a box in a layer's own space
+    private artboardBoxIn(group: any): Box {
+        const { width, height } = this.artboard;
+        return this.convertBox({ left: -width / 2, top: -height / 2, right: width / 2, bottom: height / 2 }, (x, y) => this.sceneToLayer(group, x, y));
+    }
+
+    private moveSelectionBy(offsets: AlignOffset[], label: string) {
+        if (offsets.every(({ dx, dy }) => Math.abs(dx) < 1e-6 && Math.abs(dy) < 1e-6)) return;
+        this.selection.forEach((shape, i) => shape.translation.set(shape.translation.x + offsets[i].dx, shape.translation.y + offsets[i].dy));
+        this.updateSelectionHandles();
+        this.broadcastSelection();
+        if (this.activeLayerId) this.generateThumbnail(this.activeLayerId);
+        this.commit(label);
+    }
+
+    // Lines up the selected shapes. A single shape has nothing else to line up with, so it uses the artboard.
+    public alignSelection(edge: AlignEdge, reference: AlignReference) {
+        if (this.selection.length === 0) return;
+        const boxes = this.selection.map(shape => shape.getBoundingClientRect(true));
+        const target = reference === 'artboard' || boxes.length === 1 ? this.artboardBoxIn(this.selection[0].parent) : boundsOf(boxes);
+        this.moveSelectionBy(alignBoxes(boxes, edge, target), 'Align');
+    }
+
+    public distributeSelection(mode: DistributeMode, reference: AlignReference) {
+        if (this.selection.length < 2) return;
+        const boxes = this.selection.map(shape => shape.getBoundingClientRect(true));
+        this.moveSelectionBy(distributeBoxes(boxes, mode, reference === 'artboard' ? this.artboardBoxIn(this.selection[0].parent) : null), 'Distribute');
+    }
+
+    /**
+     * Align & distribute for whole layers. Layer transforms belong to the layer tree, so this only
+     * works out how far each layer has to move, in the space its x/y are measured in. The layers
+     * must share a parent; hidden and empty ones are left out.
+     */
+    private layerOffsets(ids: string[], arrange: (boxes: Box[], artboard: Box) => AlignOffset[]): Record<string, AlignOffset> {
+        const items = ids.map(id => ({ id, group: this.groups.get(id) }))
+            .filter(item => item.group && item.group.visible)
+            .map(item => ({ id: item.id, parent: item.group!.parent, box: item.group!.getBoundingClientRect(true) as Box }))
+            .filter(item => [item.box.left, item.box.top, item.box.right, item.box.bottom].every(Number.isFinite));
+        if (items.length === 0) return {};
+        const offsets = arrange(items.map(item => item.box), this.artboardBoxIn(items[0].parent));
+        return Object.fromEntries(items.map((item, i) => [item.id, offsets[i]]));
+    }
+
+    public alignLayers(ids: string[], edge: AlignEdge, reference: AlignReference) {
+        return this.layerOffsets(ids, (boxes, artboard) =>
+            alignBoxes(boxes, edge, reference === 'artboard' || boxes.length === 1 ? artboard : boundsOf(boxes)));
+    }
+
+    public distributeLayers(ids: string[], mode: DistributeMode, reference: AlignReference) {
+        return this.layerOffsets(ids, (boxes, artboard) => distributeBoxes(boxes, mode, reference === 'artboard' ? artboard : null));
+    }
+
+    // --- Text ---
+
+    private getTextStyleFromSettings(): TextStyle {
+        return {
+            family: this.settings.textFamily, size: this.settings.textSize, weight: this.settings.textWeight,
+            letterSpacing: this.settings.textLetterSpacing, lineHeight: this.settings.textLineHeight, align: this.settings.textAlign,
+        };
+    }
+
+    // Starts an empty text object at a point. It only becomes an undo step once something is typed into it.
+    private createText(group: Two.Group, local: { x: number, y: number }) {
+        const text = createTextObject('', this.getTextStyleFromSettings(), {
+            fill: this.settings.fillEnabled ? this.settings.fillColor : 'transparent',
+            stroke: this.settings.strokeEnabled ? this.settings.strokeColor : 'transparent',
+            linewidth: this.settings.strokeWidth,
+        });
+        text.translation.set(local.x, local.y - this.settings.textSize * this.settings.textLineHeight / 2);
+        group.add(text);
+        return text;
+    }
+
+    private beginTextEdit(target: any, isNew: boolean) {
+        this.finishTextEdit();
+        this.setSelection([]);
+        target.visible = false;
+        this.textEdit = { id: ++this.textEditCount, target, isNew, value: target._textValue };
+        this.notifyTextEdit();
+    }
+
+    // Tells React where to put the text box, in screen pixels. Called again whenever the view moves.
+    private notifyTextEdit() {
+        if (!this.onTextEditChange) return;
+        if (!this.textEdit) { this.onTextEditChange(null); return; }
+        const { id, target, value } = this.textEdit;
+        target._update(true);
+        const [x0, y0] = target.worldMatrix.multiply(0, 0);
+        const [x1, y1] = target.worldMatrix.multiply(1, 0);
+        const fill = target.fill;
+        this.onTextEditChange({
+            id, value, style: { ...target._textStyle },
+            color: typeof fill === 'string' ? fill : '#000000',
+            x: x0, y: y0, scale: Math.hypot(x1 - x0, y1 - y0), rotation: Math.atan2(y1 - y0, x1 - x0),
+        });
+    }
+
+    public updateTextEdit(value: string) {
+        if (this.textEdit) this.textEdit.value = value;
+    }
+
+    /**
+     * Puts the typed words into the text object and shows it again. Empty text is removed.
+     * Pass the edit's id to finish only that edit (a late blur must not end a newer one).
+     */
+    public finishTextEdit(id?: number) {
+        if (!this.textEdit || (id !== undefined && id !== this.textEdit.id)) return;
+        const { target, isNew, value } = this.textEdit;
+        this.textEdit = null;
+        this.notifyTextEdit();
+
+        target.visible = true;
+        const isEmpty = value.trim() === '';
+        if (isEmpty) target.remove();
+        else updateTextObject(target, value);
+        if (this.activeLayerId) this.generateThumbnail(this.activeLayerId);
+
+        if (isEmpty && isNew) return; // Nothing was ever added
+        if (!isEmpty && this.tool === 'select') this.setSelection([target]);
+        this.commit(isEmpty ? 'Delete Text' : (isNew ? 'Add Text' : 'Edit Text'));
+    }
+
+    // Lays every text object out again, e.g. once a web font has finished loading.
+    private relayoutAllText() {
+        const visit = (node: any) => {
+            if (isTextObject(node)) { updateTextObject(node); return; }
+            if (node instanceof Two.Group) node.children.forEach(visit);
+        };
+        this.groups.forEach(group => group.children.forEach(visit));
+        this.updateSelectionHandles();
+        this.markTileDirty();
+    }
+
+    // Text traced into a plain path, so it can be edited point by point and cut by the shape builder.
+    private traceText(text: any): Two.Path | null {
+        const contours = traceTextOutlines(text._textValue, text._textStyle);
+        if (contours.length === 0) return null;
+        const vertices: Two.Anchor[] = [];
+        contours.forEach(contour => {
+            contour.forEach((p, i) => vertices.push(new Two.Anchor(p.x, p.y, 0, 0, 0, 0, i === 0 ? Two.Commands.move : Two.Commands.line)));
+            // Close each piece by hand, the path's own `closed` only closes the last one
+            vertices.push(new Two.Anchor(contour[0].x, contour[0].y, 0, 0, 0, 0, Two.Commands.line));
+        });
+        const path = new Two.Path(vertices, true, false, true);
+        path.fill = text.fill;
+        path.stroke = text.stroke;
+        path.linewidth = text.linewidth;
+        copyPaints(text, path);
         return path;
     }
 
+    // --- Transform Handles ---
+
+    private getScaleXY(shape: any) {
+        return typeof shape.scale === 'number' ? { x: shape.scale, y: shape.scale } : { x: shape.scale.x, y: shape.scale.y };
+    }
+
+    // Uniform scales stay plain numbers, which is what the rest of the app (and saved files) mostly expect.
+    private setScaleXY(shape: any, x: number, y: number) {
+        shape.scale = x === y ? x : new Two.Vector(x, y);
+    }
+
+    // The 8 handles around a box: 4 corners and 4 edge middles, pushed out a little so they don't cover the shape.
+    private getTransformHandles(bounds: { left: number, top: number, right: number, bottom: number }): TransformHandle[] {
+        const pad = this.px(5);
+        const cx = (bounds.left + bounds.right) / 2, cy = (bounds.top + bounds.bottom) / 2;
+        const xs = [bounds.left - pad, cx, bounds.right + pad], ys = [bounds.top - pad, cy, bounds.bottom + pad];
+        const handles: TransformHandle[] = [];
+        [-1, 0, 1].forEach(iy => [-1, 0, 1].forEach(ix => {
+            if (ix !== 0 || iy !== 0) handles.push({ x: xs[ix + 1], y: ys[iy + 1], ix, iy });
+        }));
+        return handles;
+    }
+
+    // Which handle (if any) is under the pointer, and what dragging it does.
+    // Corners and edges scale, Ctrl/Cmd on an edge skews, and just outside a corner rotates.
+    private hitTransformHandle(x: number, y: number, mods: PointerModifiers): { handle: TransformHandle, mode: 'scale' | 'rotate' | 'skew' } | null {
+        if (this.selection.length === 0) return null;
+        const bounds = this.getSelectionBounds();
+        const handles = this.getTransformHandles(bounds);
+        const distance = (h: TransformHandle) => Math.hypot(x - h.x, y - h.y);
+
+        const grabbed = handles.find(h => distance(h) <= this.px(HANDLE_RADIUS));
+        if (grabbed) {
+            const isEdge = grabbed.ix === 0 || grabbed.iy === 0;
+            return { handle: grabbed, mode: isEdge && mods.ctrl ? 'skew' : 'scale' };
+        }
+
+        const pad = this.px(5);
+        const isOutside = x < bounds.left - pad || x > bounds.right + pad || y < bounds.top - pad || y > bounds.bottom + pad;
+        const corner = handles.find(h => h.ix !== 0 && h.iy !== 0 && distance(h) <= this.px(ROTATE_ZONE));
+        if (corner && isOutside) return { handle: corner, mode: 'rotate' };
+        return null;
+    }
+
+    private beginTransform(handle: TransformHandle, mode: 'scale' | 'rotate' | 'skew', local: { x: number, y: number }) {
+        const origins = new Map<any, TransformOrigin>();
+        this.selection.forEach(shape => {
+            const scale = this.getScaleXY(shape);
+            origins.set(shape, {
+                x: shape.translation.x, y: shape.translation.y, rotation: shape.rotation,
+                scaleX: scale.x, scaleY: scale.y, skewX: shape.skewX, skewY: shape.skewY,
+            });
+        });
+        this.transformState = { mode, handle, box: this.getSelectionBounds(), start: { x: local.x, y: local.y }, origins };
+    }
+
+    /**
+     * Stretches a shape by sx/sy along the screen's axes, the way the handle box around it stretches. A turned
+     * shape can't follow that by changing its own scale alone (that pulls along its own, tilted axes), so its
+     * whole transform is stretched and read back as a turn, a scale and a slant.
+     */
+    private scaleAlongScene(shape: any, o: TransformOrigin, sx: number, sy: number) {
+        const wrap = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+        if (sx === sy || (Math.abs(Math.sin(o.rotation)) < 1e-9 && !o.skewY)) {
+            // Not turned: the shape's own axes are the screen's
+            this.setScaleXY(shape, o.scaleX * sx, o.scaleY * sy);
+            return;
+        }
+        // Two.js builds the shape's matrix as rotate · scale · skewX · skewY
+        const tx = Math.tan(o.skewX), ty = Math.tan(o.skewY);
+        const a = o.scaleX * (1 + tx * ty), b = o.scaleX * tx, c = o.scaleY * ty, d = o.scaleY;
+        const cos = Math.cos(o.rotation), sin = Math.sin(o.rotation);
+        const m11 = sx * (cos * a - sin * c), m12 = sx * (cos * b - sin * d);
+        const m21 = sy * (sin * a + cos * c), m22 = sy * (sin * b + cos * d);
+        // Of the two angles that fit, keep the one nearest the old one so the Inspector doesn't jump by 180°
+        let rotation = Math.atan2(m21, m11);
+        if (Math.abs(wrap(rotation - o.rotation)) > Math.PI / 2) rotation += Math.PI;
+        rotation = o.rotation + wrap(rotation - o.rotation);
+        const c2 = Math.cos(rotation), s2 = Math.sin(rotation);
+        const scaleX = c2 * m11 + s2 * m21;
+        const scaleY = c2 * m22 - s2 * m12;
+        shape.rotation = rotation;
+        this.setScaleXY(shape, scaleX, scaleY);
+        shape.skewX = Math.atan((c2 * m12 + s2 * m22) / scaleX);
+        shape.skewY = 0;
+    }
+
+    // Drag update for whichever handle was grabbed. Everything is worked out from the values at the start of the
+    // drag, so going back and forth never drifts. Scaling follows the box on screen, even for turned shapes;
+    // skewing adds to the shape's own slant.
+    private updateTransform(local: { x: number, y: number }, mods: PointerModifiers) {
+        const { mode, handle, box, start, origins } = this.transformState;
+        const center = { x: box.left + box.width / 2, y: box.top + box.height / 2 };
+        // Alt pins the centre, otherwise the opposite side stays put
+        const anchor = {
+            x: mods.alt || handle.ix === 0 ? center.x : (handle.ix > 0 ? box.left : box.right),
+            y: mods.alt || handle.iy === 0 ? center.y : (handle.iy > 0 ? box.top : box.bottom),
+        };
+        const handlePoint = { x: handle.ix > 0 ? box.right : handle.ix < 0 ? box.left : center.x, y: handle.iy > 0 ? box.bottom : handle.iy < 0 ? box.top : center.y };
+
+        if (mode === 'scale') {
+            const ratio = (pointer: number, from: number, to: number) => (to - from) === 0 ? 1 : (pointer - from) / (to - from);
+            let sx = handle.ix !== 0 ? ratio(local.x, anchor.x, handlePoint.x) : 1;
+            let sy = handle.iy !== 0 ? ratio(local.y, anchor.y, handlePoint.y) : 1;
+            if (mods.shift) {
+                // Keep proportions: the axis pulled furthest wins
+                const uniform = handle.ix === 0 ? Math.abs(sy) : handle.iy === 0 ? Math.abs(sx) : Math.max(Math.abs(sx), Math.abs(sy));
+                sx = (Math.sign(sx) || 1) * uniform;
+                sy = (Math.sign(sy) || 1) * uniform;
+            }
+            const guard = (v: number) => Math.abs(v) < MIN_HANDLE_SCALE ? (Math.sign(v) || 1) * MIN_HANDLE_SCALE : v;
+            sx = guard(sx); sy = guard(sy);
+            origins.forEach((o, shape) => {
+                shape.translation.set(anchor.x + (o.x - anchor.x) * sx, anchor.y + (o.y - anchor.y) * sy);
+                this.scaleAlongScene(shape, o, sx, sy);
+            });
+        } else if (mode === 'rotate') {
+            let delta = Math.atan2(local.y - center.y, local.x - center.x) - Math.atan2(start.y - center.y, start.x - center.x);
+            if (mods.shift) {
+                // Snap the main shape's final angle to 15 degree steps
+                const primary = origins.get(this.selection[this.selection.length - 1]);
+                const base = primary ? primary.rotation : 0;
+                delta = Math.round((base + delta) / ROTATE_SNAP) * ROTATE_SNAP - base;
+            }
+            const cos = Math.cos(delta), sin = Math.sin(delta);
+            origins.forEach((o, shape) => {
+                const ox = o.x - center.x, oy = o.y - center.y;
+                shape.translation.set(center.x + ox * cos - oy * sin, center.y + ox * sin + oy * cos);
+                shape.rotation = o.rotation + delta;
+            });
+        } else if (mode === 'skew') {
+            // Top/bottom edges slant sideways (skew X), left/right edges slant up and down (skew Y)
+            const reachY = handlePoint.y - anchor.y, reachX = handlePoint.x - anchor.x;
+            const angleX = handle.iy !== 0 && reachY !== 0 ? Math.atan((local.x - start.x) / reachY) : 0;
+            const angleY = handle.ix !== 0 && reachX !== 0 ? Math.atan((local.y - start.y) / reachX) : 0;
+            origins.forEach((o, shape) => {
+                shape.translation.set(o.x + Math.tan(angleX) * (o.y - anchor.y), o.y + Math.tan(angleY) * (o.x - anchor.x));
+                shape.skewX = o.skewX + angleX;
+                shape.skewY = o.skewY + angleY;
+            });
+        }
+
+        this.updateSelectionHandles();
+        this.broadcastSelection();
+    }
+
+    // --- Spatial Index ---
+
+    /**
+     * The layer's grid, brought up to date. Children added or removed are noticed through the group's
+     * own events; shapes that were moved or reshaped must be passed to `touch`.
+     */
+    private spatialIndex(group: Two.Group): SpatialGrid<any> {
+        let entry = this.spatial.get(group);
+        if (!entry) {
+            const created = { grid: new SpatialGrid<any>(), dirty: new Set<any>(group.children) };
+            group.children.bind('insert', (items: any) => Array.from(items).forEach(item => created.dirty.add(item)));
+            group.children.bind('remove', (items: any) => Array.from(items).forEach(item => { created.dirty.delete(item); created.grid.remove(item); }));
+            this.spatial.set(group, created);
+            entry = created;
+        }
+        const { grid, dirty } = entry;
+        dirty.forEach(child => {
+            if (child.parent !== group || isRasterObject(child) || this.groups.get(child.id) === child) { dirty.delete(child); grid.remove(child); return; }
+            // Helpers like the shape being dragged out wait until they become real content
+            if (!this.isContentNode(child)) { grid.remove(child); return; }
+            grid.insert(child, child.getBoundingClientRect(true));
+            dirty.delete(child);
+        });
+        return grid;
+    }
+
+    // Marks shapes whose box may have changed, so the index measures them again on its next use.
+    // Groups around a shape change with it, so they are marked too, up to the layer.
+    private touch(...shapes: any[]) {
+        shapes.forEach(shape => {
+            for (let node = shape; node?.parent; node = node.parent) {
+                this.spatial.get(node.parent)?.dirty.add(node);
+                if (this.groups.get(node.parent.id) === node.parent) break;
+            }
+        });
+    }
+
+    // --- Snapping ---
+
+    // An object's matrix without the move: Two.js builds it as rotate · scale · skewX · skewY
+    private linearOf(object: any) {
+        const { x: scaleX, y: scaleY } = this.getScaleXY(object);
+        const tx = Math.tan(object.skewX || 0), ty = Math.tan(object.skewY || 0);
+        const a = scaleX * (1 + tx * ty), b = scaleX * tx, c = scaleY * ty, d = scaleY;
+        const cos = Math.cos(object.rotation), sin = Math.sin(object.rotation);
+        return { m11: cos * a - sin * c, m12: cos * b - sin * d, m21: sin * a + cos * c, m22: sin * b + cos * d };
+    }
+
+    // The opposite of toLocal: a point in an object's own space, back in its parent's space
+    private fromLocal(object: any, x: number, y: number) {
+        const { m11, m12, m21, m22 } = this.linearOf(object);
+        return { x: m11 * x + m12 * y + object.translation.x, y: m21 * x + m22 * y + object.translation.y };
+    }
+
+    // A box moved through `convert` corner by corner, as the box around the four corners
+    private convertBox(box: Box, convert: (x: number, y: number) => { x: number, y: number }): Box {
+        const corners = [convert(box.left, box.top), convert(box.right, box.top), convert(box.left, box.bottom), convert(box.right, box.bottom)];
+        return {
+            left: Math.min(...corners.map(c => c.x)), top: Math.min(...corners.map(c => c.y)),
+            right: Math.max(...corners.map(c => c.x)), bottom: Math.max(...corners.map(c => c.y)),
+        };
+    }
+
+    // Snapping is on unless it's switched off, or F is held to place something freely
+    private isSnapping(mods: PointerModifiers) {
+        return this.snap.snapping && !mods.free;
+    }
+
+    /**
+     * Everything a drag can snap to, in scene space. Shapes come from the spatial index of every
+     * visible layer, limited to what is on screen. Anchors are only collected near `near`, where a
+     * point is being placed. `exclude` holds the shapes being dragged.
+     */
+    private snapTargets(exclude: Set<any>, near: SnapPoint | null, extraPoints: SnapPoint[] = []): SnapTargets {
+        const { width, height } = this.artboard;
+        const targets: SnapTargets = {
+            boxes: [],
+            points: [...extraPoints],
+            lines: this.guideLines(),
+            grid: this.snap.snapToGrid ? { size: this.snap.gridSize, originX: -width / 2, originY: -height / 2 } : null,
+        };
+        if (this.snap.snapToArtboard) targets.boxes.push({ left: -width / 2, top: -height / 2, right: width / 2, bottom: height / 2 });
+        if (!this.snap.snapToObjects) return targets;
+
+        const topLeft = this.toScene(0, 0), bottomRight = this.toScene(this.two.width, this.two.height);
+        const view = { left: topLeft.x, top: topLeft.y, right: bottomRight.x, bottom: bottomRight.y };
+        const reach = this.px(SNAP_DISTANCE);
+        this.groups.forEach(group => {
+            if (!group.visible) return;
+            const grid = this.spatialIndex(group);
+            const toScene = (x: number, y: number) => this.fromLocal(group, x, y);
+            grid.query(this.convertBox(view, (x, y) => this.toLocal(group, x, y))).forEach(child => {
+                if (exclude.has(child)) return;
+                targets.boxes.push(this.convertBox(grid.getBox(child)!, toScene));
+            });
+            if (!near) return;
+            const local = this.toLocal(group, near.x, near.y);
+            grid.queryPoint(local.x, local.y, reach / (typeof group.scale === 'number' ? group.scale : 1)).forEach(child => {
+                if (exclude.has(child) || !(child instanceof Two.Path) || isVariableStroke(child)) return;
+                child.vertices.forEach((v: any) => {
+                    const p = this.fromLocal(child, v.x, v.y);
+                    targets.points.push(toScene(p.x, p.y));
+                });
+            });
+        });
+        return targets;
+    }
+
+    public setGuides(guides: Guide[]) {
+        this.guides = guides;
+    }
+
+    // Ruler guides as scene-space lines. Their positions count from the artboard's top-left corner.
+    private guideLines(): SnapLine[] {
+        if (!this.snap.showGuides) return [];
+        const { width, height } = this.artboard;
+        return this.guides.map(guide => guide.orientation === 'vertical'
+            ? { axis: 'x', value: guide.position - width / 2 }
+            : { axis: 'y', value: guide.position - height / 2 });
+    }
+
+    // Brush strokes only snap to guides, so a stroke can be drawn along one like along a ruler
+    private snapToGuides(point: StrokePoint, group: Two.Group, mods: PointerModifiers): StrokePoint {
+        const lines = this.guideLines();
+        if (!this.isSnapping(mods) || lines.length === 0) return point;
+        const scene = this.fromLocal(group, point.x, point.y);
+        const result = snapPoint(scene, { boxes: [], points: [], lines, grid: null }, this.px(SNAP_DISTANCE));
+        return this.toLocal(group, scene.x + result.dx, scene.y + result.dy);
+    }
+
+    /**
+     * Snaps a point being placed or dragged (scene space) and shows what it snapped to.
+     */
+    private snapScenePoint(point: SnapPoint, mods: PointerModifiers, exclude = new Set<any>(), extraPoints: SnapPoint[] = []): SnapPoint {
+        if (!this.isSnapping(mods)) { this.clearSnapGuides(); return point; }
+        const result = snapPoint(point, this.snapTargets(exclude, point, extraPoints), this.px(SNAP_DISTANCE));
+        this.showSnapGuides(result.guides);
+        return { x: point.x + result.dx, y: point.y + result.dy };
+    }
+
+    // The pen drags anchors and handles with a grab offset, so the dragged thing is snapped and the pointer follows it
+    private snapPenPointer(x: number, y: number, mods: PointerModifiers): SnapPoint {
+        const path = this.penPath;
+        const group = this.activeLayerId ? this.groups.get(this.activeLayerId) : null;
+        if (!path || !group || this.penInteraction.mode === 'idle') return { x, y };
+
+        const toScene = (px: number, py: number) => { const p = this.fromLocal(path, px, py); return this.fromLocal(group, p.x, p.y); };
+        const draggingAnchor = this.penInteraction.mode === 'dragging-anchor';
+        // The path's own anchors count, apart from the one being moved
+        const anchors = path.vertices.filter((_, i) => !draggingAnchor || i !== this.selectedAnchorIdx).map(v => toScene(v.x, v.y));
+
+        let dragged = { x, y };
+        if (this.penInteraction.mode !== 'creating') {
+            const groupLocal = this.toLocal(group, x, y);
+            const local = this.toLocal(path, groupLocal.x, groupLocal.y);
+            const { dragStart, initialPos } = this.penInteraction;
+            dragged = toScene(initialPos.x + local.x - dragStart.x, initialPos.y + local.y - dragStart.y);
+        }
+        const snapped = this.snapScenePoint(dragged, mods, new Set([path]), anchors);
+        return { x: x + snapped.x - dragged.x, y: y + snapped.y - dragged.y };
+    }
+
+    // Moving a selection snaps its whole box. Returns the pointer position that puts the box there.
+    private snapMove(x: number, y: number, group: Two.Group, mods: PointerModifiers): SnapPoint {
+        const box = this.moveState.box;
+        if (!box || !this.isSnapping(mods)) { this.clearSnapGuides(); return { x, y }; }
+        const start = this.fromLocal(group, this.moveState.start.x, this.moveState.start.y);
+        const moved = { left: box.left + x - start.x, top: box.top + y - start.y, right: box.right + x - start.x, bottom: box.bottom + y - start.y };
+        const result = snapBox(moved, this.snapTargets(new Set(this.selection), null), this.px(SNAP_DISTANCE));
+        this.showSnapGuides(result.guides);
+        return { x: x + result.dx, y: y + result.dy };
+    }
+
+    // Scale handles snap the corner or edge being dragged, along the axes it moves. Returns the pointer position that puts it there.
+    private snapScale(x: number, y: number, group: Two.Group, mods: PointerModifiers): SnapPoint {
+        const { handle, box, start } = this.transformState;
+        if (!this.isSnapping(mods)) { this.clearSnapGuides(); return { x, y }; }
+        const local = this.toLocal(group, x, y);
+        const edge = {
+            x: handle.ix > 0 ? box.right : handle.ix < 0 ? box.left : box.left + box.width / 2,
+            y: handle.iy > 0 ? box.bottom : handle.iy < 0 ? box.top : box.top + box.height / 2,
+        };
+        const dragged = this.fromLocal(group, edge.x + local.x - start.x, edge.y + local.y - start.y);
+        const result = snapPoint(dragged, this.snapTargets(new Set(this.selection), dragged), this.px(SNAP_DISTANCE));
+        // Vertical guides belong to snapping along x, horizontal ones to y
+        this.showSnapGuides(result.guides.filter(guide => (handle.ix !== 0 && guide.x1 === guide.x2) || (handle.iy !== 0 && guide.y1 === guide.y2)));
+        return { x: x + (handle.ix !== 0 ? result.dx : 0), y: y + (handle.iy !== 0 ? result.dy : 0) };
+    }
+
+    private clearSnapGuides() {
+        if (this.snapGuides) this.snapGuides.remove();
+        this.snapGuides = null;
+    }
+
+    // Alignment lines, with a small cross where two points meet, and spacing markers with end ticks
+    private showSnapGuides(guides: SnapGuide[]) {
+        this.clearSnapGuides();
+        if (!this.snap.smartGuides || guides.length === 0) return;
+        const overlay = new Two.Group();
+        const tick = this.px(4);
+        const line = (x1: number, y1: number, x2: number, y2: number) => {
+            const l = new Two.Line(x1, y1, x2, y2);
+            l.stroke = GUIDE_COLOR;
+            l.linewidth = this.px(1);
+            overlay.add(l);
+        };
+        guides.forEach(g => {
+            if (g.kind === 'spacing') {
+                line(g.x1, g.y1, g.x2, g.y2);
+                // Ticks across both ends
+                const vertical = g.x1 === g.x2;
+                [[g.x1, g.y1], [g.x2, g.y2]].forEach(([ex, ey]) => vertical ? line(ex - tick, ey, ex + tick, ey) : line(ex, ey - tick, ex, ey + tick));
+            } else if (Math.hypot(g.x2 - g.x1, g.y2 - g.y1) < this.px(1)) {
+                line(g.x1 - tick, g.y1 - tick, g.x1 + tick, g.y1 + tick);
+                line(g.x1 - tick, g.y1 + tick, g.x1 + tick, g.y1 - tick);
+            } else {
+                line(g.x1, g.y1, g.x2, g.y2);
+            }
+        });
+        this.snapGuides = overlay;
+        this.two.scene.add(overlay);
+    }
+
+    // Faint grid lines over the artboard. Zoomed far out, only every 2nd, 4th... line is drawn.
+    private updateGridOverlay() {
+        if (this.gridOverlay) this.gridOverlay.remove();
+        this.gridOverlay = null;
+        if (!this.snap.showGrid || this.snap.gridSize <= 0) return;
+
+        let step = this.snap.gridSize;
+        while (step * this.viewScale < MIN_GRID_SPACING) step *= 2;
+        const { width, height } = this.artboard;
+        const left = -width / 2, top = -height / 2;
+        const overlay = new Two.Group();
+        const line = (x1: number, y1: number, x2: number, y2: number) => {
+            const l = new Two.Line(x1, y1, x2, y2);
+            l.stroke = '#1565C0';
+            l.linewidth = this.px(1);
+            overlay.add(l);
+        };
+        for (let x = left + step; x < left + width; x += step) line(x, top, x, top + height);
+        for (let y = top + step; y < top + height; y += step) line(left, y, left + width, y);
+        overlay.opacity = 0.25;
+        this.gridOverlay = overlay;
+        this.two.scene.add(overlay);
+    }
+
+    /**
+     * Top-most shape of the active layer under a scene point, or null. Used by the benchmark page.
+     */
+    public pickShape(x: number, y: number): any | null {
+        const group = this.activeLayerId ? this.groups.get(this.activeLayerId) : null;
+        if (!group) return null;
+        const local = this.toLocal(group, x, y);
+        return this.hitTestShape(group, local.x, local.y);
+    }
+
+    // Top-most shape of the active layer under a point (in the layer's space), or null.
+    private hitTestShape(group: Two.Group, x: number, y: number): any | null {
+        return this.hitTestAll(group, x, y)[0] ?? null;
+    }
+
+    // Every direct child of the layer whose actual geometry is under the point, top-most first
+    private hitTestAll(group: Two.Group, x: number, y: number): any[] {
+        const candidates = this.spatialIndex(group).queryPoint(x, y, this.px(HIT_TOLERANCE));
+        return candidates
+            .map(child => ({ child, order: group.children.indexOf(child) }))
+            .sort((a, b) => b.order - a.order)
+            .map(({ child }) => child)
+            .filter(child => child instanceof Two.Shape && this.isContentNode(child) && this.hitsObject(child, x, y));
+    }
+
+    /**
+     * Whether a point (in the object's parent space) lands on what is really drawn: inside a visible fill
+     * (by the shape's fill rule, so holes stay empty) or within half the line width of a visible stroke,
+     * plus a few screen pixels of slack. Groups are searched all the way down.
+     */
+    private hitsObject(object: any, x: number, y: number): boolean {
+        if (!object.visible || object.opacity === 0 || isRasterObject(object)) return false;
+        if (object === this.buildState.container || object === this.buildState.lassoPath) return false;
+
+        const slack = this.px(HIT_TOLERANCE);
+        const box = object.getBoundingClientRect(true);
+        if (x < box.left - slack || x > box.right + slack || y < box.top - slack || y > box.bottom + slack) return false;
+
+        const inverse = object.matrix.inverse();
+        if (isTextObject(object)) {
+            // Glyph by glyph would be overkill, the text box is what people aim at
+            if (!inverse) return false;
+            const [lx, ly] = inverse.multiply(x, y, 1);
+            const b = object._textBounds;
+            return !!b && lx >= b.x && lx <= b.x + b.width && ly >= b.y && ly <= b.y + b.height;
+        }
+        if (object instanceof Two.Group) {
+            if (!inverse) return false;
+            const [lx, ly] = inverse.multiply(x, y, 1);
+            return object.children.some((child: any) => this.hitsObject(child, lx, ly));
+        }
+
+        const flattened = this.flattenShape(object, true);
+        if (!flattened) return false;
+        flattened.translation.set(0, 0);
+        flattened.rotation = 0;
+        flattened.scale = 1;
+        const item = this.twoPathToPaperPath(flattened);
+        item.transform(this.twoMatrixToPaperMatrix(object.matrix));
+        item.fillRule = object._fillRule ?? 'nonzero'; // What Two.js paints with, unless an import said otherwise
+        const point = new this.paperScope.Point(x, y);
+
+        const isVisible = (paint: any) => !!paint && paint !== 'transparent' && paint !== 'none';
+        let hit = isVisible(object.fill) && item.contains(point);
+        if (!hit && isVisible(object.stroke) && object.linewidth > 0) {
+            const scale = this.getScaleXY(object);
+            const reach = (object.linewidth * Math.max(Math.abs(scale.x), Math.abs(scale.y))) / 2 + slack;
+            const contours = (item instanceof this.paperScope.CompoundPath ? item.children : [item]) as paper.Path[];
+            hit = contours.some(contour => contour.segments.length > 0 && contour.getNearestPoint(point).getDistance(point) <= reach);
+        }
+        item.remove();
+        return hit;
+    }
+
+    // Rubber band: every shape touching the box joins the selection (on top of the shift-held selection).
+    private updateMarquee(group: Two.Group, x: number, y: number) {
+        const start = this.marquee.start;
+        const left = Math.min(start.x, x), right = Math.max(start.x, x);
+        const top = Math.min(start.y, y), bottom = Math.max(start.y, y);
+
+        if (!this.marquee.rect) {
+            this.marquee.rect = new Two.Rectangle(0, 0, 0, 0);
+            this.marquee.rect.fill = 'rgba(21, 101, 192, 0.08)';
+            this.marquee.rect.stroke = '#1565C0';
+            this.two.add(this.marquee.rect);
+        }
+        const rect = this.marquee.rect;
+        rect.translation.set((left + right) / 2, (top + bottom) / 2);
+        rect.width = right - left;
+        rect.height = bottom - top;
+        rect.linewidth = this.px(1);
+
+        // Compare in the layer's own space, like the shapes' bounds. All four corners, so turned layers are covered too
+        const box = this.convertBox({ left, top, right, bottom }, (cx, cy) => this.toLocal(group, cx, cy));
+        const touched = this.spatialIndex(group).query(box).filter((child: any) => child instanceof Two.Shape && this.isContentNode(child));
+        const next = [...this.marquee.base];
+        touched.forEach((shape: any) => { if (!next.includes(shape)) next.push(shape); });
+        this.selection = next;
+        this.updateSelectionHandles();
+    }
+
+    private endMarquee() {
+        if (this.marquee.rect) this.two.remove(this.marquee.rect);
+        this.marquee = { isActive: false, start: { x: 0, y: 0 }, base: [], rect: null };
+        this.broadcastSelection();
+    }
+    
+    // --- Primitives to Path (Flatten) ---
+    private flattenShape(shape: any, returnOnly = false): Two.Path | null {
+        // Variable-width strokes go through the copy below too, which leaves their centreline behind
+        if (shape instanceof Two.Path && !(shape as any)._isRoundedRect && !isVariableStroke(shape)) {
+             return returnOnly ? (shape as any).clone() : shape;
+        }
+
+        let path: Two.Path;
+        if (isTextObject(shape)) {
+            const outline = this.traceText(shape);
+            if (!outline) return null;
+            path = outline;
+        } else {
+            const vertices = shape.vertices.map((v: any) => v.clone());
+            path = new Two.Path(vertices, shape.closed, shape.curved, shape.manual);
+            path.fill = shape.fill;
+            path.stroke = shape.stroke;
+            path.linewidth = shape.linewidth;
+            copyPaints(shape, path);
+        }
+        
+        path.translation.copy(shape.translation);
+        path.rotation = shape.rotation;
+        path.scale = typeof shape.scale === 'object' ? new Two.Vector(shape.scale.x, shape.scale.y) : shape.scale;
+        path.skewX = shape.skewX;
+        path.skewY = shape.skewY;
+        path.opacity = shape.opacity;
+        path.blending = shape.blending;
+
+        if (!returnOnly && this.activeLayerId) {
+            const group = this.groups.get(this.activeLayerId);
+            if (group) {
+                const index = group.children.indexOf(shape);
+                shape.remove();
+                if (index >= 0) {
+                     group.children.splice(index, 0, path);
+                     path.parent = group; 
+                } else {
+                     group.add(path);
+                }
+            }
+        }
+        return path;
+    }
+
+    public flattenSelectedShape() {
+        if (this.selection.length === 0) return;
+        // A photo has no outline, it is left as it is
+        const flattened = this.selection
+            .filter(shape => !isImageObject(shape))
+            .map(shape => this.flattenShape(shape))
+            .filter((path): path is Two.Path => path !== null);
+        if (flattened.length === 0) return;
+        this.setSelection(flattened);
+        if (this.activeLayerId) this.generateThumbnail(this.activeLayerId);
+        this.commit('Convert to Path');
+    }
+    
+    // --- Boolean Operations Bridge ---
+    private twoMatrixToPaperMatrix(twoMatrix: Two.Matrix): paper.Matrix {
+        const m = twoMatrix.elements;
+        // Paper.js Matrix(a, c, b, d, tx, ty) vs Two.js elements [a, b, 0, c, d, 0, tx, ty, 1] (column-major-ish storage)
+        // Two.js m[1] is skewY (b in standard affine), m[3] is skewX (c in standard affine).
+        // Paper constructor expects: a, c, b, d, tx, ty.
+        // So we pass m[3] (c) to the 2nd arg, and m[1] (b) to the 3rd arg.
+        return new this.paperScope.Matrix(m[0], m[3], m[1], m[4], m[6], m[7]);
+    }
+
+    private twoPathToPaperPath(twoPath: Two.Path): paper.PathItem {
+        // A 'move' command starts a new piece (outlined text, earlier boolean results), which becomes a compound path
+        const pieces: paper.Path[] = [];
+        let path = new this.paperScope.Path({ closed: twoPath.closed });
+        twoPath.vertices.forEach((v, i) => {
+            if (i > 0 && v.command === Two.Commands.move) {
+                pieces.push(path);
+                path = new this.paperScope.Path({ closed: twoPath.closed });
+            }
+            const segment = new this.paperScope.Segment(
+                new this.paperScope.Point(v.x, v.y),
+                new this.paperScope.Point(v.controls?.left?.x || 0, v.controls?.left?.y || 0),
+                new this.paperScope.Point(v.controls?.right?.x || 0, v.controls?.right?.y || 0)
+            );
+            path.add(segment);
+        });
+        pieces.push(path);
+        const item: paper.PathItem = pieces.length > 1 ? new this.paperScope.CompoundPath({ children: pieces, fillRule: 'nonzero' }) : path;
+        const matrix = this.twoMatrixToPaperMatrix(twoPath.matrix);
+        item.transform(matrix);
+        return item;
+    }
+
     private importPaperItemToTwo(paperItem: paper.Item, targetGroup: Two.Group, styleSource: Two.Path | null): Two.Path | null {
         const allPaths: paper.Path[] = [];
     
@@ -787,8 +2538,8 @@ class CanvasEngine {
             twoPath.opacity = styleSource.opacity;
             twoPath.blending = styleSource.blending;
         }
-    
         targetGroup.add(twoPath);
+        if (styleSource) copyPaints(styleSource, twoPath);
         return twoPath;
     }
     
@@ -798,35 +2549,103 @@ class CanvasEngine {
             this.transformGroup = null;
         }
 
-        if (!this.selectedShape || this.tool !== 'select') return;
+        if (this.selection.length === 0 || this.tool !== 'select') return;
 
-        const bounds = this.selectedShape.getBoundingClientRect(true);
+        const bounds = this.getSelectionBounds();
         const group = new Two.Group();
         this.transformGroup = group;
 
-        const rect = new Two.Rectangle(bounds.left + bounds.width/2, bounds.top + bounds.height/2, bounds.width + 10, bounds.height + 10);
-        rect.noFill(); rect.stroke = '#1565C0'; rect.linewidth = 2;
-        group.add(rect);
+        // With several shapes, each one gets a thin outline inside the shared box
+        if (this.selection.length > 1) {
+            this.selection.forEach(shape => {
+                const b = shape.getBoundingClientRect(true);
+                const outline = new Two.Rectangle(b.left + b.width / 2, b.top + b.height / 2, b.width, b.height);
+                outline.noFill(); outline.stroke = '#1565C0'; outline.opacity = 0.5; outline.linewidth = this.px(1);
+                group.add(outline);
+            });
+        }
 
-        const handlePoints = [
-            { x: bounds.left - 5, y: bounds.top - 5 }, { x: bounds.right + 5, y: bounds.top - 5 },
-            { x: bounds.right + 5, y: bounds.bottom + 5 }, { x: bounds.left - 5, y: bounds.bottom + 5 },
-        ];
+        const pad = this.px(5);
+        const rect = new Two.Rectangle(bounds.left + bounds.width/2, bounds.top + bounds.height/2, bounds.width + pad * 2, bounds.height + pad * 2);
+        rect.noFill(); rect.stroke = '#1565C0'; rect.linewidth = this.px(2);
+        group.add(rect);
 
-        handlePoints.forEach(p => {
-            const handle = new Two.Circle(p.x, p.y, 5);
-            handle.fill = '#FFFFFF'; handle.stroke = '#1565C0'; handle.linewidth = 1;
+        // Round corners scale (or rotate from just outside), square edge handles scale one side (or skew with Ctrl/Cmd)
+        this.getTransformHandles(bounds).forEach(p => {
+            const isCorner = p.ix !== 0 && p.iy !== 0;
+            const handle = isCorner ? new Two.Circle(p.x, p.y, this.px(5)) : new Two.Rectangle(p.x, p.y, this.px(8), this.px(8));
+            handle.fill = '#FFFFFF'; handle.stroke = '#1565C0'; handle.linewidth = this.px(1);
             group.add(handle);
         });
+
+        // A gradient gets a line from its start to its end, each end painted with its stop colour
+        const target = this.getGradientTarget();
+        if (target) {
+            const { from, to } = this.getGradientHandles(target);
+            const stops = [...target.paint.stops].sort((a, b) => a.offset - b.offset);
+            const line = new Two.Line(from.x, from.y, to.x, to.y);
+            line.stroke = '#1565C0'; line.linewidth = this.px(1.5);
+            group.add(line);
+            [{ p: from, color: stops[0]?.color }, { p: to, color: stops[stops.length - 1]?.color }].forEach(({ p, color }) => {
+                const dot = new Two.Circle(p.x, p.y, this.px(6));
+                dot.fill = color ?? '#FFFFFF'; dot.stroke = '#FFFFFF'; dot.linewidth = this.px(2);
+                group.add(dot);
+            });
+        }
         this.two.add(group);
     }
+
+    // --- Gradient Handles ---
+
+    // The single selected shape's gradient that the on-canvas handles edit: its fill if that is a gradient, else its stroke.
+    private getGradientTarget(): { shape: any, channel: PaintChannel, paint: GradientPaint } | null {
+        const shape = this.selectedShape;
+        if (!shape || this.tool !== 'select') return null;
+        const channel: PaintChannel | null = getPaint(shape, 'fill') ? 'fill' : getPaint(shape, 'stroke') ? 'stroke' : null;
+        return channel ? { shape, channel, paint: getPaint(shape, channel)! } : null;
+    }
+
+    // The gradient's start and end, in the same space as the selection box.
+    private getGradientHandles(target: { shape: any, paint: GradientPaint }) {
+        const bounds = getLocalBounds(target.shape);
+        target.shape._update(); // Make sure the matrix matches the latest move
+        const place = (p: { x: number, y: number }) => {
+            const [x, y] = target.shape.matrix.multiply(bounds.x + p.x * bounds.width, bounds.y + p.y * bounds.height, 1);
+            return { x, y };
+        };
+        return { from: place(target.paint.from), to: place(target.paint.to) };
+    }
+
+    private hitGradientHandle(x: number, y: number): 'from' | 'to' | null {
+        const target = this.getGradientTarget();
+        if (!target) return null;
+        const { from, to } = this.getGradientHandles(target);
+        // The end wins when both overlap, so a collapsed gradient can still be pulled open
+        if (Math.hypot(x - to.x, y - to.y) <= this.px(HANDLE_RADIUS)) return 'to';
+        if (Math.hypot(x - from.x, y - from.y) <= this.px(HANDLE_RADIUS)) return 'from';
+        return null;
+    }
+
+    private updateGradientDrag(local: { x: number, y: number }) {
+        const target = this.getGradientTarget();
+        if (!target || !this.gradientDrag) return;
+        target.shape._update();
+        const inverse = target.shape.matrix.inverse();
+        if (!inverse) return;
+        const [lx, ly] = inverse.multiply(local.x, local.y, 1);
+        const bounds = getLocalBounds(target.shape);
+        const point = { x: (lx - bounds.x) / bounds.width, y: (ly - bounds.y) / bounds.height };
+        applyGradient(target.shape, target.channel, { ...target.paint, [this.gradientDrag]: point }, 'transparent');
+        this.updateSelectionHandles();
+        this.broadcastSelection();
+    }
     
     toLocal(object: any, x: number, y: number) {
         const dx = x - object.translation.x, dy = y - object.translation.y;
-        const cos = Math.cos(-object.rotation), sin = Math.sin(-object.rotation);
-        const rx = dx * cos - dy * sin, ry = dx * sin + dy * cos;
-        const scale = typeof object.scale === 'number' ? object.scale : (object.scale.x || 1);
-        return { x: rx / scale, y: ry / scale };
+        const { m11, m12, m21, m22 } = this.linearOf(object);
+        const det = m11 * m22 - m12 * m21;
+        if (det === 0) return { x: dx, y: dy }; // Squashed flat, every point is as good as any
+        return { x: (m22 * dx - m12 * dy) / det, y: (m11 * dy - m21 * dx) / det };
     }
     
     splitBezier(v1: Two.Anchor, v2: Two.Anchor, t: number) {
@@ -849,32 +2668,31 @@ class CanvasEngine {
         if (!this.activeLayerId) return false;
         const group = this.groups.get(this.activeLayerId);
         if (!group) return false;
-        
-        // Recursive hit test needed if we assume groups can contain groups
-        // But for editing paths, we usually only care about the immediate children of the Active Layer?
-        // Actually, if Active Layer is a group, we should look inside.
-        // For simplicity, we only hit test direct children for editing now.
-        
-        for (let i = group.children.length - 1; i >= 0; i--) {
-            const child = group.children[i];
-            if (child instanceof Two.Path) {
-                const bounds = child.getBoundingClientRect(true);
-                if (x >= bounds.left && x <= bounds.right && y >= bounds.top && y <= bounds.bottom) {
-                     this.penPath = child;
-                     if (this.transformGroup) { this.two.remove(this.transformGroup); this.transformGroup = null; this.selectedShape = null; }
-                     if (this.onToolChange) this.onToolChange('pen');
-                     this.updatePenHelpers();
-                     return true;
-                }
-            }
+
+        const local = this.toLocal(group, x, y);
+        const hit = this.hitTestShape(group, local.x, local.y);
+        if (isTextObject(hit)) {
+            this.beginTextEdit(hit, false);
+            return true;
+        }
+
+        // The pen edits paths that sit directly in the layer. Shapes inside nested groups (and photos) are left alone.
+        if (hit instanceof Two.Path && !isImageObject(hit)) {
+            this.penPath = hit;
+            this.setSelection([]);
+            if (this.onToolChange) this.onToolChange('pen');
+            this.updatePenHelpers();
+            return true;
         }
         return false;
     }
 
-    handleDown(rawX: number, rawY: number) {
+    handleDown(rawX: number, rawY: number, mods: PointerModifiers = NO_MODIFIERS, input: PointerInput = FULL_PRESSURE) {
         // Convert screen coordinates to scene coordinates (Center Origin)
-        const x = rawX - this.two.width / 2;
-        const y = rawY - this.two.height / 2;
+        const { x, y } = this.toScene(rawX, rawY);
+
+        // Clicking anywhere on the canvas ends the text being typed
+        this.finishTextEdit();
         
         const now = Date.now();
         if (now - this.lastClickTime < 300) {
@@ -888,6 +2706,15 @@ class CanvasEngine {
         if (!group) return;
         const local = this.toLocal(group, x, y);
 
+        // Text is committed when typing ends, not when the pointer goes up
+        if (this.tool === 'text') {
+            const hit = this.hitTestShape(group, local.x, local.y);
+            if (isTextObject(hit)) { this.beginTextEdit(hit, false); return; }
+            const placed = this.snapScenePoint({ x, y }, mods);
+            this.beginTextEdit(this.createText(group, this.toLocal(group, placed.x, placed.y)), true);
+            return;
+        }
+
         // --- Build Mode Interaction ---
         if (this.tool === 'shape' && this.settings.shapeMode === 'build' && this.buildState.isActive) {
              this.isInteracting = true;
@@ -898,109 +2725,161 @@ class CanvasEngine {
              return;
         }
 
+        // On a paint layer, brush, eraser and bucket work on its pixels
+        if (PAINT_TOOLS.includes(this.tool) && this.rasterLayerIds.has(this.activeLayerId)) {
+            this.isInteracting = true;
+            this.rasterStroke = { raster: this.ensureRaster(group), stroke: beginBrushStroke() };
+            this.paintRaster(local, input);
+            return;
+        }
+
         this.isInteracting = true;
 
         if (this.tool === 'delete') {
-            for (let i = group.children.length - 1; i >= 0; i--) {
-                const child = group.children[i]; if (!(child instanceof Two.Shape)) continue;
-                const bounds = child.getBoundingClientRect(true);
-                if (x >= bounds.left && x <= bounds.right && y >= bounds.top && y <= bounds.bottom) { 
-                    child.remove(); 
-                    if (this.activeLayerId) this.generateThumbnail(this.activeLayerId);
-                    break; 
-                }
+            const hit = this.hitTestShape(group, local.x, local.y);
+            if (hit) {
+                hit.remove();
+                if (this.selection.includes(hit)) this.setSelection(this.selection.filter(shape => shape !== hit));
+                if (this.activeLayerId) this.generateThumbnail(this.activeLayerId);
             }
         } else if (this.tool === 'select') {
-            this.selectedShape = null;
-            let found = false;
-
-            for (let i = group.children.length - 1; i >= 0; i--) {
-                const child = group.children[i]; if (!(child instanceof Two.Shape)) continue;
-                const bounds = child.getBoundingClientRect(true);
-                if (x >= bounds.left && x <= bounds.right && y >= bounds.top && y <= bounds.bottom) {
-                    this.selectedShape = child;
-                    this.dragOffset = { x: local.x - child.translation.x, y: local.y - child.translation.y };
-                    found = true;
-                    this.broadcastSelectionType(child);
-                    break;
-                }
-            }
-            if (found && this.selectedShape) {
-                if (this.onSelectionPropertiesChange) {
-                    const shape = this.selectedShape as any;
-                    const stroke = shape.stroke, fill = shape.fill;
-                    const strokeIsTransparent = stroke === 'transparent', fillIsTransparent = fill === 'transparent';
-                    const strokeColorStr = !strokeIsTransparent && typeof stroke === 'object' && 'toHexString' in stroke ? (stroke as any).toHexString() : typeof stroke === 'string' ? stroke : this.settings.strokeColor;
-                    const fillColorStr = !fillIsTransparent && typeof fill === 'object' && 'toHexString' in fill ? (fill as any).toHexString() : typeof fill === 'string' ? fill : this.settings.fillColor;
-                    
-                    const propsToUpdate: Partial<ToolSettings> = {
-                        strokeEnabled: !strokeIsTransparent, strokeColor: strokeIsTransparent ? this.settings.strokeColor : strokeColorStr,
-                        fillEnabled: !fillIsTransparent, fillColor: fillIsTransparent ? this.settings.fillColor : fillColorStr,
-                        strokeWidth: shape.linewidth, lineCap: 'cap' in shape ? shape.cap : this.settings.lineCap, lineJoin: 'join' in shape ? shape.join : this.settings.lineJoin,
-                        // Add transform properties
-                        selectionX: shape.translation.x,
-                        selectionY: shape.translation.y,
-                        selectionRotation: (shape.rotation * 180) / Math.PI,
-                        selectionScale: typeof shape.scale === 'number' ? shape.scale : shape.scale.x, // Assuming uniform scale
-                    };
-
-                    if ((shape as any)._isRoundedRect) { propsToUpdate.cornerRadius = (shape as any)._cornerRadius; }
-                    if (shape instanceof Two.Star) { propsToUpdate.starPoints = shape.sides; propsToUpdate.starInnerRadius = shape.outerRadius > 0 ? shape.innerRadius / shape.outerRadius : 0.5; }
-                    if (shape instanceof Two.Polygon) { propsToUpdate.polygonSides = shape.sides; }
-                    this.onSelectionPropertiesChange(propsToUpdate);
-                }
-            } else { 
-                this.selectedShape = null; 
-                if (this.onSelectionTypeChange) this.onSelectionTypeChange(null);
-            }
+            this.gradientDrag = this.hitGradientHandle(x, y);
+            if (this.gradientDrag) return;
 
-            this.updateSelectionHandles();
+            const grabbed = this.hitTransformHandle(x, y, mods);
+            if (grabbed) {
+                this.beginTransform(grabbed.handle, grabbed.mode, local);
+                return;
+            }
 
-        } else if (this.tool === 'pen') { this.handlePenDown(local.x, local.y, group);
+            // Alt-click digs down through stacked shapes: each click picks the next one below the current pick
+            const hits = this.hitTestAll(group, local.x, local.y);
+            const current = mods.alt ? hits.findIndex(shape => this.selection.includes(shape)) : -1;
+            const hit = current >= 0 ? hits[(current + 1) % hits.length] : hits[0];
+            if (hit) {
+                // Shift toggles a shape in or out; a plain click on a selected shape keeps the whole selection for dragging
+                if (mods.shift) this.setSelection(this.selection.includes(hit) ? this.selection.filter(shape => shape !== hit) : [...this.selection, hit]);
+                else if (!this.selection.includes(hit)) this.setSelection([hit]);
+
+                const origins = new Map<any, { x: number, y: number }>();
+                this.selection.forEach(shape => origins.set(shape, { x: shape.translation.x, y: shape.translation.y }));
+                const box = this.selection.length > 0 ? this.convertBox(this.getSelectionBounds(), (bx, by) => this.fromLocal(group, bx, by)) : null;
+                this.moveState = { isActive: this.selection.length > 0, start: { x: local.x, y: local.y }, origins, box };
+            } else {
+                // Empty space starts a rubber band. Without shift it replaces the selection.
+                if (!mods.shift) this.setSelection([]);
+                this.marquee = { isActive: true, start: { x, y }, base: [...this.selection], rect: null };
+            }
+        } else if (this.tool === 'pen') {
+            const anchors = this.penPath ? this.penPath.vertices.map(v => { const p = this.fromLocal(this.penPath, v.x, v.y); return this.fromLocal(group, p.x, p.y); }) : [];
+            const placed = this.snapScenePoint({ x, y }, mods, new Set([this.penPath]), anchors);
+            this.handlePenDown(local.x, local.y, group, this.toLocal(group, placed.x, placed.y));
+        } else if (this.tool === 'brush' && this.settings.brushWidthMode !== 'fixed') {
+            this.beginVariableStroke(this.snapToGuides(local, group, mods), input, group);
         } else if (this.tool === 'brush') {
-            const path = new Two.Path([new Two.Anchor(local.x, local.y)], false, true);
+            const start = this.snapToGuides(local, group, mods);
+            const path = new Two.Path([new Two.Anchor(start.x, start.y)], false, true);
             path.stroke = this.settings.strokeEnabled ? this.settings.strokeColor : 'transparent';
             path.linewidth = this.settings.strokeWidth;
             path.fill = this.settings.fillEnabled ? this.settings.fillColor : 'transparent';
             path.cap = this.settings.lineCap; path.join = this.settings.lineJoin;
+            this.applyGradientSettings(path);
             group.add(path); this.currentPath = path;
-        } else if (this.tool === 'shape') { this.handleShapeDown(local.x, local.y, group, x, y); }
+            this.brushStabilizer = createStabilizer(this.settings.brushStabilizer, this.settings.brushSmoothing);
+            stabilize(this.brushStabilizer, start);
+        } else if (this.tool === 'eraser') { this.beginEraserSweep(local, group);
+        } else if (this.tool === 'fill') { this.fillVectorRegion(local, group);
+        } else if (this.tool === 'shape') {
+            const start = this.settings.shapeMode === 'build' ? { x, y } : this.snapScenePoint({ x, y }, mods);
+            const target = this.toLocal(group, start.x, start.y);
+            this.handleShapeDown(target.x, target.y, group, start.x, start.y);
+        }
     }
 
-    handleMove(rawX: number, rawY: number) {
+    handleMove(rawX: number, rawY: number, mods: PointerModifiers = NO_MODIFIERS, input: PointerInput = FULL_PRESSURE) {
+        this.pointer = { x: rawX, y: rawY };
         // Convert screen coordinates to scene coordinates (Center Origin)
-        const x = rawX - this.two.width / 2;
-        const y = rawY - this.two.height / 2;
+        const { x, y } = this.toScene(rawX, rawY);
         
         if (!this.activeLayerId) return;
         const group = this.groups.get(this.activeLayerId);
         if (!group) return;
         const local = this.toLocal(group, x, y);
 
+        // Live strokes and drags wrap around while they happen
+        if (this.isInteracting) this.markTileDirty();
+
+        if (this.rasterStroke && this.isInteracting) {
+            if (this.tool !== 'fill') this.paintRaster(local, input); // The bucket fills once, on press
+            return;
+        }
+
         // --- Build Mode Interaction ---
         if (this.tool === 'shape' && this.settings.shapeMode === 'build' && this.buildState.isActive && this.isInteracting) {
             this.updateBuildLasso(local.x, local.y);
             return;
         }
 
-        if (this.tool === 'select' && this.selectedShape && this.isInteracting) {
-            this.selectedShape.translation.set(local.x - this.dragOffset.x, local.y - this.dragOffset.y);
+        if (this.tool === 'select' && this.isInteracting && this.gradientDrag) {
+            this.updateGradientDrag(local);
+        } else if (this.tool === 'select' && this.isInteracting && this.transformState.mode) {
+            const pointer = this.transformState.mode === 'scale' ? this.snapScale(x, y, group, mods) : { x, y };
+            this.updateTransform(this.toLocal(group, pointer.x, pointer.y), mods);
+        } else if (this.tool === 'select' && this.isInteracting && this.marquee.isActive) {
+            this.updateMarquee(group, x, y);
+        } else if (this.tool === 'select' && this.isInteracting && this.moveState.isActive) {
+            const pointer = this.snapMove(x, y, group, mods);
+            const target = this.toLocal(group, pointer.x, pointer.y);
+            const dx = target.x - this.moveState.start.x, dy = target.y - this.moveState.start.y;
+            this.moveState.origins.forEach((origin, shape) => shape.translation.set(origin.x + dx, origin.y + dy));
             this.updateSelectionHandles();
             if (this.onSelectionPropertiesChange) {
-                this.onSelectionPropertiesChange({
-                    selectionX: this.selectedShape.translation.x,
-                    selectionY: this.selectedShape.translation.y,
-                });
+                if (this.selectedShape) {
+                    this.onSelectionPropertiesChange({
+                        selectionX: this.selectedShape.translation.x,
+                        selectionY: this.selectedShape.translation.y,
+                    });
+                } else {
+                    const bounds = this.getSelectionBounds();
+                    const center = { selectionX: bounds.left + bounds.width / 2, selectionY: bounds.top + bounds.height / 2 };
+                    this.settings = { ...this.settings, ...center };
+                    this.onSelectionPropertiesChange(center);
+                }
             }
         } else if (this.tool === 'brush') {
-            if (this.isInteracting && this.currentPath) this.currentPath.vertices.push(new Two.Anchor(local.x, local.y));
-        } else if (this.tool === 'pen') { this.handlePenMove(local.x, local.y);
-        } else if (this.tool === 'shape') { this.handleShapeMove(local.x, local.y, x, y); }
+            if (this.isInteracting && this.currentPath && this.brushStabilizer) {
+                const steadied = stabilize(this.brushStabilizer, local);
+                const point = steadied && this.snapToGuides(steadied, group, mods);
+                if (point && isVariableStroke(this.currentPath)) {
+                    this.extendVariableStroke(this.currentPath, point, input);
+                } else if (point) {
+                    this.currentPath.vertices.push(new Two.Anchor(point.x, point.y));
+                    refreshGradients(this.currentPath);
+                }
+            }
+        } else if (this.tool === 'pen') {
+            const pointer = this.isInteracting ? this.snapPenPointer(x, y, mods) : { x, y };
+            const target = this.toLocal(group, pointer.x, pointer.y);
+            this.handlePenMove(target.x, target.y);
+            if (this.penPath) refreshGradients(this.penPath);
+        } else if (this.tool === 'eraser') {
+            if (this.isInteracting && this.eraserSweep) {
+                this.eraserSweep.points.push({ x: local.x, y: local.y });
+                this.eraserSweep.preview.vertices.push(new Two.Anchor(local.x, local.y));
+            }
+        } else if (this.tool === 'shape' && this.isInteracting && this.tempShape) {
+            const pointer = this.snapScenePoint({ x, y }, mods, new Set([this.tempShape]));
+            const target = this.toLocal(group, pointer.x, pointer.y);
+            this.handleShapeMove(target.x, target.y, pointer.x, pointer.y);
+        }
     }
 
     handleUp() {
+        const wasInteracting = this.isInteracting;
+        const isBuilding = this.tool === 'shape' && this.settings.shapeMode === 'build' && this.buildState.isActive;
+
         // --- Build Mode Interaction ---
-        if (this.tool === 'shape' && this.settings.shapeMode === 'build' && this.buildState.isActive && this.isInteracting) {
+        if (isBuilding && this.isInteracting) {
              this.finalizeBuild();
              this.buildState.lassoPath!.vertices = []; // Reset Lasso visual
              this.buildState.lassoPoints = [];
@@ -1009,11 +2888,300 @@ class CanvasEngine {
 
         if (this.isInteracting && this.activeLayerId) {
             this.generateThumbnail(this.activeLayerId);
+            this.markTileDirty();
         }
 
+        if (this.marquee.isActive) this.endMarquee();
+        this.clearSnapGuides();
+        this.moveState.isActive = false;
+        this.transformState.mode = null;
+        const wasEditingGradient = this.gradientDrag !== null;
+        this.gradientDrag = null;
+        this.rasterStroke = null;
+
+        if (this.tool === 'brush' && this.currentPath) this.finishBrushStroke(this.currentPath);
+        this.touch(this.currentPath);
+        if (this.eraserSweep) this.finishEraserSweep();
+
         this.isInteracting = false; this.currentPath = null;
         if (this.tool === 'pen') { if (this.penInteraction.mode === 'creating' || this.penInteraction.mode !== 'idle') { this.penInteraction.mode = 'idle'; }
         } else if (this.tool === 'shape') { this.handleShapeUp(); }
+
+        // One pointer gesture = one undo step. Clicks that changed nothing are ignored by the history itself.
+        if (wasInteracting) this.commit(isBuilding ? 'Shape Builder' : wasEditingGradient ? 'Edit Gradient' : (COMMIT_LABELS[this.tool] || 'Edit'));
+    }
+
+    // --- Vector Brush ---
+
+    // Catches the stroke up with the pointer, then swaps the hundreds of raw points for a few smooth curves
+    private finishBrushStroke(path: Two.Path) {
+        const settled = this.brushStabilizer ? settleStabilizer(this.brushStabilizer) : [];
+        this.brushStabilizer = null;
+        if (isVariableStroke(path)) {
+            // The centreline stays a list of samples, it is what the width profile is edited on. It is thinned out
+            // and the outline rebuilt once, taper and all.
+            settled.forEach(p => this.extendVariableStroke(path, p, FULL_PRESSURE));
+            this.brushLastSample = null;
+            const stroke = (path as any)._variableStroke;
+            applyVariableStroke(path, { ...stroke, samples: simplifySamples(stroke, this.settings.brushSimplify) });
+            return;
+        }
+        settled.forEach(p => path.vertices.push(new Two.Anchor(p.x, p.y)));
+        const tolerance = this.settings.brushSimplify;
+        if (tolerance <= 0 || path.vertices.length < 3) { refreshGradients(path); return; }
+
+        // paper.js fits Bézier curves to the points (Schneider's algorithm), staying within `tolerance` px of them
+        const fitted = new this.paperScope.Path({ segments: path.vertices.map(v => [v.x, v.y]), insert: false });
+        fitted.simplify(tolerance);
+        path.vertices = fitted.segments.map((segment, index) => new Two.Anchor(
+            segment.point.x, segment.point.y,
+            segment.handleIn.x, segment.handleIn.y,
+            segment.handleOut.x, segment.handleOut.y,
+            index === 0 ? Two.Commands.move : Two.Commands.curve
+        ));
+        path.automatic = false; // Keep paper's handles instead of letting Two.js guess new ones
+        fitted.remove();
+        refreshGradients(path);
+    }
+
+    // A brush stroke drawn as a filled outline whose width changes along the way. It is painted with the stroke colour.
+    private beginVariableStroke(local: StrokePoint, input: PointerInput, group: Two.Group) {
+        const path: any = new Two.Path([], true, true);
+        path.noStroke();
+        path.fill = this.settings.strokeColor;
+        if (this.settings.strokeGradient) applyGradient(path, 'fill', this.settings.strokeGradient, this.settings.strokeColor);
+        const factor = this.settings.brushWidthMode === 'pressure' ? input.pressure : 1;
+        this.brushLastSample = { time: performance.now(), factor };
+        this.brushStabilizer = createStabilizer(this.settings.brushStabilizer, this.settings.brushSmoothing);
+        stabilize(this.brushStabilizer, local);
+        applyVariableStroke(path, {
+            samples: [{ x: local.x, y: local.y, factor }],
+            width: this.settings.strokeWidth,
+            variation: this.settings.brushWidthVariation,
+            taperStart: this.settings.brushTaperStart,
+            taperEnd: this.settings.brushTaperEnd,
+        });
+        group.add(path); this.currentPath = path;
+    }
+
+    // Adds one centreline sample. Its width factor comes from the pen pressure or from how fast the pointer moved.
+    private extendVariableStroke(path: any, point: StrokePoint, input: PointerInput) {
+        const stroke = path._variableStroke;
+        const last = stroke.samples[stroke.samples.length - 1];
+        const now = performance.now();
+        const previous = this.brushLastSample ?? { time: now, factor: last.factor };
+        let factor = previous.factor;
+        if (this.settings.brushWidthMode === 'pressure') {
+            factor = input.pressure;
+        } else if (this.settings.brushWidthMode === 'velocity') {
+            const speed = Math.hypot(point.x - last.x, point.y - last.y) / Math.max(1, now - previous.time);
+            const target = 1 / (1 + speed / VELOCITY_HALF_WIDTH);
+            factor = previous.factor + (target - previous.factor) * VELOCITY_EASING; // Eased, so one fast jump doesn't pinch the line
+        }
+        this.brushLastSample = { time: now, factor };
+        growVariableStroke(path, { x: point.x, y: point.y, factor });
+    }
+
+    // --- Vector Eraser ---
+
+    private beginEraserSweep(local: StrokePoint, group: Two.Group) {
+        const preview = new Two.Path([new Two.Anchor(local.x, local.y)], false, false);
+        preview.noFill();
+        preview.stroke = '#C5221F';
+        preview.opacity = 0.35;
+        preview.linewidth = this.settings.strokeWidth;
+        preview.cap = 'round'; preview.join = 'round';
+        group.add(preview);
+        this.eraserSweep = { points: [{ x: local.x, y: local.y }], preview };
+    }
+
+    // Turns the trail into the area a round eraser of `strokeWidth` swept over, and cuts it out of the active layer
+    private finishEraserSweep() {
+        const sweep = this.eraserSweep;
+        this.eraserSweep = null;
+        if (!sweep) return;
+        sweep.preview.remove();
+        const group = this.activeLayerId ? this.groups.get(this.activeLayerId) : null;
+        if (!group) return;
+
+        const outline = outlineStroke({
+            samples: sweep.points.map(p => ({ ...p, factor: 1 })),
+            width: this.settings.strokeWidth, variation: 0, taperStart: 0, taperEnd: 0,
+        });
+        const swept = new this.paperScope.Path({ segments: outline.map(p => [p.x, p.y]), closed: true, fillRule: 'nonzero', insert: false });
+        this.eraseFromGroup(group, swept);
+        swept.remove();
+    }
+
+    // `cutter` is in `group`'s own space. Nested groups get it moved into theirs.
+    private eraseFromGroup(group: Two.Group, cutter: paper.PathItem) {
+        [...group.children].forEach((child: any) => {
+            if (!this.isContentNode(child) || child === this.buildState.container) return;
+            // Live text, painted pixels and photos have no outline to cut. Text can be traced into a path first.
+            if (isTextObject(child) || isRasterObject(child) || isImageObject(child)) return;
+
+            if (child instanceof Two.Group) {
+                const inner = cutter.clone({ insert: false }) as paper.PathItem;
+                inner.transform(this.twoMatrixToPaperMatrix(child.matrix).inverted());
+                this.eraseFromGroup(child, inner);
+                inner.remove();
+            } else if (child instanceof Two.Shape) {
+                this.eraseFromShape(child, group, cutter);
+            }
+        });
+    }
+
+    private eraseFromShape(shape: any, parent: Two.Group, cutter: paper.PathItem) {
+        const flattened = this.flattenShape(shape, true);
+        if (!flattened) return;
+        flattened.translation.set(0, 0);
+        flattened.rotation = 0;
+        flattened.scale = 1;
+        const item = this.twoPathToPaperPath(flattened);
+        item.transform(this.twoMatrixToPaperMatrix(shape.matrix));
+
+        // Filled closed shapes lose an area. Everything else is a line, which is cut into separate pieces.
+        const isArea = shape.closed && shape.fill && shape.fill !== 'transparent' && shape.fill !== 'none';
+        // Without crossings the shape is either fully under the eraser, fully clear of it, or (areas) around it
+        const firstPath = (item instanceof this.paperScope.CompoundPath ? item.firstChild : item) as paper.Path;
+        const touched = item.bounds.intersects(cutter.bounds) && (
+            item.getIntersections(cutter).length > 0
+            || (!!firstPath?.firstSegment && cutter.contains(firstPath.firstSegment.point))
+            || (isArea && item.contains(cutter.bounds.center))
+        );
+        if (!touched) { item.remove(); return; }
+
+        const result = item.subtract(cutter, isArea ? undefined : { trace: false });
+        const index = parent.children.indexOf(shape);
+        const pieces: Two.Path[] = [];
+        if (isArea) {
+            const path = result.isEmpty() ? null : this.importPaperItemToTwo(result, parent, shape);
+            if (path) pieces.push(path);
+        } else {
+            const parts = result instanceof this.paperScope.CompoundPath ? [...result.children] : [result];
+            parts.forEach(part => {
+                if (part.isEmpty()) return;
+                const path = this.importPaperItemToTwo(part, parent, shape);
+                if (path) { path.cap = shape.cap; path.join = shape.join; pieces.push(path); }
+            });
+        }
+
+        // The pieces take the erased shape's place in the stacking order
+        shape.remove();
+        pieces.forEach((piece, i) => {
+            piece.remove();
+            parent.children.splice(Math.max(0, index) + i, 0, piece);
+            (piece as any).parent = parent;
+        });
+        item.remove(); result.remove();
+    }
+
+    // --- Vector Paint Bucket ---
+
+    /**
+     * Live-paint style fill: every edge in the active layer (outlines of filled shapes and open lines alike)
+     * becomes a thin wall, `fillGapTolerance` px wide so small gaps between strokes close up. The room the
+     * click landed in, minus any rooms nested inside it, becomes a new filled shape. Walls eat half their
+     * width into the room, so it is grown back by that much and reaches the middle of the lines again.
+     */
+    private fillVectorRegion(local: StrokePoint, group: Two.Group) {
+        if (!this.settings.fillEnabled) return; // With fill switched off there is nothing to pour
+        const collected: { twoShape: Two.Shape, paperItem: paper.PathItem }[] = [];
+        this.collectShapes(group, collected);
+        if (collected.length === 0) return;
+
+        const point = new this.paperScope.Point(local.x, local.y);
+        const wallWidth = Math.max(1, this.settings.fillGapTolerance);
+        // A band of wallWidth centred on the contour. Rings come out as one self-overlapping outline, so combine them 'nonzero'.
+        const bandAround = (contour: paper.Path): paper.Path | null => {
+            const samples = contour.segments.map(segment => ({ x: segment.point.x, y: segment.point.y, factor: 1 }));
+            if (contour.closed && samples.length > 0) samples.push({ ...samples[0] });
+            const outline = outlineStroke({ samples, width: wallWidth, variation: 0, taperStart: 0, taperEnd: 0 });
+            return outline.length > 2 ? new this.paperScope.Path({ segments: outline.map(p => [p.x, p.y]), closed: true, insert: false }) : null;
+        };
+        const walls: paper.Path[] = [];
+        const filledUnderPoint: any[] = [];
+        collected.forEach(({ twoShape, paperItem }) => {
+            const fill = (twoShape as any).fill;
+            const isFilled = (twoShape as any).closed && fill && fill !== 'transparent' && fill !== 'none';
+            if (isFilled && paperItem.contains(point)) filledUnderPoint.push(twoShape);
+
+            const flat = paperItem.clone({ insert: false }) as paper.PathItem;
+            flat.flatten(1);
+            const contours = (flat instanceof this.paperScope.CompoundPath ? flat.children : [flat]) as paper.Path[];
+            contours.forEach(contour => {
+                const band = bandAround(contour);
+                if (band) walls.push(band);
+            });
+            flat.remove(); paperItem.remove();
+        });
+        if (walls.length === 0) return;
+
+        const wall = new this.paperScope.CompoundPath({ children: walls, fillRule: 'nonzero', insert: false });
+        const room = new this.paperScope.Path.Rectangle({ rectangle: wall.bounds.expand(wallWidth * 4), insert: false });
+        const free = room.subtract(wall);
+        const contours = (free instanceof this.paperScope.CompoundPath ? [...free.children] : [free]) as paper.Path[];
+
+        // Contours with positive area enclose free space, negative ones are the walls' holes inside them.
+        // The innermost free contour around the click is the region, unless that is the open space around everything.
+        const region = contours
+            .filter(contour => contour.area > 0 && contour.contains(point))
+            .sort((a, b) => a.area - b.area)[0];
+        if (region && region.area < room.area - 1) {
+            let fillArea: paper.PathItem = region.clone({ insert: false });
+            contours
+                .filter(contour => contour.area < 0 && contour !== region && region.contains(contour.firstSegment.point))
+                .forEach(hole => { fillArea = fillArea.subtract(hole); });
+            const edges = ((fillArea instanceof this.paperScope.CompoundPath ? fillArea.children : [fillArea]) as paper.Path[])
+                .map(bandAround)
+                .filter((band): band is paper.Path => band !== null);
+            if (edges.length > 0) {
+                fillArea = fillArea.unite(new this.paperScope.CompoundPath({ children: edges, fillRule: 'nonzero', insert: false }));
+            }
+
+            const path = this.importPaperItemToTwo(fillArea, group, null);
+            if (path) {
+                path.noStroke();
+                applyGradient(path, 'fill', this.settings.fillGradient, this.settings.fillColor);
+                // Painted under the lines, but above any filled shape the click landed in
+                path.remove();
+                const index = Math.max(0, ...filledUnderPoint.map(shape => this.topLevelIndex(group, shape) + 1));
+                group.children.splice(index, 0, path);
+                (path as any).parent = group;
+            }
+            fillArea.remove();
+        }
+        [wall, room, free].forEach(item => item.remove());
+    }
+
+    // Where a shape (or the nested group holding it) sits among the layer's own children
+    private topLevelIndex(group: Two.Group, shape: any): number {
+        let top = shape;
+        while (top.parent && top.parent !== group) top = top.parent;
+        return group.children.indexOf(top);
+    }
+
+    // --- Paint Layers ---
+
+    // The pixel surface of a paint layer, made on first use. It sits at the bottom, so shapes drawn on the layer stay on top.
+    private ensureRaster(group: Two.Group): any {
+        const existing = group.children.find((child: any) => isRasterObject(child));
+        if (existing) return existing;
+        const raster = createRasterObject(this.artboard.width, this.artboard.height);
+        group.children.splice(0, 0, raster);
+        raster.parent = group;
+        return raster;
+    }
+
+    // Hands one pointer sample to the useDraw brush, in the surface's pixel space.
+    private paintRaster(local: { x: number, y: number }, input: PointerInput) {
+        if (!this.rasterStroke || !this.paint) return;
+        const { raster, stroke } = this.rasterStroke;
+        const ctx = getRasterContext(raster);
+        if (!ctx) return;
+        const pixel = toRasterPixel(raster, local.x - raster.translation.x, local.y - raster.translation.y);
+        this.paint(ctx, { ...pixel, ...input }, stroke);
+        markRasterChanged(raster);
     }
 
     handleShapeDown(localX: number, localY: number, group: Two.Group, globalX: number, globalY: number) {
@@ -1034,6 +3202,7 @@ class CanvasEngine {
             shape.fill = this.settings.fillEnabled ? this.settings.fillColor : 'transparent';
             shape.stroke = this.settings.strokeEnabled ? this.settings.strokeColor : 'transparent';
             shape.linewidth = this.settings.strokeWidth;
+            this.applyGradientSettings(shape);
             group.add(shape); this.tempShape = shape;
         }
     }
@@ -1046,6 +3215,7 @@ class CanvasEngine {
         if (this.tempShape instanceof Two.Line) {
             this.tempShape.vertices[1].x = localX;
             this.tempShape.vertices[1].y = localY;
+            refreshGradients(this.tempShape);
             return;
         }
         
@@ -1063,6 +3233,7 @@ class CanvasEngine {
             rectPath.linewidth = this.settings.strokeWidth;
             (rectPath as any)._isRoundedRect = true;
             (rectPath as any)._cornerRadius = radius;
+            this.applyGradientSettings(rectPath);
             this.tempShape.add(rectPath);
             return; 
         }
@@ -1081,6 +3252,7 @@ class CanvasEngine {
             this.tempShape.radius = radius;
             this.tempShape.sides = this.settings.polygonSides;
         }
+        refreshGradients(this.tempShape);
     }
 
     handleShapeUp() {
@@ -1099,8 +3271,9 @@ class CanvasEngine {
         this.tempShape = null;
     }
 
-    handlePenDown(x: number, y: number, group: Two.Group) {
-        const HIT_RADIUS = 12;
+    // `place` is where a new anchor goes (the click, snapped); existing anchors and segments are hit at the click itself
+    handlePenDown(x: number, y: number, group: Two.Group, place = { x, y }) {
+        const HIT_RADIUS = this.px(12);
         if (this.penPath && this.selectedAnchorIdx !== -1) {
             const v = this.penPath.vertices[this.selectedAnchorIdx];
             if (v) {
@@ -1142,10 +3315,10 @@ class CanvasEngine {
         if (!this.penPath || this.penPath.closed) {
             const path = new Two.Path([], false, true, true);
             path.stroke = this.settings.strokeEnabled ? this.settings.strokeColor : '#000'; path.linewidth = this.settings.strokeWidth; path.fill = this.settings.fillEnabled ? this.settings.fillColor : 'transparent';
-            path.cap = this.settings.lineCap; path.join = this.settings.lineJoin; group.add(path); this.penPath = path;
-            const anchor = new Two.Anchor(x, y, 0,0,0,0, Two.Commands.curve); path.vertices.push(anchor); this.updateAnchorSelection(0); this.penInteraction = { mode: 'creating', dragStart: {x,y}, initialPos: {x,y} };
+            path.cap = this.settings.lineCap; path.join = this.settings.lineJoin; this.applyGradientSettings(path); group.add(path); this.penPath = path;
+            const anchor = new Two.Anchor(place.x, place.y, 0,0,0,0, Two.Commands.curve); path.vertices.push(anchor); this.updateAnchorSelection(0); this.penInteraction = { mode: 'creating', dragStart: {...place}, initialPos: {...place} };
         } else {
-            const local = this.toLocal(this.penPath, x, y);
+            const local = this.toLocal(this.penPath, place.x, place.y);
             const anchor = new Two.Anchor(local.x, local.y, 0,0,0,0, Two.Commands.curve); this.penPath.vertices.push(anchor); this.updateAnchorSelection(this.penPath.vertices.length - 1);
             this.penInteraction = { mode: 'creating', dragStart: {x: local.x, y: local.y}, initialPos: {x: local.x, y: local.y} };
         }
@@ -1178,11 +3351,11 @@ class CanvasEngine {
         helpers.translation.copy(this.penPath.translation); helpers.rotation = this.penPath.rotation; helpers.scale = this.penPath.scale;
         this.penPath.vertices.forEach((v, i) => {
             const isSelected = i === this.selectedAnchorIdx;
-            const c = new Two.Circle(v.x, v.y, isSelected ? 6 : 4); c.fill = isSelected ? '#1565C0' : (i === 0 ? '#4CAF50' : '#FFFFFF'); c.stroke = isSelected ? '#FFFFFF' : '#1565C0'; c.linewidth = 1.5; helpers.add(c);
+            const c = new Two.Circle(v.x, v.y, this.px(isSelected ? 6 : 4)); c.fill = isSelected ? '#1565C0' : (i === 0 ? '#4CAF50' : '#FFFFFF'); c.stroke = isSelected ? '#FFFFFF' : '#1565C0'; c.linewidth = this.px(1.5); helpers.add(c);
             if (isSelected) {
                 const lx = v.x + v.controls.left.x, ly = v.y + v.controls.left.y, rx = v.x + v.controls.right.x, ry = v.y + v.controls.right.y;
-                const lineL = new Two.Line(v.x, v.y, lx, ly), lineR = new Two.Line(v.x, v.y, rx, ry); lineL.stroke = lineR.stroke = '#1565C0'; lineL.linewidth = 1; lineR.opacity = lineL.opacity = 0.5; helpers.add(lineL, lineR);
-                const circleL = new Two.Circle(lx, ly, 4), circleR = new Two.Circle(rx, ry, 4); circleL.fill = circleR.fill = '#FFFFFF'; circleL.stroke = circleR.stroke = '#1565C0'; circleL.linewidth = 1.5; helpers.add(circleL, circleR);
+                const lineL = new Two.Line(v.x, v.y, lx, ly), lineR = new Two.Line(v.x, v.y, rx, ry); lineL.stroke = lineR.stroke = '#1565C0'; lineL.linewidth = lineR.linewidth = this.px(1); lineR.opacity = lineL.opacity = 0.5; helpers.add(lineL, lineR);
+                const circleL = new Two.Circle(lx, ly, this.px(4)), circleR = new Two.Circle(rx, ry, this.px(4)); circleL.fill = circleR.fill = '#FFFFFF'; circleL.stroke = circleR.stroke = '#1565C0'; circleL.linewidth = circleR.linewidth = this.px(1.5); helpers.add(circleL, circleR);
             }
         });
         this.two.add(helpers);
@@ -1195,11 +3368,17 @@ interface StageProps {
   activeLayerId: string | null;
   activeTool: Tool;
   toolSettings: ToolSettings;
+  canvasSettings: CanvasSettings;
+  guides: Guide[];
+  onGuidesChange?: (guides: Guide[], label: string) => void;
   onToolChange?: (tool: Tool) => void;
   onAnchorSelect?: (isSelected: boolean) => void;
   onSelectionTypeChange?: (type: SelectedObjectType) => void;
   onSelectionPropertiesChange?: (properties: Partial<ToolSettings>) => void;
   onThumbnailReady?: (id: string, dataUrl: string) => void;
+  onCommit?: (label: string, coalesceKey?: string) => void;
+  onZoomChange?: (zoom: number) => void;
+  onDropFiles?: (files: File[]) => void;
 }
 
 export interface StageHandle {
@@ -1210,26 +3389,113 @@ export interface StageHandle {
     setPathClosed: (closed: boolean) => void;
     flattenSelectedShape: () => void;
     duplicateLayerContent: (originalId: string, newId: string) => void;
+    getCanvasSize: () => CanvasSize;
+    serializeContent: () => Record<string, SerializedNode[]>;
+    loadContent: (content: Record<string, SerializedNode[]>) => void;
+    generateSceneThumbnail: () => string | null;
+    setZoom: (zoom: number) => void;
+    zoomBy: (factor: number) => void;
+    zoomToFit: () => void;
+    zoomToSelection: () => void;
+    deleteSelection: () => boolean;
+    deselect: () => boolean;
+    nudgeSelection: (dx: number, dy: number) => boolean;
+    duplicateSelection: () => boolean;
+    copySelection: () => ClipboardShapes | null;
+    cutSelection: () => ClipboardShapes | null;
+    pasteShapes: (clip: ClipboardShapes, placement: PastePlacement) => boolean;
+    readSvgShapes: (svg: SVGSVGElement) => ClipboardShapes | null;
+    importSvgLayers: (svg: SVGSVGElement, name: string, placement: PastePlacement) => ClipboardLayers | null;
+    addLayerContent: (content: Record<string, SerializedNode[]>) => void;
+    renderClipboardImages: (layerId?: string) => { svg: string, png: string } | null;
+    placeImage: (source: ImageSource, placement: PastePlacement) => boolean;
+    alignSelection: (edge: AlignEdge, reference: AlignReference) => void;
+    distributeSelection: (mode: DistributeMode, reference: AlignReference) => void;
+    alignLayers: (ids: string[], edge: AlignEdge, reference: AlignReference) => Record<string, AlignOffset>;
+    distributeLayers: (ids: string[], mode: DistributeMode, reference: AlignReference) => Record<string, AlignOffset>;
 }
 
+/**
+ * ✏️ Text Edit Box
+ * A see-through textarea laid exactly over the text being edited, so typing
+ * happens right on the canvas. It grows with the text and hands the words
+ * back to the engine when it loses focus (or Escape is pressed).
+ */
+const TextEditBox: React.FC<{ edit: TextEditInfo, engine: CanvasEngine | null, accent: string }> = ({ edit, engine, accent }) => {
+  const [value, setValue] = useState(edit.value);
+  const { style, scale } = edit;
+  const layout = layoutText(value || ' ', style);
+  // Spare room for the caret, on the side the text grows towards
+  const room = style.size;
+  const boxLeft = layout.left - (style.align === 'center' ? room / 2 : style.align === 'right' ? room : 0);
+
+  return (
+    <textarea
+        autoFocus
+        value={value}
+        spellCheck={false}
+        onChange={(e) => { setValue(e.target.value); engine?.updateTextEdit(e.target.value); }}
+        onBlur={() => engine?.finishTextEdit(edit.id)}
+        onKeyDown={(e) => { if (e.key === 'Escape') (e.target as HTMLTextAreaElement).blur(); }}
+        onPointerDown={(e) => e.stopPropagation()}
+        onPointerMove={(e) => e.stopPropagation()}
+        onPointerUp={(e) => e.stopPropagation()}
+        style={{
+            position: 'absolute', left: edit.x, top: edit.y,
+            // Rotate around the text's origin, then slide over so the box covers the first character
+            transform: `rotate(${edit.rotation}rad) translateX(${boxLeft * scale}px)`,
+            transformOrigin: '0 0',
+            width: `${(layout.width + room) * scale}px`, height: `${layout.height * scale}px`,
+            margin: 0, padding: 0, border: 'none', outline: `1px dashed ${accent}`, background: 'transparent',
+            resize: 'none', overflow: 'hidden', whiteSpace: 'pre',
+            font: toFontString({ ...style, size: style.size * scale }),
+            lineHeight: `${layout.lineHeight * scale}px`,
+            letterSpacing: `${style.letterSpacing * scale}px`,
+            textAlign: style.align,
+            color: edit.color, caretColor: accent,
+        }}
+    />
+  );
+};
+
 const Stage = forwardRef<StageHandle, StageProps>(({ 
     layers, 
     activeLayerId, 
     activeTool,
     toolSettings,
+    canvasSettings,
+    guides,
+    onGuidesChange,
     onToolChange,
     onAnchorSelect,
     onSelectionTypeChange,
     onSelectionPropertiesChange,
     onThumbnailReady,
+    onCommit,
+    onZoomChange,
+    onDropFiles,
 }, ref) => {
   const { theme } = useTheme();
   const containerRef = useRef<HTMLDivElement>(null);
   const engineRef = useRef<CanvasEngine | null>(null);
 
+  // Viewport gestures are caught here, before the tools ever see the pointer
+  const spaceHeldRef = useRef(false);
+  const freeHeldRef = useRef(false); // F: snapping is off while it is held
+  const panRef = useRef<{ x: number, y: number } | null>(null);
+  const touchesRef = useRef<Map<number, { x: number, y: number }>>(new Map());
+  const pinchRef = useRef<{ distance: number, x: number, y: number } | null>(null);
+  const [cursor, setCursor] = useState<'default' | 'grab' | 'grabbing'>('default');
+  const [textEdit, setTextEdit] = useState<TextEditInfo | null>(null);
+  const [view, setView] = useState<StageView | null>(null);
+  const draw = useDraw(activeTool, toolSettings);
+
   useEffect(() => {
     if (!containerRef.current) return;
     const engine = new CanvasEngine(containerRef.current);
+    engine.onTextEditChange = setTextEdit;
+    engine.onViewChange = setView;
+    setView(engine.getView());
     engineRef.current = engine;
     const handleResize = () => { if (containerRef.current) engine.resize(containerRef.current.clientWidth, containerRef.current.clientHeight); };
     window.addEventListener('resize', handleResize);
@@ -1240,23 +3506,67 @@ const Stage = forwardRef<StageHandle, StageProps>(({
   useEffect(() => { engineRef.current?.setActiveLayerId(activeLayerId); }, [activeLayerId]);
   useEffect(() => { engineRef.current?.setTool(activeTool); }, [activeTool]);
   useEffect(() => { engineRef.current?.setToolSettings(toolSettings); }, [toolSettings]);
-  useEffect(() => { engineRef.current?.setCallbacks({ onToolChange, onAnchorSelect, onSelectionTypeChange, onSelectionPropertiesChange, onThumbnailReady }); }, [onToolChange, onAnchorSelect, onSelectionTypeChange, onSelectionPropertiesChange, onThumbnailReady]);
+  useEffect(() => { engineRef.current?.setCanvasSettings(canvasSettings); }, [canvasSettings]);
+  useEffect(() => { engineRef.current?.setGuides(guides); }, [guides]);
+  useEffect(() => { if (engineRef.current) engineRef.current.paint = draw; }, [draw]);
+  useEffect(() => { engineRef.current?.setCallbacks({ onToolChange, onAnchorSelect, onSelectionTypeChange, onSelectionPropertiesChange, onThumbnailReady, onCommit, onZoomChange }); }, [onToolChange, onAnchorSelect, onSelectionTypeChange, onSelectionPropertiesChange, onThumbnailReady, onCommit, onZoomChange]);
+
+  // Wheel and trackpad pinch zoom around the cursor. Registered by hand because React's wheel listener can't preventDefault.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+        e.preventDefault();
+        const rect = container.getBoundingClientRect();
+        // Trackpad pinches arrive as ctrl+wheel with small deltas; line-based mouse wheels need scaling up
+        const delta = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY;
+        const speed = e.ctrlKey ? 0.01 : 0.002;
+        engineRef.current?.zoomBy(Math.exp(-delta * speed), e.clientX - rect.left, e.clientY - rect.top);
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Inspector edits are recorded once the gesture making them ends. React applies the last value first, hence the timeout.
+  useEffect(() => {
+    const flush = () => { setTimeout(() => engineRef.current?.flushSettingsEdit(), 0); };
+    const events = ['pointerup', 'keyup', 'change'];
+    events.forEach(name => window.addEventListener(name, flush, true));
+    return () => events.forEach(name => window.removeEventListener(name, flush, true));
+  }, []);
+
+  // Hold Space to pan, and F to place without snapping. The other keys (zooming included) go through the shortcut registry.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (isTypingTarget(e.target)) return;
+        if (e.code === FREE_KEY) freeHeldRef.current = true;
+        if (e.code !== 'Space') return;
+        // Away from the canvas Space keeps its usual job (pressing the focused button, scrolling a panel)
+        const container = containerRef.current;
+        if (!container || !(container.matches(':hover') || container.contains(document.activeElement))) return;
+        e.preventDefault();
+        if (!spaceHeldRef.current) { spaceHeldRef.current = true; if (!panRef.current) setCursor('grab'); }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+        if (e.code === FREE_KEY) freeHeldRef.current = false;
+        if (e.code !== 'Space') return;
+        spaceHeldRef.current = false;
+        if (!panRef.current) setCursor('default');
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => { window.removeEventListener('keydown', handleKeyDown); window.removeEventListener('keyup', handleKeyUp); };
+  }, []);
 
   useImperativeHandle(ref, () => ({
       exportImage: (name, format) => {
           const engine = engineRef.current; if (!engine) return;
           if (format === 'png') {
-              const link = document.createElement('a'); link.download = `${name}.png`; link.href = engine.two.renderer.domElement.toDataURL('image/png'); link.click();
+              const link = document.createElement('a'); link.download = `${name}.png`; link.href = engine.renderImage(); link.click();
           } else if (format === 'svg') {
-              const tempDiv = document.createElement('div');
-              const svgTwo = new Two({ type: Two.Types.svg, width: engine.two.width, height: engine.two.height }).appendTo(tempDiv);
-              svgTwo.scene.translation.copy(engine.two.scene.translation); // Match centering
-              engine.groups.forEach((group) => { svgTwo.add((group as any).clone()); });
-              svgTwo.update();
-              const svgElem = tempDiv.querySelector('svg');
-              if (svgElem) {
-                  svgElem.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
-                  const blob = new Blob([svgElem.outerHTML], { type: 'image/svg+xml;charset=utf-8' });
+              const svg = engine.renderSvg();
+              if (svg) {
+                  const blob = new Blob([svg], { type: 'image/svg+xml;charset=utf-8' });
                   const url = URL.createObjectURL(blob); const link = document.createElement('a');
                   link.href = url; link.download = `${name}.svg`; document.body.appendChild(link);
                   link.click(); document.body.removeChild(link);
@@ -1269,19 +3579,157 @@ const Stage = forwardRef<StageHandle, StageProps>(({
       setPathClosed: (closed) => engineRef.current?.setPathClosed(closed),
       flattenSelectedShape: () => engineRef.current?.flattenSelectedShape(),
       duplicateLayerContent: (originalId, newId) => engineRef.current?.duplicateLayerContent(originalId, newId),
+      getCanvasSize: () => engineRef.current?.getCanvasSize() ?? { width: 0, height: 0 },
+      serializeContent: () => engineRef.current?.serializeContent() ?? {},
+      loadContent: (content) => engineRef.current?.loadContent(content),
+      generateSceneThumbnail: () => engineRef.current?.generateSceneThumbnail() ?? null,
+      setZoom: (zoom) => engineRef.current?.setZoom(zoom),
+      zoomBy: (factor) => engineRef.current?.zoomBy(factor),
+      zoomToFit: () => engineRef.current?.zoomToFit(),
+      zoomToSelection: () => engineRef.current?.zoomToSelection(),
+      deleteSelection: () => engineRef.current?.deleteSelection() ?? false,
+      deselect: () => engineRef.current?.deselect() ?? false,
+      nudgeSelection: (dx, dy) => engineRef.current?.nudgeSelection(dx, dy) ?? false,
+      duplicateSelection: () => engineRef.current?.duplicateSelection() ?? false,
+      copySelection: () => engineRef.current?.copySelection() ?? null,
+      cutSelection: () => engineRef.current?.cutSelection() ?? null,
+      pasteShapes: (clip, placement) => engineRef.current?.pasteShapes(clip, placement) ?? false,
+      readSvgShapes: (svg) => engineRef.current?.readSvgShapes(svg) ?? null,
+      importSvgLayers: (svg, name, placement) => engineRef.current?.importSvgLayers(svg, name, placement) ?? null,
+      addLayerContent: (content) => engineRef.current?.addLayerContent(content),
+      renderClipboardImages: (layerId) => engineRef.current?.renderClipboardImages(layerId) ?? null,
+      placeImage: (source, placement) => engineRef.current?.placeImage(source, placement) ?? false,
+      alignSelection: (edge, reference) => engineRef.current?.alignSelection(edge, reference),
+      distributeSelection: (mode, reference) => engineRef.current?.distributeSelection(mode, reference),
+      alignLayers: (ids, edge, reference) => engineRef.current?.alignLayers(ids, edge, reference) ?? {},
+      distributeLayers: (ids, mode, reference) => engineRef.current?.distributeLayers(ids, mode, reference) ?? {},
   }));
 
-  const getLocalCoords = (e: React.PointerEvent) => { const rect = containerRef.current!.getBoundingClientRect(); return { x: e.clientX - rect.left, y: e.clientY - rect.top }; };
+  const getLocalCoords = (e: { clientX: number, clientY: number }) => { const rect = containerRef.current!.getBoundingClientRect(); return { x: e.clientX - rect.left, y: e.clientY - rect.top }; };
+
+  // Only pens report a real pressure. Mice say 0.5 while a button is down, which would make every stroke half strength.
+  const getPointerInput = (e: PointerEvent | React.PointerEvent): PointerInput => ({
+      pressure: e.pointerType === 'pen' ? e.pressure : 1,
+      tiltX: e.tiltX || 0,
+      tiltY: e.tiltY || 0,
+  });
+
+  // Distance and midpoint of the two touching fingers
+  const readPinch = () => {
+      const points: { x: number, y: number }[] = [];
+      touchesRef.current.forEach(point => points.push(point));
+      const [a, b] = points;
+      return { distance: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)), x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      const engine = engineRef.current; if (!engine) return;
+      const { x, y } = getLocalCoords(e);
+
+      if (e.pointerType === 'touch') {
+          touchesRef.current.set(e.pointerId, { x, y });
+          if (touchesRef.current.size === 2) {
+              // A second finger turns the gesture into a pinch, so the first finger's tool action ends here
+              engine.handleUp();
+              pinchRef.current = readPinch();
+              return;
+          }
+          if (touchesRef.current.size > 2) return;
+      }
+
+      // Middle mouse button or Space + drag moves the view instead of drawing
+      if (e.button === 1 || spaceHeldRef.current) {
+          panRef.current = { x, y };
+          e.currentTarget.setPointerCapture(e.pointerId);
+          setCursor('grabbing');
+          return;
+      }
+
+      engine.handleDown(x, y, { shift: e.shiftKey, alt: e.altKey, ctrl: e.ctrlKey || e.metaKey, free: freeHeldRef.current }, getPointerInput(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      const engine = engineRef.current; if (!engine) return;
+      const { x, y } = getLocalCoords(e);
+
+      if (e.pointerType === 'touch' && touchesRef.current.has(e.pointerId)) {
+          touchesRef.current.set(e.pointerId, { x, y });
+          if (pinchRef.current) {
+              const next = readPinch();
+              engine.panBy(next.x - pinchRef.current.x, next.y - pinchRef.current.y);
+              engine.zoomBy(next.distance / pinchRef.current.distance, next.x, next.y);
+              pinchRef.current = next;
+              return;
+          }
+      }
+
+      if (panRef.current) {
+          engine.panBy(x - panRef.current.x, y - panRef.current.y);
+          panRef.current = { x, y };
+          return;
+      }
+
+      const mods = { shift: e.shiftKey, alt: e.altKey, ctrl: e.ctrlKey || e.metaKey, free: freeHeldRef.current };
+      // Pens report far more samples than one per frame. Painting them all keeps quick strokes smooth.
+      if (engine.rasterStroke) {
+          const samples = e.nativeEvent.getCoalescedEvents?.() ?? [];
+          if (samples.length > 0) {
+              samples.forEach(sample => { const p = getLocalCoords(sample); engine.handleMove(p.x, p.y, mods, getPointerInput(sample)); });
+              return;
+          }
+      }
+      engine.handleMove(x, y, mods, getPointerInput(e));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+      touchesRef.current.delete(e.pointerId);
+      if (pinchRef.current) {
+          if (touchesRef.current.size < 2) pinchRef.current = null;
+          return;
+      }
+      if (panRef.current) {
+          panRef.current = null;
+          setCursor(spaceHeldRef.current ? 'grab' : 'default');
+          return;
+      }
+      engineRef.current?.handleUp();
+  };
 
   return (
     <div 
         ref={containerRef}
-        style={{ position: 'relative', width: 'clamp(300px, 80vw, 1024px)', height: 'clamp(300px, 80vh, 768px)', backgroundColor: '#FFFFFF', borderRadius: theme.radius['Radius.L'], boxShadow: theme.effects['Effect.Shadow.Drop.3'], overflow: 'hidden', touchAction: 'none' }}
-        onPointerDown={(e) => { e.preventDefault(); const { x, y } = getLocalCoords(e); engineRef.current?.handleDown(x, y); }}
-        onPointerMove={(e) => { e.preventDefault(); const { x, y } = getLocalCoords(e); engineRef.current?.handleMove(x, y); }}
-        onPointerUp={() => engineRef.current?.handleUp()}
-        onPointerLeave={() => engineRef.current?.handleUp()}
-    />
+        style={{ position: 'absolute', inset: 0, backgroundColor: theme.Color.Base.Surface[2], overflow: 'hidden', touchAction: 'none', cursor }}
+        onMouseDown={(e) => {
+            // No browser auto-scroll on middle click, and don't steal focus from a text box that just opened
+            if (e.button === 1 || engineRef.current?.textEdit) e.preventDefault();
+        }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={(e) => { handlePointerUp(e); if (engineRef.current) engineRef.current.pointer = null; }}
+        onDragOver={(e) => { if (onDropFiles && e.dataTransfer.types.includes('Files')) e.preventDefault(); }}
+        onDrop={(e) => {
+            if (!onDropFiles || e.dataTransfer.files.length === 0) return;
+            e.preventDefault();
+            // Dropped files land where they were let go
+            if (engineRef.current) engineRef.current.pointer = getLocalCoords(e);
+            onDropFiles(Array.from(e.dataTransfer.files));
+        }}
+    >
+        {view && (
+            <StageRulers
+                view={view}
+                guides={guides}
+                showRulers={canvasSettings.showRulers}
+                showGuides={canvasSettings.showGuides}
+                lockGuides={canvasSettings.lockGuides}
+                onGuidesChange={onGuidesChange}
+            />
+        )}
+        {textEdit && <TextEditBox key={textEdit.id} edit={textEdit} engine={engineRef.current} accent={theme.Color.Accent.Content[1]} />}
+    </div>
   );
 });
 
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useEffect, useRef, useCallback } from 'react';
+import { AutosaveSession } from '../types/index.tsx';
+import { saveSession, pruneSessions, deleteSession, markSessionLive, markSessionClosed, HEARTBEAT_MS } from '../utils/autosave.tsx';
+
+type SessionContent = Omit<AutosaveSession, 'id' | 'updatedAt'>;
+
+/**
+ * 💾 useAutosave Hook
+ * Quietly writes the document to IndexedDB a little while after each edit.
+ * `revision` should go up whenever the document changes; many quick edits
+ * in a row only cause one write. If the tab is hidden or closed while a
+ * write is still waiting, it is written straight away. While the tab is
+ * open its session is marked live, so other tabs don't offer to recover it.
+ *
+ * @param revision - A counter that changes after every committed edit.
+ * @param buildSession - Packs the current document (or null if not ready).
+ * @param settings - Canvas settings, which change without an undo step but are saved too.
+ * @param delayMs - How long to wait after the last edit before writing.
+ */
+export const useAutosave = (revision: number, buildSession: () => SessionContent | null, settings?: unknown, delayMs = 1500) => {
+    const sessionIdRef = useRef(`session-${Date.now()}`);
+    const buildRef = useRef(buildSession);
+    buildRef.current = buildSession;
+    const isDirtyRef = useRef(false);
+    const initialSettingsRef = useRef(settings);
+
+    const flush = useCallback(() => {
+        if (!isDirtyRef.current) return;
+        isDirtyRef.current = false;
+        const content = buildRef.current();
+        if (!content) return;
+        saveSession({ ...content, id: sessionIdRef.current, updatedAt: Date.now() })
+            .then(() => pruneSessions())
+            .catch(() => {
+                // Storage is full or blocked: tried again after the next edit, or when the tab is hidden
+                isDirtyRef.current = true;
+            });
+    }, []);
+
+    useEffect(() => {
+        if (revision === 0 && settings === initialSettingsRef.current) return; // Nothing has been edited yet
+        isDirtyRef.current = true;
+        const timer = setTimeout(flush, delayMs);
+        return () => clearTimeout(timer);
+    }, [revision, settings, delayMs, flush]);
+
+    useEffect(() => {
+        const handleHide = () => { if (document.visibilityState === 'hidden') flush(); };
+        document.addEventListener('visibilitychange', handleHide);
+        window.addEventListener('pagehide', flush);
+        return () => {
+            document.removeEventListener('visibilitychange', handleHide);
+            window.removeEventListener('pagehide', flush);
+        };
+    }, [flush]);
+
+    useEffect(() => {
+        const beat = () => markSessionLive(sessionIdRef.current);
+        const leave = () => markSessionClosed(sessionIdRef.current);
+        beat();
+        const timer = setInterval(beat, HEARTBEAT_MS);
+        window.addEventListener('pageshow', beat); // Back from the back/forward cache
+        window.addEventListener('pagehide', leave);
+        return () => {
+            clearInterval(timer);
+            window.removeEventListener('pageshow', beat);
+            window.removeEventListener('pagehide', leave);
+            leave();
+        };
+    }, []);
+
+    // Keep writing into a recovered session instead of leaving a duplicate behind.
+    const adoptSession = useCallback((id: string) => {
+        markSessionClosed(sessionIdRef.current);
+        sessionIdRef.current = id;
+        markSessionLive(id);
+    }, []);
+
+    // The document was saved to a file, so there is nothing left to recover. The next edit starts the session again.
+    const clearSession = useCallback(() => {
+        isDirtyRef.current = false;
+        deleteSession(sessionIdRef.current).catch(() => {
+            // Left behind, it is simply offered for recovery later
+        });
+    }, []);
+
+    return { sessionId: sessionIdRef.current, adoptSession, clearSession };
+};
@@ -4,11 +4,64 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import { Tool, ToolSettings } from '../types/index.tsx';
+import { hexToRgba } from '../utils/color.tsx';
+
+// One reading from the pointer, in canvas pixels. Mice report full pressure and no tilt.
+export interface BrushSample {
+  x: number;
+  y: number;
+  pressure: number; // 0 to 1
+  tiltX: number; // degrees, -90 to 90
+  tiltY: number;
+}
+
+// What a stroke remembers between pointer events: the last sample, how far it is to the next dab,
+// the layer's pixels from before the stroke and the stroke's own dabs (made on its first sample).
+export interface BrushStroke {
+  last: BrushSample | null;
+  carry: number;
+  base: HTMLCanvasElement | null;
+  dabs: HTMLCanvasElement | null;
+}
+
+export const beginBrushStroke = (): BrushStroke => ({ last: null, carry: 0, base: null, dabs: null });
+
+// The same colour, fully see-through, for the rim of a soft dab
+const clearOf = (color: string) => {
+  if (color.startsWith('#')) return hexToRgba(color, 0);
+  const rgb = color.match(/^rgba?\(([^,]+),([^,]+),([^,)]+)/);
+  return rgb ? `rgba(${rgb[1]},${rgb[2]},${rgb[3]}, 0)` : 'rgba(0, 0, 0, 0)';
+};
+
+const copyCanvas = (source: HTMLCanvasElement, withPixels: boolean) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = source.height;
+  if (withPixels) canvas.getContext('2d')?.drawImage(source, 0, 0);
+  return canvas;
+};
+
+const lerpSample = (a: BrushSample, b: BrushSample, t: number): BrushSample => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+  pressure: a.pressure + (b.pressure - a.pressure) * t,
+  tiltX: a.tiltX + (b.tiltX - a.tiltX) * t,
+  tiltY: a.tiltY + (b.tiltY - a.tiltY) * t,
+});
 
 /**
  * 🧙‍♂️ useDraw Hook
- * The core drawing logic for the canvas. It returns a draw function that
+ * The core drawing logic for paint layers. It returns a draw function that
  * knows how to handle different tools (brush, eraser, fill).
+ *
+ * Brush and eraser strokes are made of round "dabs" stamped at an even
+ * spacing along the pointer's path, like a real brush touching the paper
+ * over and over. Pen pressure makes dabs bigger and stronger; tilting the
+ * pen spreads them out and makes them fainter, like using the side of a pencil.
+ *
+ * Overlapping dabs would keep adding up, so a stroke is painted on its own
+ * canvas first and laid onto the layer at the brush's Opacity. A 30% stroke
+ * stays 30% however often it crosses itself.
  */
 export const useDraw = (activeTool: Tool, toolSettings: ToolSettings) => {
   
@@ -39,6 +92,8 @@ export const useDraw = (activeTool: Tool, toolSettings: ToolSettings) => {
         return { r, g, b, a };
     };
 
+    if (startX < 0 || startY < 0 || startX >= width || startY >= height) return;
+
     const fillRgba = hexToRgba(fillColor);
     const startIndex = (startY * width + startX) * 4;
     const startR = data[startIndex];
@@ -117,45 +172,92 @@ export const useDraw = (activeTool: Tool, toolSettings: ToolSettings) => {
   };
 
 
-  const draw = (
-    ctx: CanvasRenderingContext2D,
-    currentPoint: { x: number; y: number },
-    prevPoint: { x: number; y: number } | null
-  ) => {
+  // Size (diameter) and strength of one dab for a given pointer sample. Opacity is applied to the whole stroke instead.
+  const dabFor = (sample: BrushSample) => {
+    const pressure = Math.min(1, Math.max(0, sample.pressure));
+    const tilt = Math.min(1, Math.hypot(sample.tiltX, sample.tiltY) / 90);
+    const size = toolSettings.strokeWidth * (toolSettings.pressureSize ? 0.1 + 0.9 * pressure : 1) * (1 + tilt * 0.5);
+    const alpha = (toolSettings.pressureOpacity ? pressure : 1) * (1 - tilt * 0.5);
+    return { size: Math.max(0.5, size), alpha };
+  };
+
+  const stamp = (ctx: CanvasRenderingContext2D, sample: BrushSample, color: string) => {
+    const { size, alpha } = dabFor(sample);
+    if (alpha <= 0) return;
+    const radius = size / 2;
+    ctx.globalAlpha = alpha;
+    if (toolSettings.brushHardness >= 1) {
+      ctx.fillStyle = color;
+    } else {
+      // Soft brushes fade out from the solid core to the rim. Fading to see-through black would darken light colours on the way.
+      const edge = ctx.createRadialGradient(sample.x, sample.y, radius * toolSettings.brushHardness, sample.x, sample.y, radius);
+      edge.addColorStop(0, color);
+      edge.addColorStop(1, clearOf(color));
+      ctx.fillStyle = edge;
+    }
+    ctx.beginPath();
+    ctx.arc(sample.x, sample.y, radius, 0, Math.PI * 2);
+    ctx.fill();
+  };
+
+  // Stamps dabs from the stroke's last sample to this one, one brush-spacing apart
+  const stampAlong = (ctx: CanvasRenderingContext2D, sample: BrushSample, stroke: BrushStroke, color: string) => {
+    const spacingFor = (s: BrushSample) => Math.max(0.5, dabFor(s).size * toolSettings.brushSpacing);
+    const from = stroke.last;
+    if (!from) {
+      stamp(ctx, sample, color);
+      stroke.last = sample;
+      stroke.carry = spacingFor(sample);
+      return;
+    }
+
+    const distance = Math.hypot(sample.x - from.x, sample.y - from.y);
+    let travelled = 0;
+    let next = stroke.carry;
+    while (travelled + next <= distance) {
+      travelled += next;
+      const dab = lerpSample(from, sample, distance > 0 ? travelled / distance : 1);
+      stamp(ctx, dab, color);
+      next = spacingFor(dab);
+    }
+    stroke.carry = next - (distance - travelled);
+    stroke.last = sample;
+  };
+
+  // Stamps onto the stroke's own canvas, then lays the layer out again: its old pixels, plus (or minus) the stroke at Opacity
+  const paintStroke = (ctx: CanvasRenderingContext2D, sample: BrushSample, stroke: BrushStroke, color: string, operation: GlobalCompositeOperation) => {
+    if (!stroke.base || !stroke.dabs) {
+      stroke.base = copyCanvas(ctx.canvas, true);
+      stroke.dabs = copyCanvas(ctx.canvas, false);
+    }
+    const dabs = stroke.dabs.getContext('2d');
+    if (!dabs) return;
+    stampAlong(dabs, sample, stroke, color);
+
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    ctx.drawImage(stroke.base, 0, 0);
+    ctx.globalAlpha = toolSettings.opacity;
+    ctx.globalCompositeOperation = operation;
+    ctx.drawImage(stroke.dabs, 0, 0);
+  };
+
+  const draw = (ctx: CanvasRenderingContext2D, sample: BrushSample, stroke: BrushStroke) => {
+    ctx.save();
     switch (activeTool) {
       case 'brush':
-        ctx.lineJoin = toolSettings.lineJoin;
-        ctx.lineCap = toolSettings.lineCap;
-        ctx.lineWidth = toolSettings.strokeWidth;
-        ctx.strokeStyle = toolSettings.strokeColor;
-        ctx.globalCompositeOperation = 'source-over';
-        
-        ctx.beginPath();
-        if (prevPoint) {
-          ctx.moveTo(prevPoint.x, prevPoint.y);
-        }
-        ctx.lineTo(currentPoint.x, currentPoint.y);
-        ctx.stroke();
+        paintStroke(ctx, sample, stroke, toolSettings.strokeColor, 'source-over');
         break;
 
       case 'eraser':
-        ctx.globalCompositeOperation = 'destination-out';
-        ctx.lineWidth = toolSettings.strokeWidth;
-        ctx.lineCap = toolSettings.lineCap;
-        ctx.lineJoin = toolSettings.lineJoin;
-        
-        ctx.beginPath();
-        if (prevPoint) {
-          ctx.moveTo(prevPoint.x, prevPoint.y);
-        }
-        ctx.lineTo(currentPoint.x, currentPoint.y);
-        ctx.stroke();
+        // Only the dab's alpha matters when erasing, the colour is ignored
+        paintStroke(ctx, sample, stroke, '#000000', 'destination-out');
         break;
 
       case 'fill':
-        floodFill(ctx, Math.round(currentPoint.x), Math.round(currentPoint.y), toolSettings.fillColor);
+        floodFill(ctx, Math.round(sample.x), Math.round(sample.y), toolSettings.fillColor);
         break;
     }
+    ctx.restore();
   };
 
   return draw;
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { HistoryStack, HistoryOptions } from '../utils/history.tsx';
+
+interface PendingCommit {
+    label: string;
+    coalesceKey?: string;
+}
+
+/**
+ * ⏪ useHistory Hook
+ * Wires a HistoryStack into React. Anyone can call `commit()` right after an
+ * edit; the snapshot is taken after React has re-rendered, so it always sees
+ * the finished state (new layers AND the engine's new shapes).
+ *
+ * @param capture - Takes a snapshot of the current document (or null if not ready).
+ * @param restore - Puts a snapshot back on screen.
+ */
+export const useHistory = <T,>(
+    capture: () => T | null,
+    restore: (snapshot: T) => void,
+    options?: HistoryOptions
+) => {
+    const stackRef = useRef<HistoryStack | null>(null);
+    if (!stackRef.current) stackRef.current = new HistoryStack(options);
+
+    // Always call the latest closures, so the snapshot sees the latest React state.
+    const captureRef = useRef(capture);
+    const restoreRef = useRef(restore);
+    captureRef.current = capture;
+    restoreRef.current = restore;
+
+    const [pending, setPending] = useState<PendingCommit | null>(null);
+    const [status, setStatus] = useState({ canUndo: false, canRedo: false, undoLabel: null as string | null, redoLabel: null as string | null });
+    // Goes up every time the document really changes (a new step, an undo or a redo). Handy for autosave.
+    const [revision, setRevision] = useState(0);
+
+    const syncStatus = useCallback(() => {
+        const stack = stackRef.current!;
+        setStatus({ canUndo: stack.canUndo, canRedo: stack.canRedo, undoLabel: stack.undoLabel, redoLabel: stack.redoLabel });
+    }, []);
+
+    const commit = useCallback((label: string, coalesceKey?: string) => {
+        setPending({ label, coalesceKey });
+    }, []);
+
+    useEffect(() => {
+        if (!pending) return;
+        const snapshot = captureRef.current();
+        if (snapshot !== null) {
+            const isStartingPoint = !stackRef.current!.hasStartingPoint;
+            const recorded = stackRef.current!.record(pending.label, JSON.stringify(snapshot), pending.coalesceKey);
+            if (recorded && !isStartingPoint) setRevision(r => r + 1);
+            syncStatus();
+        }
+        setPending(null);
+    }, [pending, syncStatus]);
+
+    const undo = useCallback(() => {
+        const snapshot = stackRef.current!.undo();
+        if (snapshot) {
+            restoreRef.current(JSON.parse(snapshot));
+            setRevision(r => r + 1);
+        }
+        syncStatus();
+    }, [syncStatus]);
+
+    const redo = useCallback(() => {
+        const snapshot = stackRef.current!.redo();
+        if (snapshot) {
+            restoreRef.current(JSON.parse(snapshot));
+            setRevision(r => r + 1);
+        }
+        syncStatus();
+    }, [syncStatus]);
+
+    // Start a fresh history (e.g. after opening a document). The next commit becomes the starting point.
+    const reset = useCallback(() => {
+        stackRef.current!.clear();
+        syncStatus();
+    }, [syncStatus]);
+
+    return { commit, undo, redo, reset, revision, ...status };
+};
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Keymap, CommandId } from '../types/index.tsx';
+import { CommandImplementations, canRun } from '../utils/commands.tsx';
+import { DEFAULT_KEYMAP, buildBindingLookup, eventToBinding, findConflicts, isTypingTarget, loadKeymap, saveKeymap } from '../utils/shortcuts.tsx';
+
+/**
+ * ⌨️ useKeymap Hook
+ * The keys bound to every command, saved in the browser whenever they change.
+ */
+export const useKeymap = () => {
+    const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
+
+    useEffect(() => { saveKeymap(keymap); }, [keymap]);
+
+    const setBindings = useCallback((id: CommandId, bindings: string[]) => {
+        setKeymap(prev => ({ ...prev, [id]: [...new Set(bindings)] }));
+    }, []);
+
+    const resetBindings = useCallback((id: CommandId) => {
+        setKeymap(prev => ({ ...prev, [id]: DEFAULT_KEYMAP[id] }));
+    }, []);
+
+    const resetAll = useCallback(() => setKeymap(DEFAULT_KEYMAP), []);
+
+    const conflicts = useMemo(() => findConflicts(keymap), [keymap]);
+
+    return { keymap, setBindings, resetBindings, resetAll, conflicts };
+};
+
+/**
+ * ⌨️ useShortcuts Hook
+ * Listens for key presses anywhere in the app and runs the matching command.
+ * Keys typed into a text field are left alone, and so are keys whose command
+ * can't run right now or that the browser handles itself (`nativeKeys`), so
+ * they keep doing their normal job.
+ *
+ * @param keymap - Which keys run which command.
+ * @param commands - What each command does. They can change on every render.
+ */
+export const useShortcuts = (keymap: Keymap, commands: CommandImplementations) => {
+    const commandsRef = useRef(commands);
+    commandsRef.current = commands;
+
+    useEffect(() => {
+        const lookup = buildBindingLookup(keymap);
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.defaultPrevented || isTypingTarget(e.target)) return;
+            const binding = eventToBinding(e);
+            const id = binding ? lookup.get(binding) : undefined;
+            const command = id ? commandsRef.current[id] : undefined;
+            if (!command || !canRun(command) || command.nativeKeys?.includes(binding!)) return;
+            e.preventDefault();
+            command.run();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [keymap]);
+};
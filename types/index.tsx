@@ -5,7 +5,7 @@
  */
 
 // --- Window Management ---
-export type WindowId = 'properties' | 'assets' | 'layers';
+export type WindowId = 'properties' | 'assets' | 'layers' | 'shortcuts';
 
 export interface WindowState {
   id: WindowId;
@@ -23,7 +23,7 @@ export type BlendMode =
   | 'soft-light' | 'difference' | 'exclusion' | 'hue' 
   | 'saturation' | 'color' | 'luminosity' | 'destination-out';
 
-export type LayerType = 'layer' | 'group';
+export type LayerType = 'layer' | 'group' | 'raster'; // 'raster' layers hold painted pixels as well as shapes
 
 export interface Layer {
     id: string;
@@ -43,19 +43,72 @@ export interface Layer {
     thumbnail?: string;
 }
 
+// --- Paint ---
+export type GradientType = 'linear' | 'radial';
+
+export interface GradientStop {
+    offset: number; // 0 to 1 along the gradient
+    color: string; // HEX
+    opacity: number; // 0 to 1
+}
+
+export interface GradientPaint {
+    type: GradientType;
+    stops: GradientStop[];
+    // Handle positions as fractions of the shape's own box (0,0 = top-left, 1,1 = bottom-right), so one
+    // gradient fits any shape. Linear runs from `from` to `to`; radial has its centre at `from` and its edge at `to`.
+    from: { x: number; y: number };
+    to: { x: number; y: number };
+}
+
+// A variable-width brush stroke, kept as its centreline so the width can be edited after drawing
+export interface StrokeSample {
+    x: number;
+    y: number;
+    factor: number; // 0 (thinnest) to 1 (full width), recorded from pressure or speed
+}
+
+export interface VariableStroke {
+    samples: StrokeSample[];
+    width: number; // Full width in px
+    variation: number; // 0 ignores the recorded factors, 1 uses them fully
+    taperStart: number; // Share of the length (0 to 0.5) that narrows to a point at the start
+    taperEnd: number;
+}
+
 // --- Tooling ---
-export type Tool = 'select' | 'brush' | 'delete' | 'pen' | 'eraser' | 'fill' | 'shape';
+export type Tool = 'select' | 'brush' | 'delete' | 'pen' | 'eraser' | 'fill' | 'shape' | 'text';
 export type SelectionMode = 'vector' | 'layer';
+// Align & distribute: which edges or centres to line up, how to spread things out, and what to measure against
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeMode = 'horizontal-centers' | 'vertical-centers' | 'horizontal-spacing' | 'vertical-spacing';
+export type AlignReference = 'selection' | 'artboard';
 
 export type LineCap = 'butt' | 'round' | 'square';
 export type LineJoin = 'bevel' | 'round' | 'miter';
 export type PenHandleMode = 'mirrored' | 'disconnected';
+// How the vector brush calms a shaky hand: a pulled string, an average of recent points, or not at all
+export type BrushStabilizer = 'off' | 'string' | 'average';
+// What makes a vector brush stroke thinner or thicker. 'fixed' draws a plain stroke with a constant line width.
+export type BrushWidthMode = 'fixed' | 'pressure' | 'velocity' | 'taper';
 
 // Shape Tool Types
 export type ShapeType = 'rectangle' | 'ellipse' | 'line' | 'polygon' | 'star';
 export type ShapeMode = 'insert' | 'build';
 export type BuildMode = 'add' | 'subtract';
 
+// Text Tool Types
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextStyle {
+    family: string; // CSS font-family, e.g. "'Inter', sans-serif"
+    size: number; // px
+    weight: number;
+    letterSpacing: number; // px added after every character
+    lineHeight: number; // multiple of the font size
+    align: TextAlign;
+}
+
 export interface ToolSettings {
     strokeColor: string;
     fillColor: string;
@@ -65,8 +118,12 @@ export interface ToolSettings {
     lineJoin: LineJoin;
     strokeEnabled: boolean;
     fillEnabled: boolean;
+    // When set, these replace the solid colours above
+    fillGradient: GradientPaint | null;
+    strokeGradient: GradientPaint | null;
     // Selection Specific
     selectionMode: SelectionMode;
+    alignTo: AlignReference; // A single shape (or layer) always aligns to the artboard
     // Pen Specific
     penHandleMode: PenHandleMode;
     penClosePath: boolean;
@@ -78,15 +135,272 @@ export interface ToolSettings {
     starPoints: number;
     starInnerRadius: number; // 0 to 1
     polygonSides: number;
+    // Text Tool Specific
+    textFamily: string;
+    textSize: number;
+    textWeight: number;
+    textLetterSpacing: number;
+    textLineHeight: number;
+    textAlign: TextAlign;
+    // Vector Brush
+    brushStabilizer: BrushStabilizer;
+    brushSmoothing: number; // 0 (raw pointer) to 100 (very calm)
+    brushSimplify: number; // How far (px) the fitted curve (or a variable-width centreline) may stray from the drawn points. 0 keeps every point.
+    brushWidthMode: BrushWidthMode;
+    brushWidthVariation: number; // 0 to 1, how much pressure / speed changes the width
+    brushTaperStart: number; // 0 to 0.5 of the stroke's length
+    brushTaperEnd: number;
+    // Vector Paint Bucket
+    fillGapTolerance: number; // Gaps (px) between lines narrower than this still close a region
+    // Paint Layer Brush (raster brush and eraser)
+    brushHardness: number; // 0 (soft edge) to 1 (hard edge)
+    brushSpacing: number; // Gap between dabs, as a fraction of the brush size
+    pressureSize: boolean; // Pen pressure changes the brush size
+    pressureOpacity: boolean; // Pen pressure changes how strong each dab is
     // Properties of the selected object. Optional.
     selectionX?: number;
     selectionY?: number;
     selectionRotation?: number;
-    selectionScale?: number;
+    selectionScaleX?: number;
+    selectionScaleY?: number;
+    selectionSkewX?: number; // degrees
+    selectionSkewY?: number; // degrees
+    selectionOpacity?: number; // 0 to 1, placed images only
+    selectionBlendMode?: BlendMode; // Placed images only
+    // How many shapes are selected, and which of the fields above differ between them.
+    selectionCount?: number;
+    selectionMixed?: (keyof ToolSettings)[];
+}
+
+// --- Canvas ---
+export interface CanvasSettings {
+    // The artboard's real size in pixels. Exports always come out at this size.
+    artboardWidth: number;
+    artboardHeight: number;
+    // The artboard wraps around like a texture tile: whatever leaves one edge comes back on the other.
+    tileMode: boolean;
+    // Shows the tile repeated 3x3 so seams are easy to spot.
+    tilePreview: boolean;
+    // Snapping while drawing and dragging. Holding Ctrl (Cmd on Mac) skips it for one gesture.
+    snapping: boolean;
+    snapToGrid: boolean;
+    showGrid: boolean;
+    gridSize: number; // Artboard pixels, counted from the artboard's top-left corner
+    snapToObjects: boolean; // Other shapes' anchors, edges, centres and spacing
+    snapToArtboard: boolean; // The artboard's edges and centre
+    smartGuides: boolean; // Lines showing what something snapped to
+    // Rulers along the top and left of the Stage, and the guides dragged out of them
+    showRulers: boolean;
+    showGuides: boolean; // Hidden guides don't snap either
+    lockGuides: boolean; // Locked guides can't be moved or removed by dragging
+}
+
+// A guide line dragged out of a ruler. `position` is in artboard pixels from the artboard's top-left corner:
+// an x for a vertical guide, a y for a horizontal one.
+export interface Guide {
+    id: string;
+    orientation: 'vertical' | 'horizontal';
+    position: number;
+}
+
+// Where the artboard sits on screen, reported by the Stage whenever zoom, pan or size change. Used by the rulers.
+export interface StageView {
+    scale: number; // Screen pixels per artboard pixel
+    panX: number; // Screen offset of the artboard centre from the window centre
+    panY: number;
+    width: number; // Stage size in screen pixels
+    height: number;
+    artboardWidth: number;
+    artboardHeight: number;
+}
+
+// --- Commands ---
+// Every action the editor offers, from menus, the command palette or the keyboard
+export type CommandId =
+    | 'tool.select' | 'tool.shape' | 'tool.brush' | 'tool.pen' | 'tool.text' | 'tool.eraser' | 'tool.fill' | 'tool.delete'
+    | 'edit.undo' | 'edit.redo' | 'edit.delete' | 'edit.duplicate' | 'edit.deselect'
+    | 'edit.copy' | 'edit.cut' | 'edit.paste' | 'edit.pasteInPlace'
+    | 'nudge.left' | 'nudge.right' | 'nudge.up' | 'nudge.down'
+    | 'nudge.leftFar' | 'nudge.rightFar' | 'nudge.upFar' | 'nudge.downFar'
+    | 'pen.finish' | 'pen.deleteAnchor' | 'pen.sharpAnchor' | 'pen.convertToPath'
+    | 'layer.add' | 'layer.addPaint' | 'layer.duplicate' | 'layer.delete' | 'layer.group' | 'layer.ungroup'
+    | 'layer.copy' | 'layer.cut'
+    | 'align.left' | 'align.center' | 'align.right' | 'align.top' | 'align.middle' | 'align.bottom'
+    | 'distribute.horizontalCenters' | 'distribute.verticalCenters' | 'distribute.horizontalSpacing' | 'distribute.verticalSpacing'
+    | 'view.zoomIn' | 'view.zoomOut' | 'view.actualSize' | 'view.fitArtboard' | 'view.fitSelection'
+    | 'view.toggleRulers' | 'view.toggleGrid' | 'view.toggleSnapping' | 'view.toggleTheme'
+    | 'window.properties' | 'window.layers' | 'window.assets' | 'window.shortcuts'
+    | 'file.save' | 'file.open' | 'file.import' | 'file.exportPng' | 'file.exportSvg'
+    | 'help.commandPalette';
+
+// The keys bound to each command, written like "Ctrl+Shift+Z" (Ctrl also means Cmd on a Mac). An empty list means unbound.
+export type Keymap = Record<CommandId, string[]>;
+
+// --- Document Format ---
+export interface CanvasSize {
+    width: number;
+    height: number;
+}
+
+export interface SerializedVector {
+    x: number;
+    y: number;
+}
+
+export interface SerializedAnchor {
+    x: number;
+    y: number;
+    left: SerializedVector;
+    right: SerializedVector;
+    command: string;
+    relative: boolean;
+}
+
+interface SerializedTransform {
+    translation: SerializedVector;
+    rotation: number;
+    scale: number | SerializedVector;
+    // Radians. Missing in files saved before skew existed.
+    skewX?: number;
+    skewY?: number;
+    opacity: number;
+}
+
+interface SerializedShapeBase extends SerializedTransform {
+    fill: string;
+    stroke: string;
+    linewidth: number;
+    cap: LineCap;
+    join: LineJoin;
+    miter: number;
+    dashes: number[];
+    closed: boolean;
+    curved: boolean;
+    automatic: boolean;
+    fillGradient?: GradientPaint;
+    strokeGradient?: GradientPaint;
+    variableStroke?: VariableStroke;
+    // Only stored for free-form paths and lines. Primitives rebuild their vertices from their parameters.
+    vertices?: SerializedAnchor[];
+}
+
+export type SerializedShape = SerializedShapeBase & (
+    | { kind: 'path' }
+    | { kind: 'line' }
+    | { kind: 'rectangle'; width: number; height: number }
+    | { kind: 'rounded-rectangle'; width: number; height: number; radius: number; cornerRadius: number }
+    | { kind: 'ellipse'; width: number; height: number }
+    | { kind: 'star'; outerRadius: number; innerRadius: number; sides: number }
+    | { kind: 'polygon'; radius: number; sides: number }
+);
+
+export interface SerializedGroup extends SerializedTransform {
+    kind: 'group';
+    children: SerializedNode[];
+    // One gradient across all the members
+    fillGradient?: GradientPaint;
+    strokeGradient?: GradientPaint;
+}
+
+// Text is stored as its words and style, the glyphs are laid out again when the file is opened.
+export interface SerializedText extends SerializedTransform, TextStyle {
+    kind: 'text';
+    value: string;
+    fill: string;
+    stroke: string;
+    linewidth: number;
+    fillGradient?: GradientPaint;
+    strokeGradient?: GradientPaint;
+}
+
+// Painted pixels are stored as a PNG data URL, at the size of the artboard they were painted on.
+export interface SerializedRaster extends SerializedTransform {
+    kind: 'raster';
+    width: number;
+    height: number;
+    src: string;
+}
+
+// Placed photos keep their original file, so they are saved exactly as they were imported.
+// The file itself sits in the document's image table, the node only names it.
+export interface SerializedImage extends SerializedTransform {
+    kind: 'image';
+    width: number;
+    height: number;
+    asset: string;
+    blendMode: BlendMode;
+}
+
+export type SerializedNode = SerializedShape | SerializedGroup | SerializedText | SerializedRaster | SerializedImage;
+
+// Everything needed to rebuild a scene: the layer tree plus the vector content of every layer (keyed by layer id).
+export interface WhisperDocument {
+    format: 'whisper';
+    version: number;
+    name: string;
+    savedAt: string;
+    canvas: CanvasSize;
+    toolSettings: ToolSettings;
+    layers: Layer[];
+    content: Record<string, SerializedNode[]>;
+    guides?: Guide[]; // Missing in files saved before guides existed
+    assets?: ImageAssets; // Placed photos by name. Missing in files without any
+}
+
+// A lighter copy of the document used by undo/redo: just what an edit can change.
+export interface DocumentSnapshot {
+    layers: Layer[];
+    content: Record<string, SerializedNode[]>;
+    guides: Guide[];
+    canvas: CanvasSize;
+}
+
+// --- Clipboard ---
+// Copied shapes remember the box they covered, in scene units (artboard centre = 0,0), so they can be pasted back in place
+export interface ClipboardShapes {
+    kind: 'shapes';
+    nodes: SerializedNode[];
+    bounds: { left: number; top: number; right: number; bottom: number };
+}
+
+// Copied layers bring their sub-layers and every shape in them, keyed by layer id like a document
+export interface ClipboardLayers {
+    kind: 'layers';
+    layers: Layer[];
+    content: Record<string, SerializedNode[]>;
+}
+
+export type ClipboardContent = ClipboardShapes | ClipboardLayers;
+
+// 'cursor' drops pasted shapes under the pointer, 'in-place' puts them exactly where they were copied from
+export type PastePlacement = 'cursor' | 'in-place';
+
+// --- Placed Images ---
+// A decoded photo: the file as a data URL and its size in pixels
+export interface ImageSource {
+    src: string;
+    width: number;
+    height: number;
+}
+
+// Photo files (data URLs) by the name nodes use for them, each stored once
+export type ImageAssets = Record<string, string>;
+
+// --- Autosave ---
+export interface AutosaveSessionInfo {
+    id: string;
+    name: string;
+    updatedAt: number;
+    thumbnail?: string;
+}
+
+export interface AutosaveSession extends AutosaveSessionInfo {
+    document: WhisperDocument;
 }
 
 // --- Engine Events ---
-export type SelectedObjectType = ShapeType | 'path' | null;
+// 'mixed' means several shapes of different kinds are selected.
+export type SelectedObjectType = ShapeType | 'path' | 'stroke' | 'text' | 'image' | 'mixed' | null; // 'stroke' = variable-width brush stroke, 'image' = placed photo
 
 export interface SelectionState {
   layerId: string | null;
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Box } from './spatial.tsx';
+import { AlignEdge, DistributeMode } from '../types/index.tsx';
+
+/**
+ * 📐 Align & Distribute
+ * Lines things up and spreads them out evenly, like straightening a row of
+ * stickers with a ruler.
+ *
+ * -   **Align** moves every box so the same edge (or centre) sits on the same
+ *     line: the matching edge of a reference box, which is either the box
+ *     around everything or the artboard.
+ * -   **Distribute** keeps the order of the boxes and spaces them out evenly,
+ *     either so their centres are the same distance apart or so the gaps
+ *     between them are the same. Against the selection the two outer boxes
+ *     stay put; against the artboard they move to its edges.
+ *
+ * Everything works on plain boxes in one space and only says how far to move
+ * each one; actually moving shapes or layers is up to the caller.
+ */
+
+export interface AlignOffset {
+    dx: number;
+    dy: number;
+}
+
+type Axis = 'x' | 'y';
+
+const NO_MOVE: AlignOffset = { dx: 0, dy: 0 };
+
+const start = (box: Box, axis: Axis) => axis === 'x' ? box.left : box.top;
+const end = (box: Box, axis: Axis) => axis === 'x' ? box.right : box.bottom;
+const size = (box: Box, axis: Axis) => end(box, axis) - start(box, axis);
+const middle = (box: Box, axis: Axis) => (start(box, axis) + end(box, axis)) / 2;
+
+const offsetOn = (axis: Axis, distance: number): AlignOffset => axis === 'x' ? { dx: distance, dy: 0 } : { dx: 0, dy: distance };
+
+// The box around all boxes, the reference for "align to selection"
+export const boundsOf = (boxes: Box[]): Box => ({
+    left: Math.min(...boxes.map(box => box.left)), top: Math.min(...boxes.map(box => box.top)),
+    right: Math.max(...boxes.map(box => box.right)), bottom: Math.max(...boxes.map(box => box.bottom)),
+});
+
+/**
+ * How far to move each box so its `edge` lines up with the same edge of `reference`.
+ */
+export const alignBoxes = (boxes: Box[], edge: AlignEdge, reference: Box): AlignOffset[] => {
+    const axis: Axis = edge === 'left' || edge === 'center' || edge === 'right' ? 'x' : 'y';
+    const pick = edge === 'left' || edge === 'top' ? start : edge === 'right' || edge === 'bottom' ? end : middle;
+    const target = pick(reference, axis);
+    return boxes.map(box => offsetOn(axis, target - pick(box, axis)));
+};
+
+/**
+ * How far to move each box to spread them out evenly. Without a `reference` the outermost
+ * boxes stay where they are; with one they are pushed against its edges.
+ */
+export const distributeBoxes = (boxes: Box[], mode: DistributeMode, reference: Box | null = null): AlignOffset[] => {
+    const offsets = boxes.map(() => NO_MOVE);
+    if (boxes.length < 2) return offsets;
+    const axis: Axis = mode === 'horizontal-centers' || mode === 'horizontal-spacing' ? 'x' : 'y';
+    const byCenters = mode === 'horizontal-centers' || mode === 'vertical-centers';
+    // Left to right (or top to bottom), ties keep their stacking order
+    const order = boxes.map((box, index) => index)
+        .sort((a, b) => (byCenters ? middle(boxes[a], axis) - middle(boxes[b], axis) : start(boxes[a], axis) - start(boxes[b], axis)) || a - b);
+    const first = boxes[order[0]], last = boxes[order[order.length - 1]];
+    const steps = order.length - 1;
+
+    if (byCenters) {
+        const from = reference ? start(reference, axis) + size(first, axis) / 2 : middle(first, axis);
+        const to = reference ? end(reference, axis) - size(last, axis) / 2 : middle(last, axis);
+        order.forEach((index, i) => {
+            offsets[index] = offsetOn(axis, from + ((to - from) * i) / steps - middle(boxes[index], axis));
+        });
+        return offsets;
+    }
+
+    const from = reference ? start(reference, axis) : start(first, axis);
+    const to = reference ? end(reference, axis) : Math.max(...boxes.map(box => end(box, axis)));
+    const total = order.reduce((sum, index) => sum + size(boxes[index], axis), 0);
+    const gap = (to - from - total) / steps;
+    let at = from;
+    order.forEach(index => {
+        offsets[index] = offsetOn(axis, at - start(boxes[index], axis));
+        at += size(boxes[index], axis) + gap;
+    });
+    return offsets;
+};
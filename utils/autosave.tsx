@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { AutosaveSession, AutosaveSessionInfo, WhisperDocument } from '../types/index.tsx';
+
+/**
+ * 💾 Autosave Storage
+ * A tiny IndexedDB wrapper. Every browser tab is a "session"; its latest
+ * document is written here in the background so it survives a crash or an
+ * accidental close. Session info (name, time, thumbnail) lives in its own
+ * store, so listing sessions never has to load the heavy documents. Placed
+ * photos have a store of their own too: each is written once, however many
+ * times the document around it is saved, and dropped when no session uses it.
+ */
+
+const DB_NAME = 'whisper-draw';
+const DB_VERSION = 2;
+const INFO_STORE = 'sessions';
+const DOCUMENT_STORE = 'documents';
+const ASSET_STORE = 'assets';
+
+// How many old sessions we keep around before the oldest ones are thrown away.
+export const MAX_SESSIONS = 10;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser.'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(INFO_STORE)) db.createObjectStore(INFO_STORE, { keyPath: 'id' });
+            if (!db.objectStoreNames.contains(DOCUMENT_STORE)) db.createObjectStore(DOCUMENT_STORE);
+            if (!db.objectStoreNames.contains(ASSET_STORE)) db.createObjectStore(ASSET_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again if opening failed (e.g. private mode).
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+// Runs `work` inside one transaction and resolves once everything is safely written.
+const withStores = async <T,>(mode: IDBTransactionMode, work: (info: IDBObjectStore, docs: IDBObjectStore, assets: IDBObjectStore) => T): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction([INFO_STORE, DOCUMENT_STORE, ASSET_STORE], mode);
+        const result = work(tx.objectStore(INFO_STORE), tx.objectStore(DOCUMENT_STORE), tx.objectStore(ASSET_STORE));
+        tx.oncomplete = () => resolve(result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+// Session info as stored: which photos the document uses, so unused ones can be found without loading documents
+interface StoredSessionInfo extends AutosaveSessionInfo {
+    assets?: string[];
+}
+
+export const saveSession = (session: AutosaveSession) =>
+    withStores('readwrite', (info, docs, assetStore) => {
+        const { document: { assets = {}, ...doc }, ...sessionInfo } = session;
+        const stored: StoredSessionInfo = { ...sessionInfo, assets: Object.keys(assets) };
+        info.put(stored);
+        docs.put(doc, session.id);
+        Object.entries(assets).forEach(([id, src]) => {
+            const check = assetStore.count(id);
+            check.onsuccess = () => { if (check.result === 0) assetStore.put(src, id); };
+        });
+    });
+
+/**
+ * Lists every stored session, newest first.
+ */
+export const listSessions = async (): Promise<AutosaveSessionInfo[]> => {
+    const request = await withStores('readonly', (info) => info.getAll());
+    const sessions = (request.result || []) as AutosaveSessionInfo[];
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSessionDocument = async (id: string): Promise<WhisperDocument | null> => {
+    const { stored, doc } = await withStores('readonly', (info, docs) => ({
+        stored: info.get(id) as IDBRequest<StoredSessionInfo | undefined>,
+        doc: docs.get(id) as IDBRequest<WhisperDocument | undefined>,
+    }));
+    if (!doc.result) return null;
+    const ids = stored.result?.assets ?? [];
+    const files = await withStores('readonly', (_info, _docs, assets) => ids.map(asset => assets.get(asset) as IDBRequest<string | undefined>));
+    const assets = Object.fromEntries(ids.flatMap((asset, i) => (files[i].result ? [[asset, files[i].result]] : [])));
+    return { ...doc.result, assets };
+};
+
+// Photos no remaining session uses. Call inside the transaction that deleted sessions, after the deletes.
+const dropUnusedAssets = (info: IDBObjectStore, assetStore: IDBObjectStore) => {
+    const sessions = info.getAll();
+    const keys = assetStore.getAllKeys();
+    keys.onsuccess = () => {
+        const used = new Set((sessions.result as StoredSessionInfo[]).flatMap(session => session.assets ?? []));
+        keys.result.forEach(key => { if (!used.has(key as string)) assetStore.delete(key); });
+    };
+};
+
+export const deleteSession = (id: string) =>
+    withStores('readwrite', (info, docs, assets) => {
+        info.delete(id);
+        docs.delete(id);
+        dropUnusedAssets(info, assets);
+    });
+
+/**
+ * Keeps only the newest `keep` sessions.
+ */
+export const pruneSessions = async (keep = MAX_SESSIONS) => {
+    const sessions = await listSessions();
+    const stale = sessions.slice(keep);
+    if (stale.length === 0) return;
+    await withStores('readwrite', (info, docs, assets) => {
+        stale.forEach(session => {
+            info.delete(session.id);
+            docs.delete(session.id);
+        });
+        dropUnusedAssets(info, assets);
+    });
+};
+
+// --- Live Tabs ---
+// Every open tab stamps its session in localStorage every few seconds. A session whose stamp is
+// fresh belongs to a tab that is still open, so it isn't offered for recovery anywhere else.
+
+const LIVE_KEY = 'whisper-draw-live:';
+export const HEARTBEAT_MS = 5000;
+const LIVE_TIMEOUT_MS = HEARTBEAT_MS * 3;
+
+export const markSessionLive = (id: string) => {
+    try {
+        localStorage.setItem(LIVE_KEY + id, String(Date.now()));
+    } catch {
+        // Without storage every session looks closed, which only shows a few too many
+    }
+};
+
+// The tab is closing (or moved on to another session): its work can be recovered from now on
+export const markSessionClosed = (id: string) => {
+    try {
+        localStorage.removeItem(LIVE_KEY + id);
+    } catch {
+        // See above
+    }
+};
+
+const isSessionLive = (id: string): boolean => {
+    try {
+        const stamp = Number(localStorage.getItem(LIVE_KEY + id));
+        return Date.now() - stamp < LIVE_TIMEOUT_MS;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Sessions left behind by tabs that are gone (closed or crashed), newest first.
+ */
+export const listRecoverableSessions = async (): Promise<AutosaveSessionInfo[]> =>
+    (await listSessions()).filter(session => !isSessionLive(session.id));
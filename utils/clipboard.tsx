@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { ClipboardContent, ClipboardLayers, Layer, SerializedNode } from '../types/index.tsx';
+import { DOCUMENT_VERSION, collectImageAssets } from './document.tsx';
+import { IMAGE_FILE_TYPES, addImageAssets } from './image.tsx';
+
+/**
+ * 📋 Clipboard
+ * Copying puts a picture of the artwork on the system clipboard twice over:
+ * as SVG text and as a PNG, so it can be pasted into other apps. Our own
+ * shapes ride along inside the SVG (in a <metadata> tag), so pasting into
+ * another Whisper tab or document gets back exactly what was copied:
+ * gradients, brush strokes, text and all.
+ */
+
+const CLIPBOARD_FORMAT = 'whisper-clipboard';
+const METADATA_ID = 'whisper-clipboard';
+
+// Layer thumbnails are redrawn after pasting, so they aren't worth carrying around
+const withoutThumbnails = (layers: Layer[]): Layer[] =>
+    layers.map(({ thumbnail, ...layer }) => ({ ...layer, children: withoutThumbnails(layer.children) }));
+
+const collectIds = (layers: Layer[]): string[] => layers.flatMap(layer => [layer.id, ...collectIds(layer.children)]);
+
+/**
+ * A layer ready for the clipboard: the layer, its sub-layers and their shapes.
+ */
+export const createLayerClipboard = (layer: Layer, content: Record<string, SerializedNode[]>): ClipboardLayers => {
+    const [copy] = withoutThumbnails([layer]);
+    return {
+        kind: 'layers',
+        layers: [copy],
+        content: Object.fromEntries(collectIds([copy]).map(id => [id, content[id] ?? []])),
+    };
+};
+
+/**
+ * The same layers under brand new ids, so they can be pasted next to the originals (or pasted twice).
+ */
+export const remapLayerIds = (clip: ClipboardLayers): ClipboardLayers => {
+    const stamp = Date.now();
+    let count = 0;
+    const content: Record<string, SerializedNode[]> = {};
+    const remap = (layers: Layer[]): Layer[] => layers.map(layer => {
+        const id = `${layer.type === 'group' ? 'group' : 'layer'}-${stamp}-${count++}`;
+        content[id] = clip.content[layer.id] ?? [];
+        return { ...layer, id, children: remap(layer.children) };
+    });
+    const layers = remap(clip.layers);
+    return { kind: 'layers', layers, content };
+};
+
+// --- Riding Inside the SVG ---
+
+const nodesOf = (content: ClipboardContent): SerializedNode[] =>
+    content.kind === 'shapes' ? content.nodes : Object.values(content.content).flat();
+
+/**
+ * Tucks the copied content into the SVG as a <metadata> tag, with the files of any photos in it. Other apps ignore it.
+ */
+export const embedClipboardContent = (svg: string, content: ClipboardContent): string => {
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+    const root = doc.documentElement;
+    const metadata = doc.createElementNS('http://www.w3.org/2000/svg', 'metadata');
+    metadata.setAttribute('id', METADATA_ID);
+    metadata.textContent = JSON.stringify({ format: CLIPBOARD_FORMAT, version: DOCUMENT_VERSION, content, assets: collectImageAssets(nodesOf(content)) });
+    root.insertBefore(metadata, root.firstChild);
+    return new XMLSerializer().serializeToString(doc);
+};
+
+/**
+ * Our content back out of a pasted SVG, or null when the SVG came from somewhere else.
+ */
+export const extractClipboardContent = (svg: SVGSVGElement): ClipboardContent | null => {
+    const metadata = Array.from(svg.getElementsByTagName('metadata')).find(element => element.getAttribute('id') === METADATA_ID);
+    if (!metadata?.textContent) return null;
+    try {
+        const data = JSON.parse(metadata.textContent);
+        // Clipboards written by a newer version may hold things this one can't rebuild
+        if (data?.format !== CLIPBOARD_FORMAT || typeof data.version !== 'number' || data.version > DOCUMENT_VERSION) return null;
+        const content = data.content;
+        if (data.assets && typeof data.assets === 'object') addImageAssets(data.assets);
+        if (content?.kind === 'shapes' && Array.isArray(content.nodes) && content.bounds) return content;
+        if (content?.kind === 'layers' && Array.isArray(content.layers) && content.content) return content;
+    } catch {
+        // Not valid JSON, so not ours after all
+    }
+    return null;
+};
+
+// --- System Clipboard ---
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+/**
+ * Writes the SVG and PNG to the system clipboard. Browsers differ in what they accept,
+ * so richer combinations are tried first and plain SVG text is the last resort.
+ */
+export const writeSystemClipboard = async (svg: string, png: string | null) => {
+    const text = new Blob([svg], { type: 'text/plain' });
+    const attempts: Record<string, Blob | Promise<Blob>>[] = [];
+    if (typeof ClipboardItem !== 'undefined') {
+        const image = png ? { 'image/png': dataUrlToBlob(png) } : {};
+        if (typeof ClipboardItem.supports === 'function' && ClipboardItem.supports('image/svg+xml')) {
+            attempts.push({ 'text/plain': text, 'image/svg+xml': new Blob([svg], { type: 'image/svg+xml' }), ...image });
+        }
+        attempts.push({ 'text/plain': text, ...image });
+    }
+    for (const items of attempts) {
+        try {
+            await navigator.clipboard.write([new ClipboardItem(items)]);
+            return;
+        } catch {
+            // Not supported here, try something simpler
+        }
+    }
+    await navigator.clipboard.writeText(svg);
+};
+
+/**
+ * The SVG (or plain text) on the system clipboard, else a copied photo, or null when it holds none of them.
+ * Our own copies carry a PNG too, so the text is looked for first. Throws when the browser won't let us read it.
+ */
+export const readSystemClipboard = async (): Promise<string | Blob | null> => {
+    if (typeof navigator.clipboard.read !== 'function') return navigator.clipboard.readText();
+    const items = await navigator.clipboard.read();
+    for (const item of items) {
+        const type = ['image/svg+xml', 'text/plain'].find(candidate => item.types.includes(candidate));
+        if (type) return (await item.getType(type)).text();
+    }
+    for (const item of items) {
+        const type = IMAGE_FILE_TYPES.split(',').find(candidate => item.types.includes(candidate));
+        if (type) return item.getType(type);
+    }
+    return null;
+};
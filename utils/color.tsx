@@ -87,4 +87,18 @@ export const hexToHsl = (hex: string): HSLColor => {
     }
 
     return { h, s, l };
-};
\ No newline at end of file
+};
+/**
+ * Turns a HEX color plus an opacity into a CSS rgba() string.
+ * Accepts #RGB and #RRGGBB.
+ *
+ * @param   {string}  hex     The hex color value
+ * @param   {number}  alpha   The opacity, from 0 to 1
+ * @return  {string}          The rgba() representation
+ */
+export const hexToRgba = (hex: string, alpha: number): string => {
+    let digits = hex.replace('#', '');
+    if (digits.length === 3) digits = digits.split('').map(c => c + c).join('');
+    const value = parseInt(digits.slice(0, 6), 16) || 0;
+    return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+};
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { CommandId } from '../types/index.tsx';
+
+/**
+ * ⚡ Commands
+ * The one list of everything the editor can do: switching tools, editing
+ * shapes and layers, zooming, saving... Each command is written down here
+ * once, with its name, its icon, the group it belongs to and the keys it
+ * starts with. The toolbar, the dock, menus, the keyboard and the command
+ * palette all read their names and icons from this list.
+ *
+ * What a command actually does (and whether it can run right now) depends on
+ * the app's state, so the app hands in a `CommandImplementation` for every id.
+ */
+
+export type CommandCategory = 'Tools' | 'Edit' | 'Nudge' | 'Pen' | 'Layers' | 'Align' | 'View' | 'Window' | 'File' | 'Help';
+
+export interface CommandDefinition {
+    id: CommandId;
+    label: string;
+    icon: string; // Phosphor icon class
+    category: CommandCategory;
+    defaults: string[]; // Default key bindings
+    keywords?: string[]; // Extra words the palette search should find it by
+}
+
+export interface CommandImplementation {
+    run: () => void;
+    isEnabled?: () => boolean; // Missing means always available
+    // Keys the browser answers with an event of its own (Ctrl+V fires 'paste'). The shortcut leaves them alone so that event still comes.
+    nativeKeys?: string[];
+}
+
+// Every command needs an implementation, so a new command can't be forgotten
+export type CommandImplementations = Record<CommandId, CommandImplementation>;
+
+export const COMMAND_CATEGORIES: CommandCategory[] = ['Tools', 'Edit', 'Nudge', 'Pen', 'Layers', 'Align', 'View', 'Window', 'File', 'Help'];
+
+export const COMMANDS: CommandDefinition[] = [
+    // Tools, in toolbar order
+    { id: 'tool.select', label: 'Select', icon: 'ph-cursor-click', category: 'Tools', defaults: ['V'], keywords: ['move', 'arrow'] },
+    { id: 'tool.shape', label: 'Shapes', icon: 'ph-shapes', category: 'Tools', defaults: ['U'], keywords: ['rectangle', 'ellipse', 'star', 'polygon', 'line'] },
+    { id: 'tool.brush', label: 'Brush', icon: 'ph-paint-brush-broad', category: 'Tools', defaults: ['B'], keywords: ['draw', 'paint'] },
+    { id: 'tool.pen', label: 'Pen', icon: 'ph-pen-nib', category: 'Tools', defaults: ['P'], keywords: ['bezier', 'path'] },
+    { id: 'tool.text', label: 'Text', icon: 'ph-text-t', category: 'Tools', defaults: ['T'], keywords: ['type', 'font'] },
+    { id: 'tool.eraser', label: 'Eraser', icon: 'ph-eraser', category: 'Tools', defaults: ['E'] },
+    { id: 'tool.fill', label: 'Fill', icon: 'ph-paint-bucket', category: 'Tools', defaults: ['K'], keywords: ['bucket'] },
+    { id: 'tool.delete', label: 'Delete Vector', icon: 'ph-trash', category: 'Tools', defaults: [] },
+
+    { id: 'edit.undo', label: 'Undo', icon: 'ph-arrow-counter-clockwise', category: 'Edit', defaults: ['Ctrl+Z'] },
+    { id: 'edit.redo', label: 'Redo', icon: 'ph-arrow-clockwise', category: 'Edit', defaults: ['Ctrl+Shift+Z', 'Ctrl+Y'] },
+    { id: 'edit.delete', label: 'Delete Selection', icon: 'ph-trash', category: 'Edit', defaults: ['Delete', 'Backspace'], keywords: ['remove'] },
+    { id: 'edit.duplicate', label: 'Duplicate', icon: 'ph-copy', category: 'Edit', defaults: ['Ctrl+D'], keywords: ['copy', 'clone'] },
+    { id: 'edit.copy', label: 'Copy', icon: 'ph-copy-simple', category: 'Edit', defaults: ['Ctrl+C'], keywords: ['clipboard'] },
+    { id: 'edit.cut', label: 'Cut', icon: 'ph-scissors', category: 'Edit', defaults: ['Ctrl+X'], keywords: ['clipboard'] },
+    { id: 'edit.paste', label: 'Paste', icon: 'ph-clipboard', category: 'Edit', defaults: ['Ctrl+V'], keywords: ['clipboard', 'svg'] },
+    { id: 'edit.pasteInPlace', label: 'Paste in Place', icon: 'ph-clipboard-text', category: 'Edit', defaults: ['Ctrl+Shift+V'], keywords: ['clipboard'] },
+    { id: 'edit.deselect', label: 'Deselect / Stop Drawing', icon: 'ph-selection-slash', category: 'Edit', defaults: ['Escape'] },
+
+    { id: 'nudge.left', label: 'Nudge Left', icon: 'ph-arrow-left', category: 'Nudge', defaults: ['ArrowLeft'] },
+    { id: 'nudge.right', label: 'Nudge Right', icon: 'ph-arrow-right', category: 'Nudge', defaults: ['ArrowRight'] },
+    { id: 'nudge.up', label: 'Nudge Up', icon: 'ph-arrow-up', category: 'Nudge', defaults: ['ArrowUp'] },
+    { id: 'nudge.down', label: 'Nudge Down', icon: 'ph-arrow-down', category: 'Nudge', defaults: ['ArrowDown'] },
+    { id: 'nudge.leftFar', label: 'Nudge Left x10', icon: 'ph-arrow-line-left', category: 'Nudge', defaults: ['Shift+ArrowLeft'] },
+    { id: 'nudge.rightFar', label: 'Nudge Right x10', icon: 'ph-arrow-line-right', category: 'Nudge', defaults: ['Shift+ArrowRight'] },
+    { id: 'nudge.upFar', label: 'Nudge Up x10', icon: 'ph-arrow-line-up', category: 'Nudge', defaults: ['Shift+ArrowUp'] },
+    { id: 'nudge.downFar', label: 'Nudge Down x10', icon: 'ph-arrow-line-down', category: 'Nudge', defaults: ['Shift+ArrowDown'] },
+
+    { id: 'pen.finish', label: 'Finish Path', icon: 'ph-check', category: 'Pen', defaults: ['Enter'] },
+    { id: 'pen.deleteAnchor', label: 'Delete Anchor', icon: 'ph-trash', category: 'Pen', defaults: [] },
+    { id: 'pen.sharpAnchor', label: 'Sharpen Anchor', icon: 'ph-corners-out', category: 'Pen', defaults: [], keywords: ['corner'] },
+    { id: 'pen.convertToPath', label: 'Convert to Path', icon: 'ph-bezier-curve', category: 'Pen', defaults: [], keywords: ['outlines', 'flatten'] },
+
+    { id: 'layer.add', label: 'New Layer', icon: 'ph-plus', category: 'Layers', defaults: [] },
+    { id: 'layer.addPaint', label: 'New Paint Layer', icon: 'ph-paint-brush', category: 'Layers', defaults: [], keywords: ['raster', 'pixels'] },
+    { id: 'layer.duplicate', label: 'Duplicate Layer', icon: 'ph-copy', category: 'Layers', defaults: [] },
+    { id: 'layer.delete', label: 'Delete Layer', icon: 'ph-trash', category: 'Layers', defaults: [] },
+    { id: 'layer.copy', label: 'Copy Layer', icon: 'ph-copy-simple', category: 'Layers', defaults: [], keywords: ['clipboard'] },
+    { id: 'layer.cut', label: 'Cut Layer', icon: 'ph-scissors', category: 'Layers', defaults: [], keywords: ['clipboard'] },
+    { id: 'layer.group', label: 'Group Layer', icon: 'ph-folder-plus', category: 'Layers', defaults: ['Ctrl+G'] },
+    { id: 'layer.ungroup', label: 'Ungroup', icon: 'ph-folder-minus', category: 'Layers', defaults: ['Ctrl+Shift+G'] },
+
+    { id: 'align.left', label: 'Align Left Edges', icon: 'ph-align-left', category: 'Align', defaults: [] },
+    { id: 'align.center', label: 'Align Horizontal Centres', icon: 'ph-align-center-horizontal', category: 'Align', defaults: [] },
+    { id: 'align.right', label: 'Align Right Edges', icon: 'ph-align-right', category: 'Align', defaults: [] },
+    { id: 'align.top', label: 'Align Top Edges', icon: 'ph-align-top', category: 'Align', defaults: [] },
+    { id: 'align.middle', label: 'Align Vertical Centres', icon: 'ph-align-center-vertical', category: 'Align', defaults: [] },
+    { id: 'align.bottom', label: 'Align Bottom Edges', icon: 'ph-align-bottom', category: 'Align', defaults: [] },
+    { id: 'distribute.horizontalCenters', label: 'Distribute Horizontal Centres', icon: 'ph-columns', category: 'Align', defaults: [] },
+    { id: 'distribute.verticalCenters', label: 'Distribute Vertical Centres', icon: 'ph-rows', category: 'Align', defaults: [] },
+    { id: 'distribute.horizontalSpacing', label: 'Equal Horizontal Gaps', icon: 'ph-arrows-horizontal', category: 'Align', defaults: [], keywords: ['distribute', 'spacing'] },
+    { id: 'distribute.verticalSpacing', label: 'Equal Vertical Gaps', icon: 'ph-arrows-vertical', category: 'Align', defaults: [], keywords: ['distribute', 'spacing'] },
+
+    { id: 'view.zoomIn', label: 'Zoom In', icon: 'ph-magnifying-glass-plus', category: 'View', defaults: ['Ctrl+='] },
+    { id: 'view.zoomOut', label: 'Zoom Out', icon: 'ph-magnifying-glass-minus', category: 'View', defaults: ['Ctrl+-'] },
+    { id: 'view.actualSize', label: 'Zoom to 100%', icon: 'ph-frame-corners', category: 'View', defaults: ['Shift+0'] },
+    { id: 'view.fitArtboard', label: 'Fit Artboard', icon: 'ph-arrows-out', category: 'View', defaults: ['Shift+1'] },
+    { id: 'view.fitSelection', label: 'Fit Selection', icon: 'ph-selection', category: 'View', defaults: ['Shift+2'] },
+    { id: 'view.toggleRulers', label: 'Show / Hide Rulers', icon: 'ph-ruler', category: 'View', defaults: [], keywords: ['guides'] },
+    { id: 'view.toggleGrid', label: 'Show / Hide Grid', icon: 'ph-grid-four', category: 'View', defaults: [] },
+    { id: 'view.toggleSnapping', label: 'Snapping On / Off', icon: 'ph-magnet', category: 'View', defaults: [] },
+    { id: 'view.toggleTheme', label: 'Light / Dark Theme', icon: 'ph-moon', category: 'View', defaults: [], keywords: ['dark mode'] },
+
+    { id: 'window.properties', label: 'Inspector', icon: 'ph-sliders-horizontal', category: 'Window', defaults: [], keywords: ['properties', 'panel'] },
+    { id: 'window.layers', label: 'Layers', icon: 'ph-stack', category: 'Window', defaults: [], keywords: ['panel'] },
+    { id: 'window.assets', label: 'Assets', icon: 'ph-folder-simple', category: 'Window', defaults: [], keywords: ['panel', 'export'] },
+    { id: 'window.shortcuts', label: 'Keyboard Shortcuts', icon: 'ph-keyboard', category: 'Window', defaults: ['Shift+?'], keywords: ['keymap', 'cheat sheet'] },
+
+    { id: 'file.save', label: 'Save Document', icon: 'ph-floppy-disk', category: 'File', defaults: ['Ctrl+S'] },
+    { id: 'file.open', label: 'Open Document', icon: 'ph-folder-open', category: 'File', defaults: ['Ctrl+O'] },
+    { id: 'file.import', label: 'Import Image', icon: 'ph-image-square', category: 'File', defaults: ['Ctrl+Shift+K'], keywords: ['svg', 'place', 'logo', 'icon', 'photo', 'png', 'jpeg', 'webp'] },
+    { id: 'file.exportPng', label: 'Export PNG', icon: 'ph-image', category: 'File', defaults: [] },
+    { id: 'file.exportSvg', label: 'Export SVG', icon: 'ph-file-svg', category: 'File', defaults: [] },
+
+    { id: 'help.commandPalette', label: 'Command Palette', icon: 'ph-command', category: 'Help', defaults: ['Ctrl+K'], keywords: ['search', 'actions'] },
+];
+
+const BY_ID = new Map(COMMANDS.map(command => [command.id, command]));
+
+export const getCommand = (id: CommandId): CommandDefinition => BY_ID.get(id)!;
+
+export const canRun = (implementation: CommandImplementation) => !implementation.isEnabled || implementation.isEnabled();
+
+// Every letter of `query`, in order, somewhere in `text` ("fsel" finds "Fit Selection")
+const isSubsequence = (query: string, text: string) => {
+    let at = 0;
+    for (const char of text) if (char === query[at]) at++;
+    return at === query.length;
+};
+
+/**
+ * Commands matching what was typed in the palette, best matches first. Every word typed has to
+ * appear in the name, group or keywords; failing that, its letters in order in the name will do.
+ */
+export const searchCommands = (query: string, commands: CommandDefinition[] = COMMANDS): CommandDefinition[] => {
+    const typed = query.trim().toLowerCase();
+    if (!typed) return commands;
+    const words = typed.split(/\s+/);
+    const scored = commands.map((command, index) => {
+        const label = command.label.toLowerCase();
+        const haystack = [label, command.category.toLowerCase(), ...(command.keywords ?? [])].join(' ');
+        let score = 0;
+        if (label.startsWith(typed)) score = 4;
+        else if (words.every(word => label.split(/[\s/]+/).some(part => part.startsWith(word)))) score = 3;
+        else if (words.every(word => haystack.includes(word))) score = 2;
+        else if (isSubsequence(typed.replace(/\s+/g, ''), label)) score = 1;
+        return { command, score, index };
+    });
+    return scored.filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .map(({ command }) => command);
+};
@@ -0,0 +1,343 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import Two from 'two.js';
+import {
+    CanvasSize, Layer, ToolSettings, SerializedAnchor, SerializedNode, SerializedShape, SerializedGroup, SerializedText, SerializedRaster, SerializedImage, WhisperDocument, DocumentSnapshot, Guide, ImageAssets,
+} from '../types/index.tsx';
+import { isTextObject, createTextObject } from './text.tsx';
+import { applyGradient, getPaint } from './gradient.tsx';
+import { isRasterObject, createRasterObject, loadRasterImage, rasterToDataUrl, getRasterCanvas } from './raster.tsx';
+import { isImageObject, createImageObject, getImageAsset, getImageAssetId, getImageSize, getImageBlendMode, setImageBlendMode } from './image.tsx';
+
+/**
+ * 📄 Whisper Document Format
+ * Turns the live Two.js scene into plain JSON (and back again) so a drawing
+ * can be saved to a `.whisper` file and opened later, on any machine.
+ */
+
+export const DOCUMENT_FORMAT = 'whisper';
+export const DOCUMENT_VERSION = 1;
+export const DOCUMENT_EXTENSION = '.whisper';
+
+// Older files get upgraded one version at a time. Add a step here whenever DOCUMENT_VERSION goes up.
+const MIGRATIONS: Record<number, (doc: any) => any> = {};
+
+// --- Scene -> JSON ---
+
+const serializePaint = (paint: any): string => {
+    if (typeof paint === 'string') return paint;
+    if (paint && typeof paint.toHexString === 'function') return paint.toHexString();
+    return 'transparent';
+};
+
+// Gradients are saved next to the plain colour, which then only matters once the gradient is removed.
+const serializeGradients = (object: any) => {
+    const fillGradient = getPaint(object, 'fill'), strokeGradient = getPaint(object, 'stroke');
+    return {
+        ...(fillGradient ? { fillGradient } : {}),
+        ...(strokeGradient ? { strokeGradient } : {}),
+    };
+};
+
+const serializeAnchor = (v: any): SerializedAnchor => ({
+    x: v.x,
+    y: v.y,
+    left: { x: v.controls?.left?.x || 0, y: v.controls?.left?.y || 0 },
+    right: { x: v.controls?.right?.x || 0, y: v.controls?.right?.y || 0 },
+    command: v.command,
+    relative: v.relative !== false,
+});
+
+const serializeTransform = (object: any) => ({
+    translation: { x: object.translation.x, y: object.translation.y },
+    rotation: object.rotation,
+    scale: typeof object.scale === 'number' ? object.scale : { x: object.scale.x, y: object.scale.y },
+    skewX: object.skewX || 0,
+    skewY: object.skewY || 0,
+    opacity: object.opacity,
+});
+
+const serializeShape = (shape: any): SerializedShape => {
+    const base = {
+        ...serializeTransform(shape),
+        fill: serializePaint(shape.fill),
+        stroke: serializePaint(shape.stroke),
+        linewidth: shape.linewidth,
+        cap: shape.cap,
+        join: shape.join,
+        miter: shape.miter,
+        dashes: shape.dashes ? [...shape.dashes] : [],
+        closed: shape.closed,
+        curved: shape.curved,
+        automatic: shape.automatic,
+        ...serializeGradients(shape),
+        // Variable-width strokes keep their centreline, so the width can still be edited after reopening
+        ...(shape._variableStroke ? { variableStroke: shape._variableStroke } : {}),
+    };
+
+    // Order matters: every primitive is also a Two.Path, so check the specific classes first.
+    if (shape._isRoundedRect || shape instanceof Two.RoundedRectangle) {
+        const radius = typeof shape.radius === 'number' ? shape.radius : (shape.radius?.x || 0);
+        return { ...base, kind: 'rounded-rectangle', width: shape.width, height: shape.height, radius, cornerRadius: shape._cornerRadius ?? radius };
+    }
+    if (shape instanceof Two.Star) return { ...base, kind: 'star', outerRadius: shape.outerRadius, innerRadius: shape.innerRadius, sides: shape.sides };
+    if (shape instanceof Two.Polygon) return { ...base, kind: 'polygon', radius: shape.radius, sides: shape.sides };
+    if (shape instanceof Two.Ellipse) return { ...base, kind: 'ellipse', width: shape.width, height: shape.height };
+    if (shape instanceof Two.Rectangle) return { ...base, kind: 'rectangle', width: shape.width, height: shape.height };
+    if (shape instanceof Two.Line) return { ...base, kind: 'line', vertices: shape.vertices.map(serializeAnchor) };
+    return { ...base, kind: 'path', vertices: shape.vertices.map(serializeAnchor) };
+};
+
+/**
+ * Converts one Two.js object (a shape or a nested group) into plain JSON.
+ * `include` lets the caller skip helper objects that are not part of the drawing.
+ */
+export const serializeNode = (object: any, include: (child: any) => boolean = () => true): SerializedNode | null => {
+    // Text objects are groups too, but their pieces are rebuilt from the words and style
+    if (isTextObject(object)) {
+        const text: SerializedText = {
+            ...serializeTransform(object),
+            ...object._textStyle,
+            kind: 'text',
+            value: object._textValue,
+            fill: serializePaint(object.fill),
+            stroke: serializePaint(object.stroke),
+            linewidth: object.linewidth,
+            ...serializeGradients(object),
+        };
+        return text;
+    }
+    if (isRasterObject(object)) {
+        const canvas = getRasterCanvas(object);
+        const raster: SerializedRaster = {
+            ...serializeTransform(object),
+            kind: 'raster',
+            width: canvas.width,
+            height: canvas.height,
+            src: rasterToDataUrl(object),
+        };
+        return raster;
+    }
+    if (isImageObject(object)) {
+        const image: SerializedImage = {
+            ...serializeTransform(object),
+            ...getImageSize(object),
+            kind: 'image',
+            asset: getImageAssetId(object),
+            blendMode: getImageBlendMode(object),
+        };
+        return image;
+    }
+    if (object instanceof Two.Group) {
+        const group: SerializedGroup = {
+            ...serializeTransform(object),
+            kind: 'group',
+            children: object.children
+                .filter(include)
+                .map((child: any) => serializeNode(child, include))
+                .filter((node: SerializedNode | null): node is SerializedNode => node !== null),
+            ...serializeGradients(object),
+        };
+        return group;
+    }
+    if (object instanceof Two.Path) return serializeShape(object);
+    return null;
+};
+
+// --- JSON -> Scene ---
+
+const deserializeAnchor = (a: SerializedAnchor) => {
+    const anchor = new Two.Anchor(a.x, a.y, a.left.x, a.left.y, a.right.x, a.right.y, a.command as any);
+    anchor.relative = a.relative;
+    return anchor;
+};
+
+const applyTransform = (object: any, node: SerializedNode) => {
+    object.translation.set(node.translation.x, node.translation.y);
+    object.rotation = node.rotation;
+    object.scale = typeof node.scale === 'number' ? node.scale : new Two.Vector(node.scale.x, node.scale.y);
+    object.skewX = node.skewX ?? 0;
+    object.skewY = node.skewY ?? 0;
+    object.opacity = node.opacity;
+};
+
+// Groups have no colour of their own to fall back to, their members keep theirs
+const applyGradients = (object: any, node: SerializedShape | SerializedText | SerializedGroup) => {
+    if (node.fillGradient) applyGradient(object, 'fill', node.fillGradient, 'fill' in node ? node.fill : 'transparent');
+    if (node.strokeGradient) applyGradient(object, 'stroke', node.strokeGradient, 'stroke' in node ? node.stroke : 'transparent');
+};
+
+const deserializeShape = (node: SerializedShape): any => {
+    let shape: any;
+    switch (node.kind) {
+        case 'rounded-rectangle':
+            shape = new Two.RoundedRectangle(0, 0, node.width, node.height, node.radius);
+            shape._isRoundedRect = true;
+            shape._cornerRadius = node.cornerRadius;
+            break;
+        case 'rectangle': shape = new Two.Rectangle(0, 0, node.width, node.height); break;
+        case 'ellipse': shape = new Two.Ellipse(0, 0, node.width / 2, node.height / 2); break;
+        case 'star': shape = new Two.Star(0, 0, node.outerRadius, node.innerRadius, node.sides); break;
+        case 'polygon': shape = new Two.Polygon(0, 0, node.radius, node.sides); break;
+        case 'line': {
+            const [a, b] = node.vertices || [];
+            shape = new Two.Line(a?.x || 0, a?.y || 0, b?.x || 0, b?.y || 0);
+            break;
+        }
+        default:
+            shape = new Two.Path((node.vertices || []).map(deserializeAnchor), node.closed, node.curved, !node.automatic);
+    }
+
+    applyTransform(shape, node);
+    shape.fill = node.fill;
+    shape.stroke = node.stroke;
+    shape.linewidth = node.linewidth;
+    shape.cap = node.cap;
+    shape.join = node.join;
+    shape.miter = node.miter;
+    shape.dashes = [...node.dashes];
+    if (node.kind === 'path') shape.closed = node.closed;
+    if (node.variableStroke) shape._variableStroke = node.variableStroke;
+    applyGradients(shape, node);
+    return shape;
+};
+
+/**
+ * Rebuilds a live Two.js object from its JSON form.
+ * Painted pixels and photos decode in the background; `onRasterLoad` is called whenever some have arrived.
+ */
+export const deserializeNode = (node: SerializedNode, onRasterLoad?: () => void): any => {
+    if (node.kind === 'group') {
+        const group = new Two.Group();
+        applyTransform(group, node);
+        node.children.forEach(child => group.add(deserializeNode(child, onRasterLoad)));
+        applyGradients(group, node); // After the members, the gradient is spread over them
+        return group;
+    }
+    if (node.kind === 'text') {
+        const { family, size, weight, letterSpacing, lineHeight, align } = node;
+        const text = createTextObject(node.value, { family, size, weight, letterSpacing, lineHeight, align }, { fill: node.fill, stroke: node.stroke, linewidth: node.linewidth });
+        applyTransform(text, node);
+        applyGradients(text, node);
+        return text;
+    }
+    if (node.kind === 'raster') {
+        const raster = createRasterObject(node.width, node.height);
+        applyTransform(raster, node);
+        if (node.src) loadRasterImage(raster, node.src, onRasterLoad);
+        return raster;
+    }
+    if (node.kind === 'image') {
+        const image = createImageObject(node.asset, node, onRasterLoad);
+        applyTransform(image, node);
+        setImageBlendMode(image, node.blendMode ?? 'source-over');
+        return image;
+    }
+    return deserializeShape(node);
+};
+
+/**
+ * The files of every photo placed in these nodes, for saving or copying them along with the nodes.
+ */
+export const collectImageAssets = (nodes: SerializedNode[]): ImageAssets => {
+    const assets: ImageAssets = {};
+    const visit = (node: SerializedNode) => {
+        if (node.kind === 'group') node.children.forEach(visit);
+        if (node.kind !== 'image' || assets[node.asset]) return;
+        const src = getImageAsset(node.asset);
+        if (src) assets[node.asset] = src;
+    };
+    nodes.forEach(visit);
+    return assets;
+};
+
+// --- Whole Documents ---
+
+// Thumbnails are cheap to regenerate and would bloat the file, so they are left out.
+const stripThumbnails = (layers: Layer[]): Layer[] =>
+    layers.map(({ thumbnail, ...layer }) => ({ ...layer, children: stripThumbnails(layer.children) }));
+
+// Selection values describe whatever was picked at save time, they are not real settings.
+const stripSelection = (settings: ToolSettings): ToolSettings => {
+    const {
+        selectionX, selectionY, selectionRotation, selectionScaleX, selectionScaleY, selectionSkewX, selectionSkewY,
+        selectionCount, selectionMixed, ...rest
+    } = settings;
+    return rest;
+};
+
+export const createDocument = (params: {
+    name: string;
+    canvas: CanvasSize;
+    toolSettings: ToolSettings;
+    layers: Layer[];
+    content: Record<string, SerializedNode[]>;
+    guides: Guide[];
+}): WhisperDocument => ({
+    format: DOCUMENT_FORMAT,
+    version: DOCUMENT_VERSION,
+    name: params.name,
+    savedAt: new Date().toISOString(),
+    canvas: params.canvas,
+    toolSettings: stripSelection(params.toolSettings),
+    layers: stripThumbnails(params.layers),
+    content: params.content,
+    guides: params.guides,
+    assets: collectImageAssets(Object.values(params.content).flat()),
+});
+
+export const createSnapshot = (layers: Layer[], content: Record<string, SerializedNode[]>, guides: Guide[], canvas: CanvasSize): DocumentSnapshot => ({
+    layers: stripThumbnails(layers),
+    content,
+    guides,
+    canvas,
+});
+
+/**
+ * Reads a `.whisper` file's text, checks it really is one of ours and
+ * upgrades it to the current version. Throws a readable error otherwise.
+ */
+export const parseDocument = (text: string): WhisperDocument => {
+    let raw: any;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error('This file is not valid JSON.');
+    }
+
+    if (!raw || raw.format !== DOCUMENT_FORMAT || typeof raw.version !== 'number') {
+        throw new Error('This file is not a Whisper document.');
+    }
+    if (raw.version > DOCUMENT_VERSION) {
+        throw new Error(`This document was saved by a newer version (v${raw.version}). Please update the app.`);
+    }
+
+    let doc = raw;
+    for (let v = doc.version; v < DOCUMENT_VERSION; v++) {
+        const migrate = MIGRATIONS[v];
+        if (!migrate) throw new Error(`Cannot upgrade document from version ${v}.`);
+        doc = { ...migrate(doc), version: v + 1 };
+    }
+
+    if (!Array.isArray(doc.layers) || typeof doc.content !== 'object' || doc.content === null) {
+        throw new Error('This document is damaged: layers or content are missing.');
+    }
+    // Guides are only helpers, a broken list is dropped rather than refusing the whole file
+    if (doc.guides !== undefined && !Array.isArray(doc.guides)) doc = { ...doc, guides: [] };
+    if (doc.assets !== undefined && (typeof doc.assets !== 'object' || doc.assets === null)) doc = { ...doc, assets: {} };
+    return doc as WhisperDocument;
+};
+
+export const downloadDocument = (doc: WhisperDocument, fileName: string) => {
+    const blob = new Blob([JSON.stringify(doc)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName}${DOCUMENT_EXTENSION}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
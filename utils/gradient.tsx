@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import Two from 'two.js';
+import { GradientPaint } from '../types/index.tsx';
+import { hexToRgba } from './color.tsx';
+
+/**
+ * 🌈 Gradient Paint
+ * A gradient is stored as a plain `GradientPaint` whose handles are fractions
+ * of the shape's own box, so the same paint fits a tiny circle or a huge
+ * rectangle. The shape keeps the plain paint (`_fillPaint`, `_strokePaint`)
+ * and gets a real Two.js gradient built from it, measured in its own space.
+ *
+ * Two.js' canvas renderer ignores stop opacity, so on screen the opacity is
+ * baked into an rgba colour. SVG export gets proper `stop-opacity` instead.
+ */
+
+export type PaintChannel = 'fill' | 'stroke';
+
+export interface LocalBounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const PAINT_KEYS: Record<PaintChannel, string> = { fill: '_fillPaint', stroke: '_strokePaint' };
+
+export const getPaint = (shape: any, channel: PaintChannel): GradientPaint | null => shape?.[PAINT_KEYS[channel]] ?? null;
+
+export const createDefaultGradient = (type: GradientPaint['type'], from: string, to: string): GradientPaint => ({
+    type,
+    stops: [{ offset: 0, color: from, opacity: 1 }, { offset: 1, color: to, opacity: 1 }],
+    from: type === 'linear' ? { x: 0, y: 0.5 } : { x: 0.5, y: 0.5 },
+    to: type === 'linear' ? { x: 1, y: 0.5 } : { x: 1, y: 0.5 },
+});
+
+/**
+ * The box a shape covers in its own space (before its position, rotation and scale).
+ */
+export const getLocalBounds = (shape: any): LocalBounds => {
+    if (shape._textBounds) return shape._textBounds;
+    if (typeof shape._update === 'function') shape._update(); // Primitives rebuild their points lazily
+    const vertices = shape.vertices;
+    if (vertices && vertices.length > 0) {
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+        for (let i = 0; i < vertices.length; i++) {
+            const v = vertices[i];
+            minX = Math.min(minX, v.x); minY = Math.min(minY, v.y);
+            maxX = Math.max(maxX, v.x); maxY = Math.max(maxY, v.y);
+        }
+        return { x: minX, y: minY, width: Math.max(maxX - minX, 1), height: Math.max(maxY - minY, 1) };
+    }
+    // A group covers its visible members, each measured where it sits inside the group
+    const boxes = (shape.children ?? []).filter((child: any) => child.visible).map((child: any) => child.getBoundingClientRect(true))
+        .filter((box: any) => [box.left, box.top, box.right, box.bottom].every(Number.isFinite));
+    if (boxes.length > 0) {
+        const minX = Math.min(...boxes.map((box: any) => box.left)), minY = Math.min(...boxes.map((box: any) => box.top));
+        const maxX = Math.max(...boxes.map((box: any) => box.right)), maxY = Math.max(...boxes.map((box: any) => box.bottom));
+        return { x: minX, y: minY, width: Math.max(maxX - minX, 1), height: Math.max(maxY - minY, 1) };
+    }
+    return { x: -0.5, y: -0.5, width: 1, height: 1 };
+};
+
+// The gradient with its ends at two points in the painted shape's space
+const gradientBetween = (paint: GradientPaint, from: { x: number, y: number }, to: { x: number, y: number }, forSvg: boolean) => {
+    const stops = [...paint.stops]
+        .sort((a, b) => a.offset - b.offset)
+        .map(stop => forSvg
+            ? new Two.Stop(stop.offset, stop.color, stop.opacity)
+            : new Two.Stop(stop.offset, hexToRgba(stop.color, stop.opacity), 1));
+
+    const gradient: any = paint.type === 'radial'
+        ? new Two.RadialGradient(from.x, from.y, Math.max(Math.hypot(to.x - from.x, to.y - from.y), 0.001), stops)
+        : new Two.LinearGradient(from.x, from.y, to.x, to.y, stops);
+    gradient.units = 'userSpaceOnUse';
+    return gradient;
+};
+
+/**
+ * Builds a Two.js gradient for a box. `offset` moves the gradient into the space of a
+ * child that is itself shifted inside the box (used for the pieces of a text object).
+ */
+export const createTwoGradient = (paint: GradientPaint, bounds: LocalBounds, options: { forSvg?: boolean, offset?: { x: number, y: number } } = {}) => {
+    const offset = options.offset ?? { x: 0, y: 0 };
+    const from = { x: bounds.x + paint.from.x * bounds.width - offset.x, y: bounds.y + paint.from.y * bounds.height - offset.y };
+    const to = { x: bounds.x + paint.to.x * bounds.width - offset.x, y: bounds.y + paint.to.y * bounds.height - offset.y };
+    return gradientBetween(paint, from, to, !!options.forSvg);
+};
+
+const paintPieces = (shape: any, channel: PaintChannel, paint: GradientPaint, bounds: LocalBounds, forSvg: boolean) => {
+    // Text objects are groups of pieces; each piece gets the same gradient, shifted by its own position
+    shape.children.forEach((piece: any) => {
+        piece[channel] = createTwoGradient(paint, bounds, { forSvg, offset: { x: piece.translation.x, y: piece.translation.y } });
+    });
+};
+
+// One gradient across a whole group: every member gets it moved into its own (moved, turned, scaled) space.
+// Members give up gradients of their own, like they give up their solid colour when the group is painted.
+const paintMembers = (group: any, channel: PaintChannel, paint: GradientPaint, bounds: LocalBounds, forSvg: boolean) => {
+    const visit = (node: any, from: { x: number, y: number }, to: { x: number, y: number }) => {
+        node._update?.();
+        const inverse = node.matrix.inverse();
+        if (!inverse) return; // Squashed flat, nothing to paint
+        const [fx, fy] = inverse.multiply(from.x, from.y, 1), [tx, ty] = inverse.multiply(to.x, to.y, 1);
+        node[PAINT_KEYS[channel]] = null;
+        if (node.children) node.children.forEach((child: any) => visit(child, { x: fx, y: fy }, { x: tx, y: ty }));
+        else node[channel] = gradientBetween(paint, { x: fx, y: fy }, { x: tx, y: ty }, forSvg);
+    };
+    const from = { x: bounds.x + paint.from.x * bounds.width, y: bounds.y + paint.from.y * bounds.height };
+    const to = { x: bounds.x + paint.to.x * bounds.width, y: bounds.y + paint.to.y * bounds.height };
+    group.children.forEach((child: any) => visit(child, from, to));
+};
+
+/**
+ * Gives a shape a gradient (or takes it away again, painting it `solid` instead).
+ */
+export const applyGradient = (shape: any, channel: PaintChannel, paint: GradientPaint | null, solid: string) => {
+    if (!paint) {
+        shape[PAINT_KEYS[channel]] = null;
+        shape[channel] = solid;
+        return;
+    }
+    shape[PAINT_KEYS[channel]] = JSON.parse(JSON.stringify(paint));
+    const bounds = getLocalBounds(shape);
+    if (shape._isText) paintPieces(shape, channel, paint, bounds, false);
+    else if (shape instanceof Two.Group) paintMembers(shape, channel, paint, bounds, false);
+    else shape[channel] = createTwoGradient(paint, bounds);
+};
+
+/**
+ * Carries a shape's gradients over to a shape made from it (outlines, flattened or merged paths).
+ */
+export const copyPaints = (source: any, target: any) => {
+    (['fill', 'stroke'] as PaintChannel[]).forEach(channel => {
+        const paint = getPaint(source, channel);
+        if (paint) applyGradient(target, channel, paint, 'transparent');
+    });
+};
+
+/**
+ * Fits a shape's gradients to its current outline again after its points or size changed.
+ */
+export const refreshGradients = (shape: any) => copyPaints(shape, shape);
+
+/**
+ * A CSS version of the gradient running left to right, used for previews in the Inspector.
+ */
+export const gradientToCss = (paint: GradientPaint): string => {
+    const stops = [...paint.stops]
+        .sort((a, b) => a.offset - b.offset)
+        .map(stop => `${hexToRgba(stop.color, stop.opacity)} ${Math.round(stop.offset * 100)}%`);
+    return `linear-gradient(to right, ${stops.join(', ')})`;
+};
+
+/**
+ * Two.js' own `clone()` only copies the gradient objects made for the screen, so this walks
+ * the original and its clone side by side and gives the clone fresh gradients made for SVG.
+ */
+export const copyPaintsForExport = (source: any, clone: any) => {
+    if (!source || !clone) return;
+    (['fill', 'stroke'] as PaintChannel[]).forEach(channel => {
+        const paint = getPaint(source, channel);
+        if (!paint) return;
+        const bounds = getLocalBounds(source);
+        if (source._isText) paintPieces(clone, channel, paint, bounds, true);
+        else if (source instanceof Two.Group) paintMembers(clone, channel, paint, bounds, true);
+        else clone[channel] = createTwoGradient(paint, bounds, { forSvg: true });
+    });
+    if (source._isText || !source.children || !clone.children) return;
+    for (let i = 0; i < source.children.length && i < clone.children.length; i++) {
+        copyPaintsForExport(source.children[i], clone.children[i]);
+    }
+};
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * ⏪ History Stack
+ * Remembers a list of "photos" (snapshots) of the document so we can step
+ * backwards (undo) and forwards (redo). Snapshots are stored as JSON strings,
+ * which makes them immutable and lets us measure how much memory they use.
+ */
+
+export interface HistoryEntry {
+    label: string;
+    snapshot: string;
+    bytes: number;
+    coalesceKey?: string;
+    time: number;
+}
+
+export interface HistoryOptions {
+    // Total memory (in bytes) the undo list may use before the oldest steps are forgotten.
+    maxBytes?: number;
+    // Hard cap on the number of undo steps, whatever their size.
+    maxEntries?: number;
+    // Two commits with the same coalesce key closer together than this become one step.
+    coalesceWindowMs?: number;
+}
+
+// JS strings are UTF-16, so every character costs two bytes.
+const measure = (snapshot: string) => snapshot.length * 2;
+
+export class HistoryStack {
+    private past: HistoryEntry[] = [];
+    private future: HistoryEntry[] = [];
+    private present: HistoryEntry | null = null;
+    private readonly maxBytes: number;
+    private readonly maxEntries: number;
+    private readonly coalesceWindowMs: number;
+
+    constructor(options: HistoryOptions = {}) {
+        this.maxBytes = options.maxBytes ?? 64 * 1024 * 1024;
+        this.maxEntries = options.maxEntries ?? 200;
+        this.coalesceWindowMs = options.coalesceWindowMs ?? 1000;
+    }
+
+    get hasStartingPoint() { return this.present !== null; }
+    get canUndo() { return this.past.length > 0; }
+    get canRedo() { return this.future.length > 0; }
+    get undoLabel() { return this.present && this.canUndo ? this.present.label : null; }
+    get redoLabel() { return this.future.length > 0 ? this.future[this.future.length - 1].label : null; }
+
+    get usedBytes() {
+        const sum = (entries: HistoryEntry[]) => entries.reduce((total, e) => total + e.bytes, 0);
+        return sum(this.past) + sum(this.future) + (this.present?.bytes ?? 0);
+    }
+
+    /**
+     * Forget everything. The next `record` becomes the new starting point.
+     */
+    clear() {
+        this.past = [];
+        this.future = [];
+        this.present = null;
+    }
+
+    /**
+     * Adds a new step. Returns false when nothing was recorded because the
+     * document looks exactly the same as it did after the last step.
+     */
+    record(label: string, snapshot: string, coalesceKey?: string): boolean {
+        const now = Date.now();
+        const entry: HistoryEntry = { label, snapshot, bytes: measure(snapshot), coalesceKey, time: now };
+
+        // The very first snapshot is the starting point, there is nothing to undo to yet.
+        if (!this.present) {
+            this.present = entry;
+            return true;
+        }
+        if (this.present.snapshot === snapshot) return false;
+
+        const canCoalesce = coalesceKey !== undefined
+            && this.present.coalesceKey === coalesceKey
+            && this.past.length > 0
+            && this.future.length === 0
+            && now - this.present.time < this.coalesceWindowMs;
+
+        if (canCoalesce) {
+            // Keep sliding the same step forward instead of adding a new one (e.g. while a slider is dragged).
+            this.present = { ...entry, label: this.present.label };
+        } else {
+            this.past.push(this.present);
+            this.present = entry;
+        }
+
+        this.future = [];
+        this.enforceBudget();
+        return true;
+    }
+
+    undo(): string | null {
+        if (!this.present || this.past.length === 0) return null;
+        this.future.push(this.present);
+        this.present = this.past.pop()!;
+        // A step that was undone must never swallow the next edit.
+        this.present = { ...this.present, coalesceKey: undefined };
+        return this.present.snapshot;
+    }
+
+    redo(): string | null {
+        if (!this.present || this.future.length === 0) return null;
+        this.past.push(this.present);
+        this.present = { ...this.future.pop()!, coalesceKey: undefined };
+        return this.present.snapshot;
+    }
+
+    // Forget the oldest undo steps until we fit in the budget. The current state is always kept.
+    private enforceBudget() {
+        while (this.past.length > this.maxEntries) this.past.shift();
+        while (this.past.length > 0 && this.usedBytes > this.maxBytes) this.past.shift();
+    }
+}
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import Two from 'two.js';
+import { BlendMode, ImageAssets, ImageSource } from '../types/index.tsx';
+
+/**
+ * 📷 Placed Images
+ * A photo (PNG, JPEG or WebP) placed inside a layer, to trace over or to
+ * use as texture. Like a paint layer's pixels it is a rectangle filled with
+ * a canvas texture, but it is an object like any shape: it can be moved,
+ * scaled and turned with the selection handles, faded and blended.
+ *
+ * Its pixels never change, so copies share them. The original file is kept
+ * as a data URL, so saving and SVG export never re-encode the photo. It is
+ * kept only once, in the image table below: objects, saved documents and
+ * undo steps just hold its name.
+ */
+
+export const IMAGE_FILE_TYPES = 'image/png,image/jpeg,image/webp';
+
+export const isImageFile = (file: Blob): boolean => IMAGE_FILE_TYPES.split(',').includes(file.type);
+
+export const isImageObject = (object: any): boolean => !!object && object._isImage === true;
+
+/**
+ * Reads a picked, dropped or pasted image file. Throws when the browser can't decode it.
+ */
+export const readImageFile = async (file: Blob): Promise<ImageSource> => {
+    const src = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+    const picture = new Image();
+    picture.src = src;
+    await picture.decode();
+    return { src, width: picture.naturalWidth, height: picture.naturalHeight };
+};
+
+// --- Image Table ---
+
+const assets = new Map<string, string>();
+
+// A name made from the file's contents (a cyrb53 hash plus its length), so the same photo always gets the same name
+const nameFor = (src: string): string => {
+    let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+    for (let i = 0; i < src.length; i++) {
+        const ch = src.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return `image-${(4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)}-${src.length.toString(36)}`;
+};
+
+/**
+ * Puts a photo's file in the table and returns its name. Adding the same photo twice stores it once.
+ */
+export const addImageAsset = (src: string): string => {
+    const id = nameFor(src);
+    if (!assets.has(id)) assets.set(id, src);
+    return id;
+};
+
+export const getImageAsset = (id: string): string | undefined => assets.get(id);
+
+// Photos that came with an opened document or a pasted clipboard
+export const addImageAssets = (table: ImageAssets) => {
+    Object.entries(table).forEach(([id, src]) => {
+        if (typeof src === 'string' && !assets.has(id)) assets.set(id, src);
+    });
+};
+
+// --- Image Objects ---
+
+// Two.js draws no blend modes, so the canvas is switched just before the image is drawn and back right after.
+// The layer group around the image has just handed its context over.
+const attachBlendHooks = (image: any) => {
+    const context = (): CanvasRenderingContext2D | undefined => image.parent?._renderer?.context?.ctx;
+    image._renderer.onBeforeRender = () => {
+        const ctx = context();
+        if (!ctx) return; // The SVG renderer calls these too
+        image._previousBlend = ctx.globalCompositeOperation;
+        ctx.globalCompositeOperation = image._blendMode;
+    };
+    image._renderer.onAfterRender = () => {
+        const ctx = context();
+        if (ctx && image._previousBlend) ctx.globalCompositeOperation = image._previousBlend;
+    };
+};
+
+const buildImage = (canvas: HTMLCanvasElement, texture: any, asset: string) => {
+    const image: any = new Two.Rectangle(0, 0, canvas.width, canvas.height);
+    image.fill = texture;
+    image.noStroke();
+    image._isImage = true;
+    image._asset = asset;
+    image._canvas = canvas;
+    image._texture = texture;
+    image._blendMode = 'source-over';
+    attachBlendHooks(image);
+    return image;
+};
+
+/**
+ * An image object showing the photo named `asset` at its own pixel size, centred on 0,0. Photos
+ * decode in the background, so `onLoad` fires once the pixels are really there.
+ */
+export const createImageObject = (asset: string, size: { width: number, height: number }, onLoad?: () => void) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(size.width));
+    canvas.height = Math.max(1, Math.round(size.height));
+    const texture: any = new Two.Texture(canvas);
+    const image = buildImage(canvas, texture, asset);
+    const src = getImageAsset(asset);
+    if (!src) return image; // A damaged file lost the photo, it stays an empty frame
+
+    const picture = new Image();
+    picture.onload = () => {
+        canvas.getContext('2d')?.drawImage(picture, 0, 0, canvas.width, canvas.height);
+        texture.loaded = true;
+        if (onLoad) onLoad();
+    };
+    picture.src = src;
+    return image;
+};
+
+export const getImageAssetId = (image: any): string => image._asset;
+
+export const getImageSize = (image: any) => ({ width: image._canvas.width, height: image._canvas.height });
+
+export const getImageBlendMode = (image: any): BlendMode => image._blendMode;
+
+export const setImageBlendMode = (image: any, mode: BlendMode) => { image._blendMode = mode; };
+
+// A plain clone() would lose the photo and its blend mode
+export const cloneImage = (image: any) => {
+    const copy = buildImage(image._canvas, image._texture, image._asset);
+    copy.translation.copy(image.translation);
+    copy.rotation = image.rotation;
+    copy.scale = typeof image.scale === 'number' ? image.scale : image.scale.clone();
+    copy.skewX = image.skewX;
+    copy.skewY = image.skewY;
+    copy.opacity = image.opacity;
+    copy.visible = image.visible;
+    copy._blendMode = image._blendMode;
+    return copy;
+};
+
+// --- SVG Export ---
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// CSS calls 'source-over' 'normal', and has nothing that erases like 'destination-out'
+const toCssBlend = (mode: BlendMode): string | null => (mode === 'source-over' || mode === 'destination-out' ? null : mode);
+
+/**
+ * Two.js would write an image as a rectangle with a patterned fill. Call this on a copy made for SVG
+ * export before it is rendered, and run what it returns afterwards: every image becomes a real
+ * <image> tag holding the original file, blend mode included.
+ */
+export const embedImagesForSvg = (source: any, clone: any): (() => void) => {
+    const pairs: { image: any, copy: any }[] = [];
+    const visit = (from: any, to: any) => {
+        if (!from || !to) return;
+        if (isImageObject(from)) {
+            to.noFill(); // The <image> tag carries the pixels, so no pattern in <defs>
+            pairs.push({ image: from, copy: to });
+            return;
+        }
+        if (!from.children || !to.children) return;
+        for (let i = 0; i < from.children.length && i < to.children.length; i++) visit(from.children[i], to.children[i]);
+    };
+    visit(source, clone);
+
+    return () => pairs.forEach(({ image, copy }) => {
+        const elem: Element | undefined = copy._renderer.elem;
+        const href = getImageAsset(image._asset);
+        if (!elem?.parentNode || !href) return; // Fully see-through objects aren't written at all
+        const { width, height } = image._canvas;
+        const tag = document.createElementNS(SVG_NS, 'image');
+        tag.setAttribute('href', href);
+        tag.setAttribute('x', String(-width / 2));
+        tag.setAttribute('y', String(-height / 2));
+        tag.setAttribute('width', String(width));
+        tag.setAttribute('height', String(height));
+        tag.setAttribute('preserveAspectRatio', 'none');
+        ['transform', 'visibility'].forEach(name => {
+            const value = elem.getAttribute(name);
+            if (value !== null) tag.setAttribute(name, value);
+        });
+        if (image.opacity < 1) tag.setAttribute('opacity', String(image.opacity));
+        const blend = toCssBlend(image._blendMode);
+        if (blend) tag.setAttribute('style', `mix-blend-mode: ${blend}`);
+        elem.parentNode.replaceChild(tag, elem);
+    });
+};
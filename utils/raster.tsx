@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import Two from 'two.js';
+
+/**
+ * 🖼️ Raster Surfaces
+ * A paint layer keeps its pixels on a hidden canvas the size of the artboard.
+ * On the stage that canvas is shown as a rectangle filled with it (a Two.js
+ * texture), sitting inside the layer's group. So a paint layer stacks, fades
+ * and blends exactly like the vector layers around it.
+ *
+ * Pixel (0, 0) is the artboard's top-left corner, which is (-width / 2,
+ * -height / 2) in the layer's own space.
+ */
+
+export const isRasterObject = (object: any): boolean => !!object && object._isRaster === true;
+
+export const createRasterObject = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(height));
+    const texture: any = new Two.Texture(canvas);
+    const raster: any = new Two.Rectangle(0, 0, canvas.width, canvas.height);
+    raster.fill = texture;
+    raster.noStroke();
+    raster._isRaster = true;
+    raster._canvas = canvas;
+    raster._texture = texture;
+    raster._dataUrl = null; // Cached PNG, so saving an untouched layer costs nothing
+    return raster;
+};
+
+export const getRasterCanvas = (raster: any): HTMLCanvasElement => raster._canvas;
+
+export const getRasterContext = (raster: any): CanvasRenderingContext2D | null => raster._canvas.getContext('2d');
+
+// Layer space -> canvas pixels
+export const toRasterPixel = (raster: any, x: number, y: number) => ({
+    x: x + raster._canvas.width / 2,
+    y: y + raster._canvas.height / 2,
+});
+
+/**
+ * Call after painting. The texture is told to pick up the new pixels on the next frame.
+ */
+export const markRasterChanged = (raster: any) => {
+    raster._dataUrl = null;
+    raster._texture.loaded = true;
+};
+
+export const rasterToDataUrl = (raster: any): string => {
+    if (!raster._dataUrl) raster._dataUrl = raster._canvas.toDataURL('image/png');
+    return raster._dataUrl;
+};
+
+/**
+ * Paints a saved PNG back onto the canvas. Images decode in the background,
+ * so `onLoad` fires once the pixels are really there.
+ */
+export const loadRasterImage = (raster: any, src: string, onLoad?: () => void) => {
+    raster._dataUrl = src;
+    const image = new Image();
+    image.onload = () => {
+        const ctx = getRasterContext(raster);
+        if (!ctx) return;
+        ctx.clearRect(0, 0, raster._canvas.width, raster._canvas.height);
+        ctx.drawImage(image, 0, 0);
+        raster._texture.loaded = true;
+        if (onLoad) onLoad();
+    };
+    image.src = src;
+};
+
+export const cloneRaster = (raster: any) => {
+    const copy = createRasterObject(raster._canvas.width, raster._canvas.height);
+    getRasterContext(copy)?.drawImage(raster._canvas, 0, 0);
+    copy.translation.copy(raster.translation);
+    copy.opacity = raster.opacity;
+    copy._dataUrl = raster._dataUrl;
+    return copy;
+};
+
+/**
+ * Gives the surface a new pixel size when the artboard changes. The old pixels stay centred.
+ */
+export const resizeRaster = (raster: any, width: number, height: number) => {
+    const w = Math.max(1, Math.round(width)), h = Math.max(1, Math.round(height));
+    const old: HTMLCanvasElement = raster._canvas;
+    if (old.width === w && old.height === h) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = w; canvas.height = h;
+    canvas.getContext('2d')?.drawImage(old, Math.round((w - old.width) / 2), Math.round((h - old.height) / 2));
+    raster._canvas = canvas;
+    raster._texture.image = canvas;
+    raster._dataUrl = null;
+    raster.width = w;
+    raster.height = h;
+};
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Keymap, CommandId } from '../types/index.tsx';
+import { COMMANDS } from './commands.tsx';
+
+/**
+ * 🎹 Shortcuts
+ * Which keys run which command. The commands themselves, and the keys they
+ * start with, are listed in `commands.tsx`.
+ *
+ * A key press is written down as a "binding" like `Ctrl+Shift+Z`, always in
+ * the order Ctrl, Alt, Shift, key. Letters and digits are read from the key's
+ * place on the keyboard, so Shift+1 stays "Shift+1" instead of "!".
+ *
+ * People can change the keys. Only the changes are kept in the browser's
+ * local storage, so new shortcuts added later still get their default keys.
+ */
+
+const STORAGE_KEY = 'whisper-draw-keymap';
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift', 'CapsLock', 'Dead']);
+
+export const DEFAULT_KEYMAP = Object.fromEntries(COMMANDS.map(command => [command.id, command.defaults])) as Keymap;
+
+type KeyPress = Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>;
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+/**
+ * The binding for a key press, or null while only modifiers are held.
+ */
+export const eventToBinding = (e: KeyPress): string | null => {
+    if (MODIFIER_KEYS.has(e.key)) return null;
+    const key = e.code.startsWith('Key') ? e.code.slice(3)
+        : e.code.startsWith('Digit') ? e.code.slice(5)
+        : e.key === ' ' ? 'Space'
+        : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+    return [e.ctrlKey || e.metaKey ? 'Ctrl' : '', e.altKey ? 'Alt' : '', e.shiftKey ? 'Shift' : '', key].filter(Boolean).join('+');
+};
+
+// How a binding is shown: Mac keyboards say Cmd and Option, arrows get arrows
+export const formatBinding = (binding: string) => binding.split('+').map(part => {
+    if (part === 'Ctrl') return isMac ? '⌘' : 'Ctrl';
+    if (part === 'Alt') return isMac ? '⌥' : 'Alt';
+    if (part.startsWith('Arrow')) return ({ ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' } as Record<string, string>)[part] ?? part;
+    if (part === 'Escape') return 'Esc';
+    return part;
+}).join(isMac ? '' : '+');
+
+// Shortcuts shouldn't fire while someone is typing in a field
+export const isTypingTarget = (target: EventTarget | null) => {
+    const element = target as HTMLElement | null;
+    return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.tagName === 'SELECT' || element.isContentEditable);
+};
+
+/**
+ * Bindings used by more than one command, with the commands sharing them.
+ */
+export const findConflicts = (keymap: Keymap): Map<string, CommandId[]> => {
+    const users = new Map<string, CommandId[]>();
+    COMMANDS.forEach(({ id }) => keymap[id].forEach(binding => users.set(binding, [...(users.get(binding) ?? []), id])));
+    return new Map([...users].filter(([, ids]) => ids.length > 1));
+};
+
+/**
+ * Binding -> command, for the keys that can run something. A binding two commands share runs
+ * neither until the conflict is fixed, so a key never does something unexpected.
+ */
+export const buildBindingLookup = (keymap: Keymap): Map<string, CommandId> => {
+    const conflicts = findConflicts(keymap);
+    const lookup = new Map<string, CommandId>();
+    COMMANDS.forEach(({ id }) => keymap[id].forEach(binding => { if (!conflicts.has(binding)) lookup.set(binding, id); }));
+    return lookup;
+};
+
+export const isDefaultBinding = (keymap: Keymap, id: CommandId) =>
+    JSON.stringify(keymap[id]) === JSON.stringify(DEFAULT_KEYMAP[id]);
+
+/**
+ * The defaults with the saved changes on top. Anything unreadable is ignored.
+ */
+export const loadKeymap = (): Keymap => {
+    const keymap = { ...DEFAULT_KEYMAP };
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+        COMMANDS.forEach(({ id }) => {
+            const bindings = saved?.[id];
+            if (Array.isArray(bindings) && bindings.every(binding => typeof binding === 'string')) keymap[id] = bindings;
+        });
+    } catch {
+        // Unreadable, so the defaults stay
+    }
+    return keymap;
+};
+
+export const saveKeymap = (keymap: Keymap) => {
+    const changes = Object.fromEntries(COMMANDS.filter(({ id }) => !isDefaultBinding(keymap, id)).map(({ id }) => [id, keymap[id]]));
+    try {
+        if (Object.keys(changes).length === 0) localStorage.removeItem(STORAGE_KEY);
+        else localStorage.setItem(STORAGE_KEY, JSON.stringify(changes));
+    } catch {
+        // Storage is full or blocked: the changes last until the page is closed
+    }
+};
@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Box } from './spatial.tsx';
+
+/**
+ * 🧲 Snapping
+ * While something is dragged, it is pulled onto nearby "targets" once it gets
+ * within a few screen pixels of them:
+ *
+ * -   the edges and centres of other shapes' boxes (and of the artboard),
+ * -   exact points, like the anchors of other paths,
+ * -   guide lines dragged out of the rulers,
+ * -   the grid,
+ * -   equal spacing: a shape dropped between two others, or next to one,
+ *     settles where the gaps match the gaps already in the row.
+ *
+ * Everything here works on plain boxes and points in one space (the engine
+ * uses scene space). It only says how far to move and which guides to draw;
+ * actually moving things is up to the caller.
+ */
+
+export interface SnapPoint {
+    x: number;
+    y: number;
+}
+
+export interface SnapGrid {
+    size: number;
+    // Where grid lines cross, usually the artboard's top-left corner
+    originX: number;
+    originY: number;
+}
+
+// An endless line, like a ruler guide: `value` is an x for the 'x' axis, a y for the 'y' axis
+export interface SnapLine {
+    axis: 'x' | 'y';
+    value: number;
+}
+
+export interface SnapTargets {
+    boxes: Box[];
+    points: SnapPoint[];
+    lines: SnapLine[];
+    grid: SnapGrid | null;
+}
+
+export interface SnapGuide {
+    kind: 'align' | 'spacing';
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+}
+
+export interface SnapResult {
+    dx: number;
+    dy: number;
+    guides: SnapGuide[];
+}
+
+type Axis = 'x' | 'y';
+
+const EPSILON = 0.5; // Values closer than this count as lined up
+
+// Per axis: the near edge, the middle and the far edge of a box
+const edgesOf = (box: Box, axis: Axis) => axis === 'x'
+    ? [box.left, (box.left + box.right) / 2, box.right]
+    : [box.top, (box.top + box.bottom) / 2, box.bottom];
+
+const moveBox = (box: Box, dx: number, dy: number): Box =>
+    ({ left: box.left + dx, top: box.top + dy, right: box.right + dx, bottom: box.bottom + dy });
+
+// The start, end and size of a box along an axis, and along the other one
+const span = (box: Box, axis: Axis) => axis === 'x'
+    ? { start: box.left, end: box.right, crossStart: box.top, crossEnd: box.bottom }
+    : { start: box.top, end: box.bottom, crossStart: box.left, crossEnd: box.right };
+
+interface AxisSnap {
+    offset: number;
+    distance: number;
+    spacing: number | null; // The gap matched, when the snap came from equal spacing
+}
+
+/**
+ * The closest edge, centre or point line within `threshold` of one of the box's own edges or centre.
+ */
+const alignAxis = (box: Box, targets: SnapTargets, axis: Axis, threshold: number): AxisSnap | null => {
+    const sources = edgesOf(box, axis);
+    let best: AxisSnap | null = null;
+    const consider = (value: number) => sources.forEach(source => {
+        const distance = Math.abs(value - source);
+        if (distance <= threshold && (!best || distance < best.distance)) best = { offset: value - source, distance, spacing: null };
+    });
+    targets.boxes.forEach(target => edgesOf(target, axis).forEach(consider));
+    targets.points.forEach(point => consider(point[axis]));
+    targets.lines.forEach(line => { if (line.axis === axis) consider(line.value); });
+    return best;
+};
+
+/**
+ * The boxes beside the moving box along an axis: they overlap it across the axis, but not along it.
+ */
+const rowOf = (box: Box, boxes: Box[], axis: Axis) => {
+    const own = span(box, axis);
+    return boxes.filter(target => {
+        const other = span(target, axis);
+        const beside = other.crossStart <= own.crossEnd && other.crossEnd >= own.crossStart;
+        return beside && (other.end <= own.start || other.start >= own.end);
+    });
+};
+
+// Gaps between neighbouring boxes of a row that don't overlap along the axis
+const gapsIn = (row: Box[], axis: Axis) => {
+    const sorted = [...row].sort((a, b) => span(a, axis).start - span(b, axis).start);
+    const gaps: { before: Box, after: Box, size: number }[] = [];
+    for (let i = 1; i < sorted.length; i++) {
+        const size = span(sorted[i], axis).start - span(sorted[i - 1], axis).end;
+        if (size > 0) gaps.push({ before: sorted[i - 1], after: sorted[i], size });
+    }
+    return gaps;
+};
+
+/**
+ * Where the box would sit with equal gaps: centred between its two neighbours, or as far
+ * from one neighbour as two other shapes in the row already are from each other.
+ */
+const spaceAxis = (box: Box, boxes: Box[], axis: Axis, threshold: number): AxisSnap | null => {
+    const own = span(box, axis);
+    const size = own.end - own.start;
+    const row = rowOf(box, boxes, axis);
+    const before = row.filter(target => span(target, axis).end <= own.start)
+        .sort((a, b) => span(b, axis).end - span(a, axis).end)[0];
+    const after = row.filter(target => span(target, axis).start >= own.end)
+        .sort((a, b) => span(a, axis).start - span(b, axis).start)[0];
+
+    const options: { start: number, gap: number }[] = [];
+    if (before && after) {
+        const gap = (span(after, axis).start - span(before, axis).end - size) / 2;
+        if (gap > 0) options.push({ start: span(before, axis).end + gap, gap });
+    }
+    gapsIn(row, axis).forEach(({ size: gap }) => {
+        if (before) options.push({ start: span(before, axis).end + gap, gap });
+        if (after) options.push({ start: span(after, axis).start - gap - size, gap });
+    });
+
+    let best: AxisSnap | null = null;
+    options.forEach(({ start, gap }) => {
+        const distance = Math.abs(start - own.start);
+        if (distance <= threshold && (!best || distance < best.distance)) best = { offset: start - own.start, distance, spacing: gap };
+    });
+    return best;
+};
+
+// The grid line nearest to the box's near edge. The grid always wins when nothing else is in range.
+const gridAxis = (box: Box, grid: SnapGrid, axis: Axis): AxisSnap => {
+    const start = span(box, axis).start;
+    const origin = axis === 'x' ? grid.originX : grid.originY;
+    const snapped = origin + Math.round((start - origin) / grid.size) * grid.size;
+    return { offset: snapped - start, distance: Math.abs(snapped - start), spacing: null };
+};
+
+const snapAxis = (box: Box, targets: SnapTargets, axis: Axis, threshold: number, withSpacing: boolean): AxisSnap | null => {
+    const align = alignAxis(box, targets, axis, threshold);
+    const spacing = withSpacing ? spaceAxis(box, targets.boxes, axis, threshold) : null;
+    if (align && (!spacing || align.distance <= spacing.distance)) return align;
+    if (spacing) return spacing;
+    return targets.grid && targets.grid.size > 0 ? gridAxis(box, targets.grid, axis) : null;
+};
+
+/**
+ * Lines showing what the (already moved) box lines up with: one per shared edge or centre,
+ * running from the box to the farthest target on it. Guide lines show themselves already.
+ */
+const alignGuides = (box: Box, targets: SnapTargets, axis: Axis): SnapGuide[] => {
+    const guides: SnapGuide[] = [];
+    // A point's edges and centre are the same value, it only gets one guide
+    [...new Set(edgesOf(box, axis))].forEach(value => {
+        const own = span(box, axis);
+        let from = own.crossStart, to = own.crossEnd, found = false;
+        targets.boxes.forEach(target => {
+            if (!edgesOf(target, axis).some(edge => Math.abs(edge - value) < EPSILON)) return;
+            const other = span(target, axis);
+            from = Math.min(from, other.crossStart); to = Math.max(to, other.crossEnd); found = true;
+        });
+        targets.points.forEach(point => {
+            if (Math.abs(point[axis] - value) >= EPSILON) return;
+            const cross = axis === 'x' ? point.y : point.x;
+            from = Math.min(from, cross); to = Math.max(to, cross); found = true;
+        });
+        if (!found) return;
+        guides.push(axis === 'x'
+            ? { kind: 'align', x1: value, y1: from, x2: value, y2: to }
+            : { kind: 'align', x1: from, y1: value, x2: to, y2: value });
+    });
+    return guides;
+};
+
+// One marker per gap of the matched size in the box's row, the box's own gaps included
+const spacingGuides = (box: Box, boxes: Box[], axis: Axis, gap: number): SnapGuide[] => {
+    const own = span(box, axis);
+    return gapsIn([box, ...rowOf(box, boxes, axis)], axis)
+        .filter(({ size }) => Math.abs(size - gap) < EPSILON)
+        .map(({ before, after }) => {
+            const a = span(before, axis), b = span(after, axis);
+            // Across the middle of where the two boxes overlap, or of the moving box if they don't
+            const overlapStart = Math.max(a.crossStart, b.crossStart), overlapEnd = Math.min(a.crossEnd, b.crossEnd);
+            const cross = overlapStart <= overlapEnd ? (overlapStart + overlapEnd) / 2 : (own.crossStart + own.crossEnd) / 2;
+            return axis === 'x'
+                ? { kind: 'spacing' as const, x1: a.end, y1: cross, x2: b.start, y2: cross }
+                : { kind: 'spacing' as const, x1: cross, y1: a.end, x2: cross, y2: b.start };
+        });
+};
+
+/**
+ * How far to move a dragged box so it snaps, and the guides to draw once it has.
+ */
+export const snapBox = (box: Box, targets: SnapTargets, threshold: number): SnapResult => {
+    const x = snapAxis(box, targets, 'x', threshold, true);
+    const y = snapAxis(box, targets, 'y', threshold, true);
+    const dx = x?.offset ?? 0, dy = y?.offset ?? 0;
+    const moved = moveBox(box, dx, dy);
+    const guides = [
+        ...alignGuides(moved, targets, 'x'),
+        ...alignGuides(moved, targets, 'y'),
+        ...(x?.spacing ? spacingGuides(moved, targets.boxes, 'x', x.spacing) : []),
+        ...(y?.spacing ? spacingGuides(moved, targets.boxes, 'y', y.spacing) : []),
+    ];
+    return { dx, dy, guides };
+};
+
+/**
+ * Snaps a single point (an anchor, a handle, a click): lined up with edges, centres and points,
+ * or onto the grid. When both axes line up with the same point, it lands exactly on it.
+ */
+export const snapPoint = (point: SnapPoint, targets: SnapTargets, threshold: number): SnapResult => {
+    const box = { left: point.x, top: point.y, right: point.x, bottom: point.y };
+    const x = snapAxis(box, targets, 'x', threshold, false);
+    const y = snapAxis(box, targets, 'y', threshold, false);
+    const dx = x?.offset ?? 0, dy = y?.offset ?? 0;
+    const moved = moveBox(box, dx, dy);
+    return { dx, dy, guides: [...alignGuides(moved, targets, 'x'), ...alignGuides(moved, targets, 'y')] };
+};
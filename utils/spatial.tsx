@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * 🗺️ Spatial Grid
+ * Finding "what is near this point" by checking every shape gets slow once a
+ * layer holds thousands of brush strokes. The grid chops the plane into equal
+ * square cells and files each item under every cell its box touches, so a
+ * lookup only has to look at the few items filed under the cells it covers.
+ *
+ * Very large items would be filed under hundreds of cells, so they go on a
+ * short "oversized" list that every lookup checks instead.
+ */
+
+export interface Box {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+const MAX_CELLS_PER_ITEM = 256;
+
+export const boxesOverlap = (a: Box, b: Box) => a.left <= b.right && a.right >= b.left && a.top <= b.bottom && a.bottom >= b.top;
+
+export class SpatialGrid<T> {
+    private cells = new Map<string, Set<T>>();
+    private boxes = new Map<T, Box>();
+    private oversized = new Set<T>();
+    private readonly cellSize: number;
+
+    constructor(cellSize = 256) {
+        this.cellSize = cellSize;
+    }
+
+    get size() { return this.boxes.size; }
+
+    private cellRange(box: Box) {
+        const s = this.cellSize;
+        return {
+            x0: Math.floor(box.left / s), x1: Math.floor(box.right / s),
+            y0: Math.floor(box.top / s), y1: Math.floor(box.bottom / s),
+        };
+    }
+
+    private forEachCell(box: Box, visit: (key: string) => void) {
+        const { x0, x1, y0, y1 } = this.cellRange(box);
+        for (let cx = x0; cx <= x1; cx++) {
+            for (let cy = y0; cy <= y1; cy++) visit(`${cx},${cy}`);
+        }
+    }
+
+    private isOversized(box: Box) {
+        const { x0, x1, y0, y1 } = this.cellRange(box);
+        return (x1 - x0 + 1) * (y1 - y0 + 1) > MAX_CELLS_PER_ITEM;
+    }
+
+    /**
+     * Files an item under its box. Inserting an item that is already filed moves it.
+     */
+    insert(item: T, box: Box) {
+        this.remove(item);
+        // Empty or broken boxes (NaN from a path with no points) can't be found anyway
+        if (![box.left, box.top, box.right, box.bottom].every(Number.isFinite)) return;
+        const stored = { left: box.left, top: box.top, right: box.right, bottom: box.bottom };
+        this.boxes.set(item, stored);
+        if (this.isOversized(stored)) { this.oversized.add(item); return; }
+        this.forEachCell(stored, key => {
+            let cell = this.cells.get(key);
+            if (!cell) { cell = new Set(); this.cells.set(key, cell); }
+            cell.add(item);
+        });
+    }
+
+    remove(item: T) {
+        const box = this.boxes.get(item);
+        if (!box) return;
+        this.boxes.delete(item);
+        if (this.oversized.delete(item)) return;
+        this.forEachCell(box, key => {
+            const cell = this.cells.get(key);
+            if (!cell) return;
+            cell.delete(item);
+            if (cell.size === 0) this.cells.delete(key);
+        });
+    }
+
+    getBox(item: T): Box | undefined {
+        return this.boxes.get(item);
+    }
+
+    /**
+     * Every item whose box overlaps `box`. The order is not meaningful.
+     */
+    query(box: Box): T[] {
+        const found = new Set<T>();
+        const consider = (item: T) => {
+            if (!found.has(item) && boxesOverlap(this.boxes.get(item)!, box)) found.add(item);
+        };
+        if (this.isOversized(box)) {
+            // A lookup bigger than the grid is cheaper as a plain scan
+            this.boxes.forEach((_, item) => consider(item));
+        } else {
+            this.forEachCell(box, key => this.cells.get(key)?.forEach(consider));
+            this.oversized.forEach(consider);
+        }
+        return [...found];
+    }
+
+    queryPoint(x: number, y: number, slack = 0): T[] {
+        return this.query({ left: x - slack, top: y - slack, right: x + slack, bottom: y + slack });
+    }
+
+    clear() {
+        this.cells.clear();
+        this.boxes.clear();
+        this.oversized.clear();
+    }
+}
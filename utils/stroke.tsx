@@ -0,0 +1,257 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import Two from 'two.js';
+import { BrushStabilizer, StrokeSample, VariableStroke } from '../types/index.tsx';
+import { refreshGradients } from './gradient.tsx';
+
+/**
+ * 🪢 Stroke Stabiliser
+ * Hands shake, so the vector brush doesn't follow the pointer directly.
+ * Each pointer position goes through a stabiliser first, and only the
+ * calmer position it gives back becomes a point of the stroke.
+ *
+ * -   `string`: the "lazy mouse". The pen hangs on a string behind the
+ *     pointer and is only pulled along once the string is tight.
+ * -   `average`: the pen sits at the average of the last few positions.
+ *
+ * `smoothing` (0 to 100) sets the string length or how many positions are
+ * averaged. At 0 (or with `off`) every position is used as it is.
+ */
+
+export interface StrokePoint {
+    x: number;
+    y: number;
+}
+
+export interface Stabilizer {
+    mode: BrushStabilizer;
+    smoothing: number;
+    pen: StrokePoint | null; // Where the stroke actually is
+    recent: StrokePoint[]; // Last raw positions, for the average
+}
+
+const STRING_LENGTH_PER_STEP = 0.5; // Smoothing 100 = a 50 px string
+const AVERAGE_STEP = 10; // Every 10 points of smoothing averages one more position
+
+export const createStabilizer = (mode: BrushStabilizer, smoothing: number): Stabilizer => ({
+    mode: smoothing > 0 ? mode : 'off',
+    smoothing,
+    pen: null,
+    recent: [],
+});
+
+const averageWindow = (stabilizer: Stabilizer) => 1 + Math.round(stabilizer.smoothing / AVERAGE_STEP);
+
+/**
+ * Feeds one pointer position in. Returns the next point of the stroke, or null when the pen didn't move.
+ */
+export const stabilize = (stabilizer: Stabilizer, point: StrokePoint): StrokePoint | null => {
+    const { pen } = stabilizer;
+    if (!pen || stabilizer.mode === 'off') {
+        stabilizer.pen = { ...point };
+        stabilizer.recent = [{ ...point }];
+        return { ...point };
+    }
+
+    if (stabilizer.mode === 'string') {
+        const length = stabilizer.smoothing * STRING_LENGTH_PER_STEP;
+        const dx = point.x - pen.x, dy = point.y - pen.y;
+        const distance = Math.hypot(dx, dy);
+        if (distance <= length) return null; // String still slack
+        const pull = (distance - length) / distance;
+        stabilizer.pen = { x: pen.x + dx * pull, y: pen.y + dy * pull };
+        return { ...stabilizer.pen };
+    }
+
+    stabilizer.recent.push({ ...point });
+    if (stabilizer.recent.length > averageWindow(stabilizer)) stabilizer.recent.shift();
+    const sum = stabilizer.recent.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+    stabilizer.pen = { x: sum.x / stabilizer.recent.length, y: sum.y / stabilizer.recent.length };
+    return { ...stabilizer.pen };
+};
+
+/**
+ * The average trails behind the pointer, so when the stroke ends it is walked
+ * the rest of the way to where the pointer was lifted. The string doesn't do
+ * this: the slack is what lets it ignore the little flick at the end of a stroke.
+ */
+export const settleStabilizer = (stabilizer: Stabilizer): StrokePoint[] => {
+    if (stabilizer.mode !== 'average' || stabilizer.recent.length < 2) return [];
+    const last = stabilizer.recent[stabilizer.recent.length - 1];
+    const points: StrokePoint[] = [];
+    while (stabilizer.recent.some(p => p.x !== last.x || p.y !== last.y)) {
+        const point = stabilize(stabilizer, last);
+        if (point) points.push(point);
+    }
+    return points;
+};
+
+/**
+ * 🖋️ Variable Width Strokes
+ * A variable-width stroke is drawn as a filled outline around its centreline.
+ * The centreline is kept on the shape (`_variableStroke`): every sample has a
+ * position and a `factor` (0 to 1) recorded from pen pressure or speed. The
+ * outline is rebuilt from it whenever the width profile changes, so the
+ * Inspector can still make a stroke thicker, flatter or more tapered later.
+ */
+
+const MIN_FACTOR = 0.05; // Even the lightest touch leaves a visible line
+const CAP_STEPS = 6; // Points in each round end cap
+
+export const isVariableStroke = (shape: any): boolean => !!shape && !!shape._variableStroke;
+
+const taperAt = (t: number, stroke: VariableStroke) => {
+    // Ease-out, so the tip is pointed but the taper doesn't look like a straight wedge
+    const ease = (v: number) => Math.sin(Math.min(1, Math.max(0, v)) * Math.PI / 2);
+    const start = stroke.taperStart > 0 ? ease(t / stroke.taperStart) : 1;
+    const end = stroke.taperEnd > 0 ? ease((1 - t) / stroke.taperEnd) : 1;
+    return Math.min(start, end);
+};
+
+// The width at one sample before any taper
+const widthAt = (stroke: VariableStroke, sample: StrokeSample) =>
+    stroke.width * (1 - stroke.variation + stroke.variation * Math.max(MIN_FACTOR, sample.factor));
+
+/**
+ * The width (px) at every sample, after variation and taper.
+ */
+export const sampleWidths = (stroke: VariableStroke): number[] => {
+    const { samples } = stroke;
+    const lengths = [0];
+    for (let i = 1; i < samples.length; i++) {
+        lengths.push(lengths[i - 1] + Math.hypot(samples[i].x - samples[i - 1].x, samples[i].y - samples[i - 1].y));
+    }
+    const total = lengths[lengths.length - 1] || 1;
+    return samples.map((sample, i) => widthAt(stroke, sample) * taperAt(lengths[i] / total, stroke));
+};
+
+// Direction at a sample, averaged from the segments on either side
+const directionAt = (samples: StrokeSample[], i: number): StrokePoint => {
+    const prev = samples[Math.max(0, i - 1)], next = samples[Math.min(samples.length - 1, i + 1)];
+    const dx = next.x - prev.x, dy = next.y - prev.y;
+    const length = Math.hypot(dx, dy) || 1;
+    return { x: dx / length, y: dy / length };
+};
+
+const sidesAt = (sample: StrokePoint, d: StrokePoint, r: number) => ({
+    left: { x: sample.x - d.y * r, y: sample.y + d.x * r },
+    right: { x: sample.x + d.y * r, y: sample.y - d.x * r },
+});
+
+// Half circle from one side to the other around `center`, facing along `d`
+const capAround = (center: StrokePoint, d: StrokePoint, r: number) => {
+    const points: StrokePoint[] = [];
+    const base = Math.atan2(d.x, -d.y); // Angle of the left side
+    for (let i = 1; i < CAP_STEPS; i++) {
+        const a = base - (i / CAP_STEPS) * Math.PI;
+        points.push({ x: center.x + Math.cos(a) * r, y: center.y + Math.sin(a) * r });
+    }
+    return points;
+};
+
+/**
+ * The outline polygon around the centreline: down the left side, round the end,
+ * back up the right side and round the start.
+ */
+export const outlineStroke = (stroke: VariableStroke): StrokePoint[] => {
+    const { samples } = stroke;
+    if (samples.length === 0) return [];
+    const widths = sampleWidths(stroke);
+
+    if (samples.length === 1) {
+        // A single dab is a circle
+        const r = widths[0] / 2, { x, y } = samples[0];
+        return Array.from({ length: CAP_STEPS * 2 }, (_, i) => {
+            const a = (i / (CAP_STEPS * 2)) * Math.PI * 2;
+            return { x: x + Math.cos(a) * r, y: y + Math.sin(a) * r };
+        });
+    }
+
+    const directions = samples.map((_, i) => directionAt(samples, i));
+    const left: StrokePoint[] = [], right: StrokePoint[] = [];
+    samples.forEach((sample, i) => {
+        const sides = sidesAt(sample, directions[i], widths[i] / 2);
+        left.push(sides.left);
+        right.push(sides.right);
+    });
+
+    const last = samples.length - 1;
+    return [
+        ...left,
+        ...capAround(samples[last], directions[last], widths[last] / 2),
+        ...right.reverse(),
+        ...capAround(samples[0], { x: -directions[0].x, y: -directions[0].y }, widths[0] / 2),
+    ];
+};
+
+/**
+ * Adds a sample to a stroke that is still being drawn. Rebuilding the whole outline each time would get
+ * slower the longer the line gets, so only its tip is redone. Taper needs the finished length, so it is
+ * left out until the outline is rebuilt with `applyVariableStroke` on release.
+ */
+export const growVariableStroke = (path: any, sample: StrokeSample) => {
+    const stroke: VariableStroke = path._variableStroke;
+    const { samples } = stroke;
+    samples.push(sample);
+    const count = samples.length;
+    if (count <= 2) {
+        path.vertices = outlineStroke({ ...stroke, taperStart: 0, taperEnd: 0 }).map(point => new Two.Anchor(point.x, point.y));
+        refreshGradients(path);
+        return;
+    }
+
+    // The old tip now has a neighbour on both sides, so its direction changes
+    const tip = count - 2;
+    const before = sidesAt(samples[tip], directionAt(samples, tip), widthAt(stroke, samples[tip]) / 2);
+    path.vertices[tip].set(before.left.x, before.left.y);
+    path.vertices[tip + CAP_STEPS].set(before.right.x, before.right.y);
+
+    // The end cap moves on to the new tip, with the new sample's sides on either side of it
+    const d = directionAt(samples, count - 1), r = widthAt(stroke, sample) / 2;
+    const sides = sidesAt(sample, d, r);
+    const added = [sides.left, ...capAround(sample, d, r), sides.right].map(point => new Two.Anchor(point.x, point.y));
+    path.vertices.splice(count - 1, CAP_STEPS - 1, ...added);
+    refreshGradients(path);
+};
+
+/**
+ * Fewer samples for a finished stroke: a sample is dropped when the line and its width both stay within
+ * `tolerance` px without it (Ramer-Douglas-Peucker). The ends are always kept.
+ */
+export const simplifySamples = (stroke: VariableStroke, tolerance: number): StrokeSample[] => {
+    const { samples } = stroke;
+    if (tolerance <= 0 || samples.length < 3) return samples;
+    const keep = new Array(samples.length).fill(false);
+    keep[0] = keep[samples.length - 1] = true;
+    const ranges: [number, number][] = [[0, samples.length - 1]];
+    while (ranges.length > 0) {
+        const [from, to] = ranges.pop()!;
+        const a = samples[from], b = samples[to];
+        const dx = b.x - a.x, dy = b.y - a.y, length = Math.hypot(dx, dy);
+        let worst = -1, worstError = tolerance;
+        for (let i = from + 1; i < to; i++) {
+            const p = samples[i];
+            const t = length > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / (length * length))) : 0;
+            const offset = Math.hypot(p.x - (a.x + dx * t), p.y - (a.y + dy * t));
+            // Each side of the outline moves by half the change in width
+            const widthError = Math.abs(widthAt(stroke, p) - (widthAt(stroke, a) * (1 - t) + widthAt(stroke, b) * t)) / 2;
+            const error = Math.max(offset, widthError);
+            if (error > worstError) { worst = i; worstError = error; }
+        }
+        if (worst < 0) continue;
+        keep[worst] = true;
+        ranges.push([from, worst], [worst, to]);
+    }
+    return samples.filter((_, i) => keep[i]);
+};
+
+/**
+ * Stores the stroke on its path and rebuilds the outline from it.
+ */
+export const applyVariableStroke = (path: any, stroke: VariableStroke) => {
+    path._variableStroke = stroke;
+    path.vertices = outlineStroke(stroke).map(point => new Two.Anchor(point.x, point.y));
+    refreshGradients(path);
+};
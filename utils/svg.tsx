@@ -0,0 +1,217 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import Two from 'two.js';
+import paper from 'paper';
+import { ClipboardLayers, GradientPaint, Layer, SerializedNode } from '../types/index.tsx';
+import { applyGradient, getLocalBounds, PaintChannel } from './gradient.tsx';
+import { serializeNode } from './document.tsx';
+
+/**
+ * 🖼️ SVG Reading
+ * Turns SVG made by other tools (Figma, Illustrator, icon packs...) into
+ * shapes we can edit with the Pen. Paper.js reads the file (basic shapes,
+ * paths, groups, transforms, styles and gradients); we then bake every
+ * transform into the points, so each shape is a plain path sitting exactly
+ * where it was drawn.
+ *
+ * Clip paths, text and embedded images are left out.
+ */
+
+// An XML prolog, comments or a doctype may come before the <svg> tag
+const SVG_START = /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/i;
+
+export const SVG_FILE_TYPES = '.svg,image/svg+xml';
+
+export const looksLikeSvg = (text: string) => SVG_START.test(text);
+
+/**
+ * The <svg> element of some markup, or null when it isn't a readable SVG.
+ */
+export const parseSvg = (markup: string): SVGSVGElement | null => {
+    if (!looksLikeSvg(markup)) return null;
+    const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) return null;
+    const root = doc.documentElement;
+    return root && root.tagName.toLowerCase() === 'svg' ? root as unknown as SVGSVGElement : null;
+};
+
+// --- Paper.js -> Two.js ---
+
+// Solid colours stay HEX; see-through ones become rgba()
+const toColor = (color: paper.Color | null): string => {
+    if (!color || color.alpha === 0) return 'transparent';
+    return color.toCSS(color.alpha === 1);
+};
+
+// Paper's gradient ends are points; ours are fractions of the shape's box
+const toGradientPaint = (color: any, matrix: paper.Matrix, shape: any): GradientPaint => {
+    const bounds = getLocalBounds(shape);
+    const fraction = (point: paper.Point) => {
+        const p = matrix.transform(point);
+        return { x: (p.x - bounds.x) / bounds.width, y: (p.y - bounds.y) / bounds.height };
+    };
+    const stops = color.gradient.stops;
+    return {
+        type: color.gradient.radial ? 'radial' : 'linear',
+        // A stop without an offset is spread out evenly, like the browser does
+        stops: stops.map((stop: any, index: number) => ({
+            offset: stop.offset ?? (stops.length > 1 ? index / (stops.length - 1) : 0),
+            color: stop.color.toCSS(true),
+            opacity: stop.color.alpha,
+        })),
+        from: fraction(color.origin),
+        to: fraction(color.destination),
+    };
+};
+
+const applyPaint = (shape: any, channel: PaintChannel, color: any, matrix: paper.Matrix) => {
+    if (color?.gradient) applyGradient(shape, channel, toGradientPaint(color, matrix, shape), toColor(color.gradient.stops[0]?.color ?? null));
+    else shape[channel] = toColor(color);
+};
+
+// Moves a contour's points (and their handles, which are relative to them) through a matrix
+const toAnchors = (contour: paper.Path, matrix: paper.Matrix): any[] => contour.segments.map((segment, index) => {
+    const point = matrix.transform(segment.point);
+    const handleIn = matrix.transform(segment.point.add(segment.handleIn)).subtract(point);
+    const handleOut = matrix.transform(segment.point.add(segment.handleOut)).subtract(point);
+    return new Two.Anchor(point.x, point.y, handleIn.x, handleIn.y, handleOut.x, handleOut.y, index === 0 ? Two.Commands.move : Two.Commands.curve);
+});
+
+const toTwoPath = (item: paper.PathItem, matrix: paper.Matrix): any | null => {
+    // Two.js always fills with the non-zero rule, so even-odd holes are turned the other way round instead
+    if (item.fillRule === 'evenodd') item.reorient(true, true);
+    const contours = (item instanceof paper.CompoundPath ? item.children : [item])
+        .filter((contour): contour is paper.Path => contour instanceof paper.Path && contour.segments.length > 0);
+    if (contours.length === 0) return null;
+
+    // Two.js only curves back to the start at the very end, so with several contours each one closes itself
+    const isCompound = contours.length > 1;
+    const vertices = contours.flatMap(contour => {
+        const anchors = toAnchors(contour, matrix);
+        if (isCompound && contour.closed) {
+            const [first] = anchors;
+            anchors.push(new Two.Anchor(first.x, first.y, first.controls.left.x, first.controls.left.y, 0, 0, Two.Commands.curve));
+        }
+        return anchors;
+    });
+    const path: any = new Two.Path(vertices, !isCompound && contours[0].closed, true, true);
+
+    // Strokes and dashes grow and shrink with the shape, like in the SVG
+    const scale = Math.sqrt(Math.abs(matrix.a * matrix.d - matrix.b * matrix.c));
+    path.linewidth = (item.strokeWidth ?? 1) * scale;
+    path.cap = item.strokeCap ?? 'butt';
+    path.join = item.strokeJoin ?? 'miter';
+    path.miter = item.miterLimit ?? 4;
+    path.dashes = (item.dashArray ?? []).map(dash => dash * scale);
+    path.opacity = item.opacity;
+    applyPaint(path, 'fill', item.fillColor, matrix);
+    applyPaint(path, 'stroke', item.strokeColor, matrix);
+    return path;
+};
+
+const isDrawn = (item: paper.Item) => item.visible && !item.clipMask;
+
+// One object: a path, or a group of them (<use> copies included). `parentMatrix` places the item's parent.
+const toTwo = (item: paper.Item, parentMatrix: paper.Matrix): any | null => {
+    if (!isDrawn(item)) return null;
+    const matrix = parentMatrix.appended(item.matrix);
+    if (item instanceof paper.PathItem) return toTwoPath(item, matrix);
+
+    const children = item instanceof paper.SymbolItem ? [item.definition.item] : item.children ?? [];
+    const objects = children.map(child => toTwo(child, matrix)).filter(object => object !== null);
+    if (objects.length === 0) return null;
+    const group: any = new Two.Group();
+    objects.forEach(object => group.add(object));
+    group.opacity = item.opacity;
+    return group;
+};
+
+const readWithPaper = (scope: paper.PaperScope, svg: SVGSVGElement): paper.Item | null => {
+    scope.activate();
+    // Transforms stay on each item here; toTwo bakes them into the points
+    return scope.project.importSVG(svg, { expandShapes: true, insert: false, applyMatrix: false }) ?? null;
+};
+
+/**
+ * Reads an SVG into a detached Two.js group, in the SVG's own units (its 0,0 is the group's 0,0).
+ */
+export const interpretSvg = (scope: paper.PaperScope, svg: SVGSVGElement): any | null => {
+    const root = readWithPaper(scope, svg);
+    return root ? toTwo(root, new scope.Matrix()) : null;
+};
+
+// --- SVG -> Layers ---
+
+let importCount = 0;
+
+const createLayer = (type: Layer['type'], name: string, opacity = 1): Layer => ({
+    id: `svg-${Date.now()}-${importCount++}`,
+    type,
+    name,
+    isVisible: true,
+    opacity,
+    blendMode: 'source-over',
+    x: 0,
+    y: 0,
+    scale: 1,
+    rotation: 0,
+    children: [],
+    isOpen: true,
+});
+
+const hasSubGroups = (item: paper.Item) => (item.children ?? []).some(child => isDrawn(child) && child instanceof paper.Group);
+
+/**
+ * Reads an SVG file into new layers: every <g> holding other groups becomes a group layer, and the
+ * shapes next to them are kept together in plain layers. `at` is where the SVG's 0,0 goes, or with
+ * `centred` where the middle of its drawing goes.
+ * The ids are placeholders; they are swapped for fresh ones when the layers are added.
+ */
+export const svgToLayers = (scope: paper.PaperScope, svg: SVGSVGElement, name: string, at: { x: number, y: number }, centred = false): ClipboardLayers | null => {
+    const root = readWithPaper(scope, svg);
+    if (!root) return null;
+    const offset = centred ? { x: at.x - root.bounds.center.x, y: at.y - root.bounds.center.y } : at;
+    const content: Record<string, SerializedNode[]> = {};
+
+    const shapesLayer = (items: paper.Item[], matrix: paper.Matrix, layerName: string, opacity = 1): Layer | null => {
+        const nodes = items
+            .map(item => toTwo(item, matrix))
+            .map(object => object ? serializeNode(object) : null)
+            .filter((node): node is SerializedNode => node !== null);
+        if (nodes.length === 0) return null;
+        const layer = createLayer('layer', layerName, opacity);
+        content[layer.id] = nodes;
+        return layer;
+    };
+
+    const groupLayer = (group: paper.Item, parentMatrix: paper.Matrix, layerName: string): Layer | null => {
+        const matrix = parentMatrix.appended(group.matrix);
+        if (!hasSubGroups(group)) return shapesLayer(group.children ?? [], matrix, layerName, group.opacity);
+
+        // Paper lists children bottom first; layers are listed top first
+        const layers: Layer[] = [];
+        let run: paper.Item[] = [];
+        const flushRun = () => {
+            const layer = shapesLayer(run, matrix, 'Shapes');
+            if (layer) layers.unshift(layer);
+            run = [];
+        };
+        group.children.filter(isDrawn).forEach(child => {
+            if (!(child instanceof paper.Group)) {
+                run.push(child);
+                return;
+            }
+            flushRun();
+            const layer = groupLayer(child, matrix, child.name || 'Group');
+            if (layer) layers.unshift(layer);
+        });
+        flushRun();
+        if (layers.length === 0) return null;
+        return { ...createLayer('group', layerName, group.opacity), children: layers };
+    };
+
+    const layer = groupLayer(root, new scope.Matrix().translate(offset.x, offset.y), name);
+    return layer ? { kind: 'layers', layers: [layer], content } : null;
+};
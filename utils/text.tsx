@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import Two from 'two.js';
+import { TextStyle } from '../types/index.tsx';
+import { refreshGradients } from './gradient.tsx';
+
+/**
+ * 🔤 Text Layout
+ * Two.js only knows single lines of text with no letter spacing, so a text
+ * object here is a Two.Group of ready-placed pieces: one Two.Text per line,
+ * or one per letter when the letters are spaced out. The group remembers the
+ * words and style (`_textValue`, `_textStyle`) so it can be laid out again.
+ *
+ * The group's origin is the top of the first line: its left end for
+ * left-aligned text, its middle for centred text, its right end for
+ * right-aligned text. Typing more therefore grows the text the way you expect.
+ */
+
+export interface TextLayoutLine {
+    text: string;
+    x: number; // Left end of the line
+    y: number; // Middle of the line
+    width: number;
+    glyphs: { text: string, x: number }[];
+}
+
+export interface TextLayout {
+    left: number;
+    width: number;
+    height: number;
+    lineHeight: number;
+    lines: TextLayoutLine[];
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+const getMeasureContext = () => {
+    if (!measureContext) measureContext = document.createElement('canvas').getContext('2d');
+    return measureContext;
+};
+
+export const toFontString = (style: TextStyle) => `${style.weight} ${style.size}px ${style.family}`;
+
+export const isTextObject = (object: any): boolean => !!object && object._isText === true;
+
+/**
+ * Works out where every line (and letter) of the text goes.
+ */
+export const layoutText = (value: string, style: TextStyle): TextLayout => {
+    const ctx = getMeasureContext();
+    if (ctx) ctx.font = toFontString(style);
+    const measure = (text: string) => ctx ? ctx.measureText(text).width : text.length * style.size * 0.6;
+
+    const lineHeight = style.size * style.lineHeight;
+    const measured = value.split('\n').map(text => {
+        const glyphs: { text: string, x: number }[] = [];
+        let width = measure(text);
+        if (style.letterSpacing !== 0) {
+            // Spaced letters are placed one by one, each followed by the extra gap
+            let cursor = 0;
+            Array.from(text).forEach(char => {
+                glyphs.push({ text: char, x: cursor });
+                cursor += measure(char) + style.letterSpacing;
+            });
+            width = Math.max(0, cursor - style.letterSpacing);
+        }
+        return { text, width, glyphs };
+    });
+
+    const width = Math.max(0, ...measured.map(line => line.width));
+    const left = style.align === 'left' ? 0 : style.align === 'center' ? -width / 2 : -width;
+    const lines = measured.map((line, i) => {
+        const x = style.align === 'left' ? 0 : style.align === 'center' ? -line.width / 2 : -line.width;
+        return { ...line, x, y: (i + 0.5) * lineHeight, glyphs: line.glyphs.map(g => ({ text: g.text, x: x + g.x })) };
+    });
+
+    return { left, width, height: lines.length * lineHeight, lineHeight, lines };
+};
+
+/**
+ * Rebuilds the pieces of a text object after its words or style changed. Paint (gradients too) and transform stay as they are.
+ */
+export const updateTextObject = (group: any, value: string = group._textValue, style: TextStyle = group._textStyle) => {
+    group._textValue = value;
+    group._textStyle = { ...style };
+    group.children.slice().forEach((child: any) => child.remove());
+
+    const layout = layoutText(value, style);
+    const makePiece = (text: string, x: number, y: number) => {
+        const piece = new Two.Text(text, x, y, {
+            family: style.family, size: style.size, weight: style.weight, leading: layout.lineHeight,
+            alignment: 'left', baseline: 'middle',
+        });
+        piece.fill = group.fill;
+        piece.stroke = group.stroke;
+        piece.linewidth = group.linewidth;
+        group.add(piece);
+    };
+    layout.lines.forEach(line => {
+        if (line.glyphs.length > 0) line.glyphs.forEach(g => { if (g.text.trim()) makePiece(g.text, g.x, line.y); });
+        else if (line.text) makePiece(line.text, line.x, line.y);
+    });
+    // Gradients are spread over the whole block, so the new pieces need theirs fitted again
+    group._textBounds = { x: layout.left, y: 0, width: Math.max(layout.width, 1), height: Math.max(layout.height, 1) };
+    refreshGradients(group);
+    return group;
+};
+
+export const createTextObject = (value: string, style: TextStyle, paint: { fill: string, stroke: string, linewidth: number }) => {
+    const group: any = new Two.Group();
+    group._isText = true;
+    group.fill = paint.fill;
+    group.stroke = paint.stroke;
+    group.linewidth = paint.linewidth;
+    return updateTextObject(group, value, style);
+};
+
+// --- Tracing ---
+
+// Drops points that barely change the outline (Ramer-Douglas-Peucker)
+const simplifyPolyline = (points: { x: number, y: number }[], tolerance: number): { x: number, y: number }[] => {
+    if (points.length < 3) return points;
+    const first = points[0], last = points[points.length - 1];
+    const dx = last.x - first.x, dy = last.y - first.y;
+    const length = Math.hypot(dx, dy) || 1;
+    let maxDistance = 0, index = 0;
+    for (let i = 1; i < points.length - 1; i++) {
+        const distance = Math.abs(dy * points[i].x - dx * points[i].y + last.x * first.y - last.y * first.x) / length;
+        if (distance > maxDistance) { maxDistance = distance; index = i; }
+    }
+    if (maxDistance <= tolerance) return [first, last];
+    const head = simplifyPolyline(points.slice(0, index + 1), tolerance);
+    return [...head.slice(0, -1), ...simplifyPolyline(points.slice(index), tolerance)];
+};
+
+/**
+ * Traces text into closed polygons in the text object's own space. Browsers don't
+ * hand out glyph shapes, so the text is painted large on a hidden canvas and its
+ * edges are traced: the result follows the letters closely but is not the font's
+ * own curves. Outer edges run clockwise and holes (like the middle of an "o") run
+ * the other way, so a non-zero fill shows the holes.
+ */
+export const traceTextOutlines = (value: string, style: TextStyle): { x: number, y: number }[][] => {
+    const layout = layoutText(value, style);
+    if (layout.width === 0 || !value.trim()) return [];
+
+    // Paint big enough that the traced steps are tiny once scaled back down
+    const pad = 4;
+    let resolution = Math.min(8, Math.max(1, 192 / style.size));
+    resolution = Math.min(resolution, 4096 / (layout.width + pad * 2), 4096 / (layout.height + pad * 2));
+    const w = Math.ceil(layout.width * resolution) + pad * 2, h = Math.ceil(layout.height * resolution) + pad * 2;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = w; canvas.height = h;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return [];
+    ctx.setTransform(resolution, 0, 0, resolution, pad - layout.left * resolution, pad);
+    ctx.font = toFontString(style);
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#000';
+    layout.lines.forEach(line => {
+        if (line.glyphs.length > 0) line.glyphs.forEach(g => ctx.fillText(g.text, g.x, line.y));
+        else ctx.fillText(line.text, line.x, line.y);
+    });
+
+    const alpha = ctx.getImageData(0, 0, w, h).data;
+    const inside = (x: number, y: number) => x >= 0 && y >= 0 && x < w && y < h && alpha[(y * w + x) * 4 + 3] > 127;
+
+    // Every pixel side between ink and no ink becomes an edge, walked with the ink on the right
+    const edges = new Map<number, number[]>();
+    const key = (x: number, y: number) => y * (w + 1) + x;
+    const addEdge = (x0: number, y0: number, x1: number, y1: number) => {
+        const from = key(x0, y0);
+        const list = edges.get(from);
+        if (list) list.push(key(x1, y1)); else edges.set(from, [key(x1, y1)]);
+    };
+    for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) {
+            if (!inside(x, y)) continue;
+            if (!inside(x, y - 1)) addEdge(x, y, x + 1, y);
+            if (!inside(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1);
+            if (!inside(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1);
+            if (!inside(x - 1, y)) addEdge(x, y + 1, x, y);
+        }
+    }
+
+    // Chain the edges into closed loops
+    const contours: { x: number, y: number }[][] = [];
+    edges.forEach((_, start) => {
+        while (edges.get(start)?.length) {
+            const loop: { x: number, y: number }[] = [];
+            let current = start;
+            do {
+                const next = edges.get(current)!;
+                const to = next.pop()!;
+                if (next.length === 0) edges.delete(current);
+                loop.push({ x: current % (w + 1), y: Math.floor(current / (w + 1)) });
+                current = to;
+            } while (current !== start && edges.get(current)?.length);
+            if (loop.length < 3) continue;
+            const simplified = simplifyPolyline([...loop, loop[0]], 0.75).slice(0, -1);
+            if (simplified.length < 3) continue;
+            // Back from canvas pixels to text space
+            contours.push(simplified.map(p => ({ x: (p.x - pad) / resolution + layout.left, y: (p.y - pad) / resolution })));
+        }
+    });
+    return contours;
+};